@@ -1,6 +1,12 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { buildAllowlistFromCertificates, writeAllowlistFile } from '../src/common/allowlist.ts';
+import {
+    type AllowlistKind,
+    buildAllowlistFromCertificates,
+    sealAllowlist,
+    writeAllowlistFile,
+} from '../src/common/allowlist.ts';
+import { SUPPORTED_TREE_DEPTHS } from '../src/common/tree.ts';
 
 function usage(): void {
     console.log(`Usage: bun scripts/allowlist-from-certs.ts --out <file> [certs...] [--dir <folder>]
@@ -8,6 +14,10 @@ function usage(): void {
 Options:
   --out, -o   Output allowlist JSON path (default: ./allowlist.generated.json)
   --dir, -d   Add all cert files in a directory (non-recursive)
+  --ca        List issuing CA keys instead of signer keys
+  --mode, -m  Merkle hash mode the expected root is computed with (default: pedersen)
+  --depth     Merkle tree depth: 8, 16 or 20 (default: smallest that fits)
+  --jurisdiction  Jurisdiction the allowlist applies to, e.g. EE
   --help, -h  Show this help
 `);
 }
@@ -17,10 +27,21 @@ function isCertFile(filename: string): boolean {
     return ext === '.cer' || ext === '.crt' || ext === '.der' || ext === '.pem';
 }
 
-function parseArgs(argv: string[]): { outPath: string; certPaths: string[] } {
+function parseArgs(argv: string[]): {
+    outPath: string;
+    certPaths: string[];
+    kind: AllowlistKind;
+    mode: string;
+    depth?: number;
+    jurisdiction?: string;
+} {
     const args = [...argv];
     let outPath = path.resolve(process.cwd(), 'allowlist.generated.json');
     const certPaths: string[] = [];
+    let kind: AllowlistKind = 'signer';
+    let mode = 'pedersen';
+    let depth: number | undefined;
+    let jurisdiction: string | undefined;
 
     while (args.length > 0) {
         const current = args.shift();
@@ -43,6 +64,19 @@ function parseArgs(argv: string[]): { outPath: string; certPaths: string[] } {
                 }
                 break;
             }
+            case '--ca':
+                kind = 'ca';
+                break;
+            case '--mode':
+            case '-m':
+                mode = args.shift() ?? mode;
+                break;
+            case '--depth':
+                depth = Number(args.shift());
+                break;
+            case '--jurisdiction':
+                jurisdiction = args.shift();
+                break;
             case '--help':
             case '-h':
                 usage();
@@ -53,17 +87,28 @@ function parseArgs(argv: string[]): { outPath: string; certPaths: string[] } {
         }
     }
 
-    return { outPath, certPaths };
+    return { outPath, certPaths, kind, mode, depth, jurisdiction };
 }
 
-const { outPath, certPaths } = parseArgs(process.argv.slice(2));
+const { outPath, certPaths, kind, mode, depth, jurisdiction } = parseArgs(process.argv.slice(2));
 
 if (certPaths.length === 0) {
     usage();
     process.exit(1);
 }
 
-const allowlist = buildAllowlistFromCertificates(certPaths, { sort: true });
+if (depth !== undefined && !SUPPORTED_TREE_DEPTHS.includes(depth)) {
+    console.error(`Unsupported --depth (expected one of ${SUPPORTED_TREE_DEPTHS.join(', ')})`);
+    usage();
+    process.exit(1);
+}
+
+const allowlist = await sealAllowlist(buildAllowlistFromCertificates(certPaths, { sort: true, kind }), {
+    mode,
+    depth,
+    jurisdiction,
+});
 writeAllowlistFile(allowlist, outPath);
 
-console.log(`Wrote allowlist with ${allowlist.cert_fingerprints.length} entries to: ${outPath}`);
+console.log(`Wrote ${kind} allowlist with ${allowlist.cert_fingerprints.length} entries to: ${outPath}`);
+console.log(`Expected ${mode} root (depth ${allowlist.depth}): ${allowlist.root}`);
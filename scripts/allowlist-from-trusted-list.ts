@@ -0,0 +1,175 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { sealAllowlist, writeAllowlistFile } from '../src/common/allowlist.ts';
+import {
+    buildAllowlistFromTrustedLists,
+    DEFAULT_SERVICE_STATUSES,
+    DEFAULT_SERVICE_TYPES,
+    matchLotlPointers,
+    parseTrustedList,
+    type TrustedList,
+} from '../src/common/trusted-list.ts';
+
+function usage(): void {
+    console.log(`Usage: bun scripts/allowlist-from-trusted-list.ts --out <file> [--lotl <file>] --tl <file> [--tl <file>...]
+
+Builds a CA allowlist from locally saved ETSI TS 119 612 Trusted List XML files.
+The XML signatures of the lists are not checked; fetch them over a trusted channel.
+
+Options:
+  --out, -o         Output allowlist JSON path (default: ./allowlist.generated.json)
+  --lotl            EU List of Trusted Lists; national lists are matched against its pointers
+  --tl              National Trusted List XML (repeatable)
+  --tl-dir          Add all .xml files in a directory (non-recursive)
+  --service-type    Service type to include, short or full URI (repeatable, default: ${DEFAULT_SERVICE_TYPES.join(', ')})
+  --status          Service status to include (repeatable, default: ${DEFAULT_SERVICE_STATUSES.join(', ')})
+  --mode, -m        Merkle hash mode the expected root is computed with (default: pedersen)
+  --depth           Merkle tree depth: 8, 16 or 20 (default: smallest that fits)
+  --jurisdiction    Jurisdiction recorded in the allowlist (default: territory of the LOTL or single TL)
+  --help, -h        Show this help
+`);
+}
+
+function parseArgs(argv: string[]): {
+    outPath: string;
+    lotlPath?: string;
+    tlPaths: string[];
+    serviceTypes: string[];
+    statuses: string[];
+    mode: string;
+    depth?: number;
+    jurisdiction?: string;
+} {
+    const args = [...argv];
+    let outPath = path.resolve(process.cwd(), 'allowlist.generated.json');
+    let lotlPath: string | undefined;
+    const tlPaths: string[] = [];
+    const serviceTypes: string[] = [];
+    const statuses: string[] = [];
+    let mode = 'pedersen';
+    let depth: number | undefined;
+    let jurisdiction: string | undefined;
+
+    while (args.length > 0) {
+        const current = args.shift();
+        if (!current) break;
+        switch (current) {
+            case '--out':
+            case '-o':
+                outPath = path.resolve(process.cwd(), args.shift() ?? outPath);
+                break;
+            case '--lotl': {
+                const lotl = args.shift();
+                if (lotl) lotlPath = path.resolve(process.cwd(), lotl);
+                break;
+            }
+            case '--tl': {
+                const tl = args.shift();
+                if (tl) tlPaths.push(path.resolve(process.cwd(), tl));
+                break;
+            }
+            case '--tl-dir': {
+                const dir = args.shift();
+                if (!dir) break;
+                const resolved = path.resolve(process.cwd(), dir);
+                for (const entry of fs.readdirSync(resolved).sort()) {
+                    if (path.extname(entry).toLowerCase() === '.xml') {
+                        tlPaths.push(path.join(resolved, entry));
+                    }
+                }
+                break;
+            }
+            case '--service-type': {
+                const type = args.shift();
+                if (type) serviceTypes.push(type);
+                break;
+            }
+            case '--status': {
+                const status = args.shift();
+                if (status) statuses.push(status);
+                break;
+            }
+            case '--mode':
+            case '-m':
+                mode = args.shift() ?? mode;
+                break;
+            case '--depth':
+                depth = Number(args.shift());
+                break;
+            case '--jurisdiction':
+                jurisdiction = args.shift();
+                break;
+            case '--help':
+            case '-h':
+                usage();
+                process.exit(0);
+                break;
+            default:
+                console.error(`Unknown argument: ${current}`);
+                usage();
+                process.exit(1);
+        }
+    }
+
+    return {
+        outPath,
+        lotlPath,
+        tlPaths: lotlPath ? tlPaths.filter((tl) => tl !== lotlPath) : tlPaths,
+        serviceTypes: serviceTypes.length > 0 ? serviceTypes : DEFAULT_SERVICE_TYPES,
+        statuses: statuses.length > 0 ? statuses : DEFAULT_SERVICE_STATUSES,
+        mode,
+        depth,
+        jurisdiction,
+    };
+}
+
+function loadTrustedList(filePath: string): TrustedList {
+    const list = parseTrustedList(fs.readFileSync(filePath, 'utf-8'));
+    const { territory, sequence_number, issue_date } = list.source;
+    console.log(`  ${path.basename(filePath)}: ${territory} #${sequence_number} issued ${issue_date}`);
+    return list;
+}
+
+const { outPath, lotlPath, tlPaths, serviceTypes, statuses, mode, depth, jurisdiction } = parseArgs(
+    process.argv.slice(2),
+);
+
+if (tlPaths.length === 0) {
+    usage();
+    process.exit(1);
+}
+
+console.log('Loading Trusted Lists...');
+const lotl = lotlPath ? loadTrustedList(lotlPath) : undefined;
+if (lotl && lotl.source.type !== 'lotl') {
+    console.error(`\nERROR: ${lotlPath} is not a List of Trusted Lists.`);
+    process.exit(1);
+}
+const lists = tlPaths.map(loadTrustedList);
+
+if (lotl) {
+    const { missing, unlisted } = matchLotlPointers(lotl, lists);
+    for (const list of unlisted) {
+        console.warn(`  ! ${list.source.territory} is not listed in the LOTL`);
+    }
+    if (missing.length > 0) {
+        console.log(
+            `  LOTL lists ${missing.length} Trusted List(s) not loaded: ${missing.map((p) => p.territory).join(', ')}`,
+        );
+    }
+}
+
+const built = buildAllowlistFromTrustedLists(lists, { serviceTypes, statuses }, lotl);
+for (const reason of built.skipped) {
+    console.warn(`  ! Skipped ${reason}`);
+}
+
+const territory = lotl?.source.territory ?? (lists.length === 1 ? lists[0].source.territory : undefined);
+const allowlist = await sealAllowlist(built.allowlist, { mode, depth, jurisdiction: jurisdiction ?? territory });
+writeAllowlistFile(allowlist, outPath);
+
+console.log(
+    `\nWrote CA allowlist with ${allowlist.cert_fingerprints.length} keys from ${built.services.length} service(s) ` +
+        `(${serviceTypes.join(', ')}; ${statuses.join(', ')}) to: ${outPath}`,
+);
+console.log(`Expected ${mode} root (depth ${allowlist.depth}): ${allowlist.root}`);
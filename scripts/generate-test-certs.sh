@@ -4,8 +4,12 @@ set -euo pipefail
 ROOT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")/.." && pwd)"
 ECDSA_DIR="$ROOT_DIR/tests/fixtures/ecdsa"
 RSA_DIR="$ROOT_DIR/tests/fixtures/rsa"
+CHAIN_DIR="$ROOT_DIR/tests/fixtures/chain"
+REVOCATION_DIR="$ROOT_DIR/tests/fixtures/revocation"
+TIMESTAMP_DIR="$ROOT_DIR/tests/fixtures/timestamp"
+DSS_DIR="$ROOT_DIR/tests/fixtures/dss"
 
-mkdir -p "$ECDSA_DIR" "$RSA_DIR"
+mkdir -p "$ECDSA_DIR" "$RSA_DIR" "$CHAIN_DIR" "$REVOCATION_DIR" "$TIMESTAMP_DIR" "$DSS_DIR"
 
 force=0
 if [[ "${1:-}" == "--force" ]]; then
@@ -43,6 +47,186 @@ for i in 1 2 3; do
   gen_rsa "$RSA_DIR/dummy-$i.cer" "$i"
 done
 
+# Root -> intermediate -> signer, plus a signer without nonRepudiation
+gen_chain() {
+  if [[ -f "$CHAIN_DIR/root.cer" && "$force" -ne 1 ]]; then
+    return
+  fi
+  local tmp
+  tmp="$(mktemp -d)"
+  for name in root intermediate signer no-nr; do
+    openssl ecparam -name prime256v1 -genkey -noout -out "$tmp/$name.key"
+  done
+
+  cat > "$tmp/ext.cnf" <<'EOF'
+[chain_ca]
+basicConstraints = critical, CA:TRUE
+keyUsage = critical, keyCertSign, cRLSign
+[signer]
+basicConstraints = CA:FALSE
+keyUsage = critical, digitalSignature, nonRepudiation
+[no_nr]
+basicConstraints = CA:FALSE
+keyUsage = critical, digitalSignature
+EOF
+
+  openssl req -x509 -new -key "$tmp/root.key" -subj "/CN=Chain Test Root" -days 3650 \
+    -addext "basicConstraints=critical,CA:TRUE" -addext "keyUsage=critical,keyCertSign,cRLSign" -out "$tmp/root.pem"
+  openssl req -new -key "$tmp/intermediate.key" -subj "/CN=Chain Test Intermediate" -out "$tmp/intermediate.csr"
+  openssl x509 -req -in "$tmp/intermediate.csr" -CA "$tmp/root.pem" -CAkey "$tmp/root.key" -CAcreateserial \
+    -days 3650 -extfile "$tmp/ext.cnf" -extensions chain_ca -out "$tmp/intermediate.pem"
+
+  local name
+  for name in signer no-nr; do
+    openssl req -new -key "$tmp/$name.key" -subj "/CN=Chain Test ${name}" -out "$tmp/$name.csr"
+    openssl x509 -req -in "$tmp/$name.csr" -CA "$tmp/intermediate.pem" -CAkey "$tmp/intermediate.key" \
+      -CAcreateserial -days 3650 -extfile "$tmp/ext.cnf" -extensions "${name/-/_}" -out "$tmp/$name.pem"
+  done
+
+  for name in root intermediate signer no-nr; do
+    openssl x509 -in "$tmp/$name.pem" -outform DER -out "$CHAIN_DIR/$name.cer"
+  done
+  rm -rf "$tmp"
+}
+
+gen_chain
+
+# CA issuing a revoked and a valid certificate, and a CRL listing the revoked one
+gen_revocation() {
+  if [[ -f "$REVOCATION_DIR/ca.crl" && "$force" -ne 1 ]]; then
+    return
+  fi
+  local tmp
+  tmp="$(mktemp -d)"
+  touch "$tmp/index.txt"
+  echo 01 > "$tmp/crlnumber"
+  cat > "$tmp/ca.cnf" <<EOF
+[ca]
+default_ca = revocation_ca
+[revocation_ca]
+database = $tmp/index.txt
+crlnumber = $tmp/crlnumber
+default_md = sha256
+default_crl_days = 3650
+EOF
+
+  openssl ecparam -name prime256v1 -genkey -noout -out "$tmp/ca.key"
+  openssl req -x509 -new -key "$tmp/ca.key" -subj "/CN=Revocation Test CA" -days 3650 \
+    -addext "basicConstraints=critical,CA:TRUE" -addext "keyUsage=critical,keyCertSign,cRLSign" -out "$tmp/ca.pem"
+
+  local name
+  for name in revoked valid; do
+    openssl ecparam -name prime256v1 -genkey -noout -out "$tmp/$name.key"
+    openssl req -new -key "$tmp/$name.key" -subj "/CN=Revocation Test ${name}" -out "$tmp/$name.csr"
+    openssl x509 -req -in "$tmp/$name.csr" -CA "$tmp/ca.pem" -CAkey "$tmp/ca.key" -CAcreateserial \
+      -days 3650 -out "$tmp/$name.pem"
+  done
+
+  openssl ca -config "$tmp/ca.cnf" -keyfile "$tmp/ca.key" -cert "$tmp/ca.pem" -revoke "$tmp/revoked.pem"
+  openssl ca -config "$tmp/ca.cnf" -keyfile "$tmp/ca.key" -cert "$tmp/ca.pem" -gencrl -out "$tmp/ca.crl.pem"
+  openssl crl -in "$tmp/ca.crl.pem" -outform DER -out "$REVOCATION_DIR/ca.crl"
+
+  for name in ca revoked valid; do
+    openssl x509 -in "$tmp/$name.pem" -outform DER -out "$REVOCATION_DIR/$name.cer"
+  done
+  rm -rf "$tmp"
+}
+
+gen_revocation
+
+# RFC 3161 token over the signature value of examples/ECDSA/ECDSA.pdf, as a PAdES B-T timestamp would carry
+gen_timestamp() {
+  if [[ -f "$TIMESTAMP_DIR/token.der" && "$force" -ne 1 ]]; then
+    return
+  fi
+  local tmp
+  tmp="$(mktemp -d)"
+  echo 01 > "$tmp/serial"
+  cat > "$tmp/tsa.cnf" <<EOF
+[tsa]
+default_tsa = test_tsa
+[test_tsa]
+serial = $tmp/serial
+signer_digest = sha256
+default_policy = 1.2.3.4.1
+digests = sha256
+accuracy = secs:1
+ess_cert_id_alg = sha256
+EOF
+
+  openssl ecparam -name prime256v1 -genkey -noout -out "$tmp/tsa.key"
+  openssl req -x509 -new -key "$tmp/tsa.key" -subj "/CN=Timestamp Test TSA" -days 3650 \
+    -addext "extendedKeyUsage=critical,timeStamping" -addext "keyUsage=critical,digitalSignature" -out "$tmp/tsa.pem"
+
+  (cd "$ROOT_DIR" && bun -e "
+    import fs from 'node:fs';
+    import { parseSignedData } from './src/common/cms.ts';
+    import { findSignatures } from './src/common/signatures.ts';
+    const [signature] = findSignatures(fs.readFileSync('examples/ECDSA/ECDSA.pdf'));
+    const [signerInfo] = parseSignedData(signature.contents).signerInfos;
+    fs.writeFileSync('$tmp/signature.bin', signerInfo.signature.valueBlock.valueHexView);
+  ")
+
+  openssl ts -query -data "$tmp/signature.bin" -sha256 -cert -out "$tmp/request.tsq"
+  openssl ts -reply -config "$tmp/tsa.cnf" -queryfile "$tmp/request.tsq" -signer "$tmp/tsa.pem" \
+    -inkey "$tmp/tsa.key" -token_out -out "$TIMESTAMP_DIR/token.der"
+  openssl x509 -in "$tmp/tsa.pem" -outform DER -out "$TIMESTAMP_DIR/tsa.cer"
+  rm -rf "$tmp"
+}
+
+gen_timestamp
+
+# Validation data a PAdES B-LT Document Security Store would carry: a CA, a signer it has
+# revoked, a CRL and an OCSP response (DER OCSPResponse) reporting the revocation
+gen_dss() {
+  if [[ -f "$DSS_DIR/signer.ocsp" && "$force" -ne 1 ]]; then
+    return
+  fi
+  local tmp
+  tmp="$(mktemp -d)"
+  touch "$tmp/index.txt"
+  echo 01 > "$tmp/crlnumber"
+  cat > "$tmp/ca.cnf" <<EOF
+[ca]
+default_ca = dss_ca
+[dss_ca]
+database = $tmp/index.txt
+crlnumber = $tmp/crlnumber
+default_md = sha256
+default_crl_days = 3650
+[signer]
+basicConstraints = CA:FALSE
+keyUsage = critical, digitalSignature, nonRepudiation
+EOF
+
+  openssl ecparam -name prime256v1 -genkey -noout -out "$tmp/ca.key"
+  openssl req -x509 -new -key "$tmp/ca.key" -subj "/CN=DSS Test CA" -days 3650 \
+    -addext "basicConstraints=critical,CA:TRUE" -addext "keyUsage=critical,keyCertSign,cRLSign" -out "$tmp/ca.pem"
+  openssl ecparam -name prime256v1 -genkey -noout -out "$tmp/signer.key"
+  openssl req -new -key "$tmp/signer.key" -subj "/CN=DSS Test signer" -out "$tmp/signer.csr"
+  openssl x509 -req -in "$tmp/signer.csr" -CA "$tmp/ca.pem" -CAkey "$tmp/ca.key" -CAcreateserial \
+    -days 3650 -extfile "$tmp/ca.cnf" -extensions signer -out "$tmp/signer.pem"
+
+  openssl ca -config "$tmp/ca.cnf" -keyfile "$tmp/ca.key" -cert "$tmp/ca.pem" -revoke "$tmp/signer.pem"
+  openssl ca -config "$tmp/ca.cnf" -keyfile "$tmp/ca.key" -cert "$tmp/ca.pem" -gencrl -out "$tmp/ca.crl.pem"
+  openssl crl -in "$tmp/ca.crl.pem" -outform DER -out "$DSS_DIR/ca.crl"
+
+  openssl ocsp -issuer "$tmp/ca.pem" -cert "$tmp/signer.pem" -no_nonce -reqout "$tmp/request.ocsp"
+  openssl ocsp -index "$tmp/index.txt" -CA "$tmp/ca.pem" -rsigner "$tmp/ca.pem" -rkey "$tmp/ca.key" \
+    -reqin "$tmp/request.ocsp" -ndays 3650 -respout "$DSS_DIR/signer.ocsp"
+
+  for name in ca signer; do
+    openssl x509 -in "$tmp/$name.pem" -outform DER -out "$DSS_DIR/$name.cer"
+  done
+  rm -rf "$tmp"
+}
+
+gen_dss
+
 echo "Generated test certs in:"
 echo "  $ECDSA_DIR"
 echo "  $RSA_DIR"
+echo "  $CHAIN_DIR"
+echo "  $REVOCATION_DIR"
+echo "  $TIMESTAMP_DIR"
+echo "  $DSS_DIR"
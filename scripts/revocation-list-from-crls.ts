@@ -0,0 +1,144 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { readAllowlistFile } from '../src/common/allowlist.ts';
+import {
+    certificateCandidates,
+    collectRevokedKeys,
+    sealRevocationList,
+    writeRevocationList,
+} from '../src/common/revocation.ts';
+
+function usage(): void {
+    console.log(`Usage: bun scripts/revocation-list-from-crls.ts --out <file> --crl <file> [--crl <file>...] [--certs <path>...]
+
+Builds a revocation list (indexed Merkle tree of revoked key fingerprints) from local CRLs.
+CRLs name revoked certificates by serial, so the certificates themselves must be supplied,
+either as files or through the entries of a version 2 allowlist.
+
+Options:
+  --out, -o         Output revocation list JSON path (default: ./revocation.generated.json)
+  --crl             CRL file, DER or PEM (repeatable)
+  --crl-dir         Add all .crl files in a directory (non-recursive)
+  --certs           Certificate file or directory to resolve revoked serials against (repeatable)
+  --allowlist       Version 2 allowlist whose entries resolve revoked serials (repeatable)
+  --issuer          CA certificate to verify CRL signatures with (repeatable)
+  --mode, -m        Merkle hash mode (default: pedersen)
+  --help, -h        Show this help
+`);
+}
+
+function isCertFile(filename: string): boolean {
+    const ext = path.extname(filename).toLowerCase();
+    return ext === '.cer' || ext === '.crt' || ext === '.der' || ext === '.pem';
+}
+
+function filesIn(dir: string, accept: (name: string) => boolean): string[] {
+    return fs
+        .readdirSync(dir)
+        .filter(accept)
+        .sort()
+        .map((name) => path.join(dir, name));
+}
+
+function certificatePaths(input: string): string[] {
+    const resolved = path.resolve(process.cwd(), input);
+    return fs.statSync(resolved).isDirectory() ? filesIn(resolved, isCertFile) : [resolved];
+}
+
+function parseArgs(argv: string[]): {
+    outPath: string;
+    crlPaths: string[];
+    certPaths: string[];
+    allowlistPaths: string[];
+    issuerPaths: string[];
+    mode: string;
+} {
+    const args = [...argv];
+    let outPath = path.resolve(process.cwd(), 'revocation.generated.json');
+    const crlPaths: string[] = [];
+    const certPaths: string[] = [];
+    const allowlistPaths: string[] = [];
+    const issuerPaths: string[] = [];
+    let mode = 'pedersen';
+
+    while (args.length > 0) {
+        const current = args.shift();
+        if (!current) break;
+        switch (current) {
+            case '--out':
+            case '-o':
+                outPath = path.resolve(process.cwd(), args.shift() ?? outPath);
+                break;
+            case '--crl': {
+                const crl = args.shift();
+                if (crl) crlPaths.push(path.resolve(process.cwd(), crl));
+                break;
+            }
+            case '--crl-dir': {
+                const dir = args.shift();
+                if (dir) {
+                    const resolved = path.resolve(process.cwd(), dir);
+                    crlPaths.push(...filesIn(resolved, (name) => path.extname(name).toLowerCase() === '.crl'));
+                }
+                break;
+            }
+            case '--certs': {
+                const certs = args.shift();
+                if (certs) certPaths.push(...certificatePaths(certs));
+                break;
+            }
+            case '--allowlist': {
+                const allowlist = args.shift();
+                if (allowlist) allowlistPaths.push(path.resolve(process.cwd(), allowlist));
+                break;
+            }
+            case '--issuer': {
+                const issuer = args.shift();
+                if (issuer) issuerPaths.push(...certificatePaths(issuer));
+                break;
+            }
+            case '--mode':
+            case '-m':
+                mode = args.shift() ?? mode;
+                break;
+            case '--help':
+            case '-h':
+                usage();
+                process.exit(0);
+                break;
+            default:
+                console.error(`Unknown argument: ${current}`);
+                usage();
+                process.exit(1);
+        }
+    }
+
+    return { outPath, crlPaths, certPaths, allowlistPaths, issuerPaths, mode };
+}
+
+const { outPath, crlPaths, certPaths, allowlistPaths, issuerPaths, mode } = parseArgs(process.argv.slice(2));
+
+if (crlPaths.length === 0) {
+    usage();
+    process.exit(1);
+}
+
+const candidates = certificateCandidates(certPaths, allowlistPaths.map(readAllowlistFile));
+const { revoked, crls, unmatched } = await collectRevokedKeys(crlPaths, candidates, issuerPaths);
+
+for (const crl of crls) {
+    const verified = crl.signature_verified ? 'signature verified' : 'signature NOT verified (pass --issuer)';
+    console.log(`  ${crl.source}: ${crl.issuer}, updated ${crl.this_update}, ${verified}`);
+}
+if (unmatched.length > 0) {
+    console.warn(`  ! ${unmatched.length} revoked serial(s) without a supplied certificate are not listed:`);
+    for (const serial of unmatched) {
+        console.warn(`    ${serial}`);
+    }
+}
+
+const list = await sealRevocationList(revoked, crls, mode);
+writeRevocationList(list, outPath);
+
+console.log(`\nWrote revocation list with ${revoked.length} revoked key(s) to: ${outPath}`);
+console.log(`Expected ${mode} revocation root: ${list.root}`);
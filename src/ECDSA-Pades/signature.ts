@@ -1,49 +1,30 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import * as asn1js from 'asn1js';
-import * as pkijs from 'pkijs';
-import { sha256 } from '../common/utils.ts';
+import { parseSignedData, selectCmsSigner } from '../common/cms.ts';
+import { digest, type DigestAlgorithm, signerDigestAlgorithm } from '../common/digest.ts';
+import type { PdfSignature } from '../common/signatures.ts';
+import { ecFingerprintBytes, type EcPublicKey, parseEcdsaSignature, parseEcPublicKey } from '../common/ec.ts';
 
 interface SignatureData {
     r: Buffer;
     s: Buffer;
 }
 
-interface PublicKeyData {
-    x: Buffer;
-    y: Buffer;
-}
-
-function extractCMSfromPDF(pdfBuffer: Buffer): Buffer | null {
-    const pdfStr = pdfBuffer.toString('latin1');
-
-    // Find /Contents <hex_string>
-    const match = pdfStr.match(/\/Contents\s*<([0-9a-fA-F\s]+)>/);
-    if (!match) {
-        return null;
-    }
-
-    const hexStr = match[1].replace(/\s+/g, '');
-    return Buffer.from(hexStr, 'hex');
-}
-
-function parseCMSWithPKIjs(cmsBuffer: Buffer): {
+function parseCMSWithPKIjs(
+    cmsBuffer: Buffer,
+    signerIndex: number,
+): {
+    digestAlgorithm: DigestAlgorithm;
     signedAttrsHash: Buffer;
     signedAttrsDer: Buffer;
     signature: SignatureData;
     certificate: Buffer;
-    publicKey: PublicKeyData;
+    publicKey: EcPublicKey;
     publicKeyFingerprintBytes: Buffer;
 } {
-    const asn1 = asn1js.fromBER(cmsBuffer);
-    if (asn1.offset === -1) {
-        throw new Error('Failed to parse CMS ASN.1');
-    }
-
-    const cmsContentSimpl = new pkijs.ContentInfo({ schema: asn1.result });
-    const cmsContent = new pkijs.SignedData({ schema: cmsContentSimpl.content });
-
-    const signerInfo = cmsContent.signerInfos[0];
+    // The signing certificate is the one named by the SignerInfo's sid, not necessarily the first
+    const { signerInfo, certificate: cert } = selectCmsSigner(parseSignedData(cmsBuffer), signerIndex);
 
     if (!signerInfo.signedAttrs) {
         throw new Error('No signed attributes found');
@@ -56,88 +37,66 @@ function parseCMSWithPKIjs(cmsBuffer: Buffer): {
     });
     const signedAttrsForSigning = attrsForSigning.toBER();
     const signedAttrsDer = Buffer.from(signedAttrsForSigning);
-    const signedAttrsHash = Buffer.from(sha256(new Uint8Array(signedAttrsForSigning)));
-
-    const signatureValue = Buffer.from(signerInfo.signature.valueBlock.valueHex);
-    const sigAsn1 = asn1js.fromBER(signatureValue);
-    if (sigAsn1.offset === -1) {
-        throw new Error('Failed to parse signature');
-    }
+    const digestAlgorithm = signerDigestAlgorithm(signerInfo);
+    const signedAttrsHash = Buffer.from(digest(digestAlgorithm, new Uint8Array(signedAttrsForSigning)));
 
-    const sigSequence = sigAsn1.result as asn1js.Sequence;
-    const rValue = (sigSequence.valueBlock.value[0] as asn1js.Integer).valueBlock.valueHexView;
-    const sValue = (sigSequence.valueBlock.value[1] as asn1js.Integer).valueBlock.valueHexView;
-
-    const padTo32 = (buf: Uint8Array): Buffer => {
-        const b = Buffer.from(buf);
-        if (b[0] === 0 && b.length === 33) return b.slice(1);
-        if (b.length === 32) return b;
-        if (b.length < 32) {
-            const padded = Buffer.alloc(32);
-            b.copy(padded, 32 - b.length);
-            return padded;
-        }
-        return b.slice(-32);
-    };
-
-    const r = padTo32(rValue);
-    const s = padTo32(sValue);
-
-    if (!cmsContent.certificates || cmsContent.certificates.length === 0) {
-        throw new Error('No certificates in CMS');
-    }
-
-    const cert = cmsContent.certificates[0] as pkijs.Certificate;
     const certDer = Buffer.from(cert.toSchema().toBER());
 
-    const pubKeyBytes = Buffer.from(cert.subjectPublicKeyInfo.subjectPublicKey.valueBlock.valueHexView);
-
-    if (pubKeyBytes[0] !== 0x04 || pubKeyBytes.length !== 65) {
-        throw new Error(`Invalid EC public key format: ${pubKeyBytes.length} bytes`);
-    }
+    const publicKey = parseEcPublicKey(cert.subjectPublicKeyInfo);
+    const publicKeyFingerprintBytes = ecFingerprintBytes(publicKey);
 
-    const pubX = pubKeyBytes.slice(1, 33);
-    const pubY = pubKeyBytes.slice(33, 65);
-    const publicKeyFingerprintBytes = Buffer.concat([pubX, pubY]);
+    const { r, s } = parseEcdsaSignature(signerInfo.signature.valueBlock.valueHexView, publicKey.curve);
 
     return {
+        digestAlgorithm,
         signedAttrsHash,
         signedAttrsDer,
         signature: { r, s },
         certificate: certDer,
-        publicKey: { x: pubX, y: pubY },
+        publicKey,
         publicKeyFingerprintBytes,
     };
 }
 
 export async function extractSignatureFromPDF(
-    pdfBuffer: Buffer,
+    pdfSignature: PdfSignature,
     outDir: string,
     isDump: boolean = false,
+    signerIndex: number = 0,
 ): Promise<{
+    digestAlgorithm: DigestAlgorithm;
     signature: SignatureData;
-    publicKey: PublicKeyData;
+    publicKey: EcPublicKey;
     certificate: Buffer;
     signedAttrsHash: Buffer;
     signedAttrsDer: Buffer;
     publicKeyFingerprintBytes: Buffer;
 }> {
-    const cmsBuffer = extractCMSfromPDF(pdfBuffer);
-    if (!cmsBuffer) {
-        throw new Error('Error: CMS not found in PDF');
+    const cmsBuffer = pdfSignature.contents;
+    if (cmsBuffer.length === 0) {
+        throw new Error(`Error: signature #${pdfSignature.index} has empty /Contents`);
     }
 
     console.log(`CMS length: ${cmsBuffer.length} bytes`);
 
-    const { signedAttrsHash, signedAttrsDer, signature, certificate, publicKey, publicKeyFingerprintBytes } =
-        parseCMSWithPKIjs(cmsBuffer);
+    const {
+        digestAlgorithm,
+        signedAttrsHash,
+        signedAttrsDer,
+        signature,
+        certificate,
+        publicKey,
+        publicKeyFingerprintBytes,
+    } = parseCMSWithPKIjs(cmsBuffer, signerIndex);
 
-    console.log(`  r (32 bytes): ${signature.r.toString('hex')}`);
-    console.log(`  s (32 bytes): ${signature.s.toString('hex')}`);
+    const size = publicKey.curve.size;
+    console.log(`  r (${size} bytes): ${signature.r.toString('hex')}`);
+    console.log(`  s (${size} bytes): ${signature.s.toString('hex')}`);
     console.log(`\nCertificate extracted (${certificate.length} bytes)`);
-    console.log(`  x (32 bytes): ${publicKey.x.toString('hex')}`);
-    console.log(`  y (32 bytes): ${publicKey.y.toString('hex')}`);
-    console.log(`\nSigned attrs hash: ${signedAttrsHash.toString('hex')}`);
+    console.log(`  curve: ${publicKey.curve.name}`);
+    console.log(`  x (${size} bytes): ${publicKey.x.toString('hex')}`);
+    console.log(`  y (${size} bytes): ${publicKey.y.toString('hex')}`);
+    console.log(`\nSigned attrs hash (${digestAlgorithm}): ${signedAttrsHash.toString('hex')}`);
 
     if (isDump) {
         const sigJsonPath = path.join(outDir, 'sig.json');
@@ -163,6 +122,7 @@ export async function extractSignatureFromPDF(
             pubkeyJsonPath,
             JSON.stringify(
                 {
+                    curve: publicKey.curve.name,
                     x: publicKey.x.toString('hex'),
                     y: publicKey.y.toString('hex'),
                 },
@@ -184,6 +144,7 @@ export async function extractSignatureFromPDF(
     }
 
     return {
+        digestAlgorithm,
         signature,
         publicKey: publicKey,
         certificate,
@@ -1,17 +1,44 @@
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import type { Noir } from '@noir-lang/noir_js';
-import type { Barretenberg, UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
+import type { InputMap, Noir } from '@noir-lang/noir_js';
+import type { UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
 import { extractSignatureFromPDF } from './signature.ts';
-import type { RunSpec, ProofResult } from '../common/runner.ts';
+import type { EcCurve } from '../common/ec.ts';
+import {
+    DEFAULT_DIGEST_ALGORITHM,
+    type DigestAlgorithm,
+    digestAlgorithmBits,
+    digestCircuitSuffix,
+} from '../common/digest.ts';
+import { assertMerkleMode, treeDepthCircuitSuffix } from '../common/tree.ts';
+import { revocationCircuitSuffix, revocationNoirInputs, type RevocationOptions } from '../common/revocation.ts';
+import {
+    formatUnixTime,
+    signingTimeCircuitSuffix,
+    signingTimeNoirInputs,
+    type SigningTimeOptions,
+} from '../common/signing-time.ts';
+import { issuerNoirInputs } from '../common/issuer.ts';
+import { padBytes } from '../common/utils.ts';
+import type { ChainOptions } from '../common/chain.ts';
+import { assertCircuitOptions, type CircuitOptions, circuitOptionsOf, readCircuitOptions } from '../common/variants.ts';
+import { circuitVariantPath, type RunSpec, type ProofResult } from '../common/runner.ts';
 import {
     type CommonPreparationResult,
+    type ManifestPrivacy,
+    type ManifestValidation,
+    type OracleHash,
+    type ProofOptions,
+    type SignatureOptions,
+    DEFAULT_MANIFEST_PRIVACY,
     MAX_SIGNED_ATTRS_LEN,
+    oracleHashOptions,
     padMerklePath,
     prepareCommon,
-    padBytes,
+    redactSigner,
+    redactValidation,
     verifyProofCommon,
-    writeProofArtifacts
+    writeProofArtifacts,
 } from '../common/pades.ts';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -20,25 +47,36 @@ const repoRoot = path.resolve(__dirname, '..', '..');
 const DEFAULT_MODE = 'pedersen';
 
 type PreparationResult = CommonPreparationResult & {
+    curve: EcCurve;
     pub_key_x: Uint8Array;
     pub_key_y: Uint8Array;
     signature: Uint8Array;
 };
 
+type EcdsaSigner = {
+    curve: string;
+    pub_x: string;
+    pub_y: string;
+    fingerprint: string;
+};
+
 type EcdsaManifest = {
     version: number;
+    circuit: string;
+    oracle_hash: OracleHash;
     doc_hash: string;
     signed_attrs_hash: string;
-    signer: {
-        pub_x: string;
-        pub_y: string;
-        fingerprint: string;
-    };
+    digest_algorithm: DigestAlgorithm; // also a public input of the circuit
+    privacy: ManifestPrivacy;
+    signer?: EcdsaSigner | Pick<EcdsaSigner, 'fingerprint'>;
     tl_root: string;
+    revocation_root?: string;
+    signed_after?: string;
+    signed_before?: string;
     proof: string;
     timestamp: string;
     notes: string;
-};
+} & ManifestValidation;
 
 type EcdsaProofResult = ProofResult<EcdsaManifest>;
 
@@ -50,7 +88,12 @@ export type EcdsaSpecOptions = {
     outDir?: string;
     mode?: string;
     isDump?: boolean;
-};
+    privacy?: ManifestPrivacy;
+    oracleHash?: OracleHash;
+} & SignatureOptions &
+    ChainOptions &
+    RevocationOptions &
+    SigningTimeOptions;
 
 async function preparePDF(
     pdfPath: string,
@@ -58,8 +101,12 @@ async function preparePDF(
     mode: string,
     isDump: boolean = false,
     outDir: string = 'out',
-    bbApi?: Barretenberg,
     allowlistCertPaths?: string[],
+    signatureOptions: SignatureOptions = {},
+    chainOptions: ChainOptions = {},
+    revocationOptions: RevocationOptions = {},
+    signingTimeOptions: SigningTimeOptions = {},
+    assertKeyCircuit?: (curve: EcCurve, digestAlgorithm: DigestAlgorithm) => void,
 ): Promise<PreparationResult> {
     return prepareCommon({
         pdfPath,
@@ -68,10 +115,14 @@ async function preparePDF(
         mode,
         isDump,
         outDir,
-        bbApi,
+        signatureOptions,
+        chainOptions,
+        revocationOptions,
+        signingTimeOptions,
         extractLabel: 'ECDSA',
-        extract: async (pdfBuffer, extractOutDir, extractDump) => {
-            const extractedData = await extractSignatureFromPDF(pdfBuffer, extractOutDir, extractDump);
+        extract: async (pdfSignature, extractOutDir, extractDump, signerIndex) => {
+            const extractedData = await extractSignatureFromPDF(pdfSignature, extractOutDir, extractDump, signerIndex);
+            assertKeyCircuit?.(extractedData.publicKey.curve, extractedData.digestAlgorithm);
             const signature = Buffer.concat([extractedData.signature.r, extractedData.signature.s]);
 
             return {
@@ -79,6 +130,7 @@ async function preparePDF(
                 signedAttrsDer: extractedData.signedAttrsDer,
                 certificate: extractedData.certificate,
                 publicKeyFingerprintBytes: extractedData.publicKeyFingerprintBytes,
+                curve: extractedData.publicKey.curve,
                 pub_key_x: extractedData.publicKey.x,
                 pub_key_y: extractedData.publicKey.y,
                 signature: new Uint8Array(signature),
@@ -91,6 +143,7 @@ async function generateProof(
     prep: PreparationResult,
     noir: Noir,
     backend: BarretenbergBackend,
+    proofOptions: ProofOptions,
     isDump: boolean = false,
     outDir: string = 'out',
 ): Promise<EcdsaProofResult> {
@@ -104,49 +157,78 @@ async function generateProof(
     console.log(`  signed_attrs_hash: ${Buffer.from(signed_attrs_hash).toString('hex')}`);
     console.log(`  doc_hash: ${Buffer.from(prep.doc_hash).toString('hex')}`);
     console.log(`  signed_attrs_len: ${signed_attrs_len}`);
+    console.log(`  curve: ${prep.curve.name}`);
     console.log(`  pub_key_x: ${Buffer.from(prep.pub_key_x).toString('hex')}`);
     console.log(`  pub_key_y: ${Buffer.from(prep.pub_key_y).toString('hex')}`);
-    console.log(`  signer_fpr: ${prep.signer_fpr} (Field)`);
+    console.log(`  ${prep.issuer ? 'ca_fpr' : 'signer_fpr'}: ${prep.signer_fpr} (Field)`);
     console.log(`  tl_root: ${prep.tl_root} (Field)`);
     console.log(`  index: ${prep.index}`);
     console.log(`  signature: ${Buffer.from(prep.signature).toString('hex')}`);
+    if (prep.issuer) {
+        console.log(`  tbs_len: ${prep.issuer.tbs.length}`);
+        console.log(`  ca_pub_key_x: ${Buffer.from(prep.issuer.ca_pub_key_x).toString('hex')}`);
+        console.log(`  ca_pub_key_y: ${Buffer.from(prep.issuer.ca_pub_key_y).toString('hex')}`);
+    }
 
-    const merkle_path = padMerklePath(prep.merkle_path, 8);
+    const merkle_path = padMerklePath(prep.merkle_path, prep.tree_depth);
+
+    // CA allowlists: the leaf is the issuer key and the signer key comes from the TBSCertificate
+    const keyInputs: InputMap = prep.issuer
+        ? { ...issuerNoirInputs(prep.issuer), ca_fpr: prep.signer_fpr }
+        : {
+              pub_key_x: Array.from(prep.pub_key_x),
+              pub_key_y: Array.from(prep.pub_key_y),
+              signer_fpr: prep.signer_fpr,
+          };
 
     const noirInputs = {
         doc_hash: Array.from(prep.doc_hash),
         signed_attrs_hash: Array.from(signed_attrs_hash),
+        digest_algorithm: digestAlgorithmBits(prep.digest_algorithm),
         signed_attrs: Array.from(signed_attrs_der),
         signed_attrs_len,
-        pub_key_x: Array.from(prep.pub_key_x),
-        pub_key_y: Array.from(prep.pub_key_y),
-        signer_fpr: prep.signer_fpr,
+        ...keyInputs,
         tl_root: prep.tl_root,
         signature: Array.from(prep.signature),
         merkle_path,
         index: prep.index,
+        ...(prep.revocation ? revocationNoirInputs(prep.revocation) : {}),
+        ...(prep.signing_time ? signingTimeNoirInputs(prep.signing_time) : {}),
     };
 
     console.log('\nGenerating witness...');
     const { witness } = await noir.execute(noirInputs);
 
     console.log('Generating proof...');
-    const proof = await backend.generateProof(witness);
+    const { circuit, privacy, oracleHash } = proofOptions;
+    const proof = await backend.generateProof(witness, oracleHashOptions(oracleHash));
 
     console.log(`✓ Proof generated (${proof.proof.length} bytes)`);
 
-    const vkey = await backend.getVerificationKey();
+    const vkey = await backend.getVerificationKey(oracleHashOptions(oracleHash));
 
     const manifest: EcdsaManifest = {
         version: 1,
+        circuit,
+        oracle_hash: oracleHash,
+        privacy,
+        ...redactValidation(prep, privacy),
         doc_hash: Buffer.from(prep.doc_hash).toString('hex'),
         signed_attrs_hash: Buffer.from(signed_attrs_hash).toString('hex'),
-        signer: {
-            pub_x: Buffer.from(prep.pub_key_x).toString('hex'),
-            pub_y: Buffer.from(prep.pub_key_y).toString('hex'),
-            fingerprint: prep.signer_fpr_hex,
-        },
+        digest_algorithm: prep.digest_algorithm,
+        signer: redactSigner(
+            {
+                curve: prep.curve.name,
+                pub_x: Buffer.from(prep.pub_key_x).toString('hex'),
+                pub_y: Buffer.from(prep.pub_key_y).toString('hex'),
+                fingerprint: prep.signer_fpr_hex,
+            },
+            privacy,
+        ),
         tl_root: prep.tl_root,
+        revocation_root: prep.revocation?.root,
+        signed_after: prep.signing_time?.signed_after,
+        signed_before: prep.signing_time?.signed_before,
         proof: Buffer.from(proof.proof).toString('base64'),
         timestamp: new Date().toISOString(),
         notes: 'Generated by runner',
@@ -179,17 +261,63 @@ async function verifyProof(
 ): Promise<boolean> {
     return verifyProofCommon(proofResult, backend, expectedTlRoot, (manifest) => {
         console.log(`  Version: ${manifest.version}`);
+        console.log(`  Circuit: ${manifest.circuit} (${manifest.oracle_hash} oracle)`);
         console.log(`  Timestamp: ${manifest.timestamp}`);
+        console.log(`  Digest algorithm: ${manifest.digest_algorithm}`);
         console.log(`  Doc hash: ${manifest.doc_hash}`);
         console.log(`  Signed attrs hash: ${manifest.signed_attrs_hash}`);
-        console.log(`  Signer fingerprint: ${manifest.signer.fingerprint}`);
+        console.log(`  Privacy: ${manifest.privacy}`);
+        console.log(`  Certificate chain: ${manifest.certificate_chain.valid ? 'valid' : 'INVALID'}`);
+        if (manifest.signing_certificate) {
+            console.log(`  Signing certificate: ${manifest.signing_certificate.status}`);
+        }
+        if (manifest.revocation_root) {
+            console.log(`  Revocation root: ${manifest.revocation_root}`);
+        }
+        if (manifest.signed_after && manifest.signed_before) {
+            const range = `${formatUnixTime(manifest.signed_after)} .. ${formatUnixTime(manifest.signed_before)}`;
+            console.log(`  Signed within: ${range}`);
+        }
+        if (manifest.signer) {
+            console.log(`  Signer fingerprint: ${manifest.signer.fingerprint}`);
+        }
     });
 }
 
+// Allowlist kind, tree depth and the optional revocation and signing-time proofs each select a variant;
+// P-256 with SHA-256 keeps the original names and other curves and digests get their own circuits
+function ecdsaCircuitName(
+    { mode, allowlistKind, treeDepth, revocation, signingTime }: CircuitOptions,
+    curve?: EcCurve,
+    digestAlgorithm: DigestAlgorithm = DEFAULT_DIGEST_ALGORITHM,
+): string {
+    const ca = allowlistKind === 'ca' ? '_ca' : '';
+    const curveSuffix = !curve || curve.id === 'p256' ? '' : `_${curve.id.toLowerCase()}`;
+    const variant = `${digestCircuitSuffix(digestAlgorithm)}_${mode}${treeDepthCircuitSuffix(treeDepth)}`;
+    const proofs = `${revocationCircuitSuffix(revocation)}${signingTimeCircuitSuffix(signingTime)}`;
+    return `pades_ecdsa${ca}${curveSuffix}${variant}${proofs}`;
+}
+
 export function createEcdsaRunSpec(options: EcdsaSpecOptions): RunSpec<PreparationResult, EcdsaProofResult> {
     const mode = options.mode ?? DEFAULT_MODE;
+    assertMerkleMode(mode);
     const outDir = options.outDir ?? path.join(__dirname, 'out');
     const allowlistPath = options.allowlistPath ?? path.join(outDir, 'allowlist.generated.json');
+    const circuitPath = options.circuitPath ?? path.join(repoRoot, 'circuits', `pades_ecdsa_${mode}`);
+    const proofOptions: Omit<ProofOptions, 'circuit'> = {
+        privacy: options.privacy ?? DEFAULT_MANIFEST_PRIVACY,
+        oracleHash: options.oracleHash ?? 'poseidon',
+    };
+
+    const selectCircuit = (prep: PreparationResult): string => {
+        if (options.circuitPath) {
+            return options.circuitPath;
+        }
+        return circuitVariantPath(
+            ecdsaCircuitName(circuitOptionsOf(prep, mode), prep.curve, prep.digest_algorithm),
+            `${prep.curve.name}/${prep.digest_algorithm}`,
+        );
+    };
 
     return {
         id: 'ecdsa',
@@ -199,12 +327,50 @@ export function createEcdsaRunSpec(options: EcdsaSpecOptions): RunSpec<Preparati
         paths: {
             pdfPath: options.pdfPath,
             allowlistPath,
-            circuitPath: options.circuitPath ?? path.join(repoRoot, 'circuits', `pades_ecdsa_${mode}`),
+            circuitPath,
             outDir,
         },
-        prepare: (pdfPath, allowlistPath, mode, isDump, outDir, bbApi) =>
-            preparePDF(pdfPath, allowlistPath, mode, isDump, outDir, bbApi, options.allowlistCertPaths),
-        generateProof,
+        selectCircuit,
+        prepare: async (pdfPath, allowlistPath, mode, isDump, outDir) => {
+            let assertKeyCircuit: ((curve: EcCurve, digestAlgorithm: DigestAlgorithm) => void) | undefined;
+            if (!options.circuitPath) {
+                const circuitOptions = readCircuitOptions(mode, allowlistPath, options);
+                assertCircuitOptions(ecdsaCircuitName(circuitOptions), circuitOptions);
+                // The curve and digest are only known once the signature is extracted
+                assertKeyCircuit = (curve, digestAlgorithm) => {
+                    circuitVariantPath(
+                        ecdsaCircuitName(circuitOptions, curve, digestAlgorithm),
+                        `${curve.name}/${digestAlgorithm}`,
+                    );
+                };
+            }
+            return preparePDF(
+                pdfPath,
+                allowlistPath,
+                mode,
+                isDump,
+                outDir,
+                options.allowlistCertPaths,
+                { signature: options.signature, signerInfo: options.signerInfo, allowUpdates: options.allowUpdates },
+                { caStorePaths: options.caStorePaths, allowInvalidChain: options.allowInvalidChain },
+                { revocationListPath: options.revocationListPath },
+                {
+                    revealSigningTime: options.revealSigningTime,
+                    signedAfter: options.signedAfter,
+                    signedBefore: options.signedBefore,
+                },
+                assertKeyCircuit,
+            );
+        },
+        generateProof: (prep, noir, backend, isDump, outDir) =>
+            generateProof(
+                prep,
+                noir,
+                backend,
+                { ...proofOptions, circuit: path.basename(selectCircuit(prep)) },
+                isDump,
+                outDir,
+            ),
         verifyProof,
     };
 }
@@ -2,32 +2,112 @@ import fs from 'node:fs';
 import path from 'node:path';
 import * as asn1js from 'asn1js';
 import * as pkijs from 'pkijs';
-import { sha256 } from '../common/utils.ts';
+import { parseSignedData, selectCmsSigner } from '../common/cms.ts';
+import { digest, type DigestAlgorithm, digestLength, signerDigestAlgorithm } from '../common/digest.ts';
+import type { PdfSignature } from '../common/signatures.ts';
 import { modulusToLimbsBigint, serializeRsaFingerprintBytes } from '../common/rsa.ts';
 
+const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+const OID_RSASSA_PSS = '1.2.840.113549.1.1.10';
+const OID_MGF1 = '1.2.840.113549.1.1.8';
+
+// PKCS#1 v1.5 signature OIDs and the hash they imply (rsaEncryption leaves it to digestAlgorithm)
+const PKCS1_HASHES: Record<string, DigestAlgorithm | null> = {
+    [OID_RSA_ENCRYPTION]: null,
+    '1.2.840.113549.1.1.11': 'SHA-256',
+    '1.2.840.113549.1.1.12': 'SHA-384',
+    '1.2.840.113549.1.1.13': 'SHA-512',
+};
+
+const HASH_NAMES: Record<string, string> = {
+    '1.3.14.3.2.26': 'SHA-1',
+    '2.16.840.1.101.3.4.2.1': 'SHA-256',
+    '2.16.840.1.101.3.4.2.2': 'SHA-384',
+    '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+export type RsaSignatureScheme =
+    | { padding: 'pkcs1v15'; hash: DigestAlgorithm }
+    | { padding: 'pss'; hash: DigestAlgorithm; saltLength: number };
+
 interface RsaSignatureData {
     signature: Buffer; // raw RSA signature bytes (big-endian integer)
+    scheme: RsaSignatureScheme;
 }
 
-interface RsaPublicKeyData {
-    n: Buffer; // modulus
-    e: number; // public exponent as u32
+function hashName(oid: string): string {
+    return HASH_NAMES[oid] ?? oid;
 }
 
-function extractCMSfromPDF(pdfBuffer: Buffer): Buffer | null {
-    const pdfStr = pdfBuffer.toString('latin1');
+function parsePssParams(params: unknown): { hash: string; mgfHash: string; saltLength: number } {
+    if (!(params instanceof asn1js.Sequence)) {
+        throw new Error('RSASSA-PSS signature has no parameters');
+    }
+
+    // Absent fields fall back to the RFC 4055 defaults (SHA-1, MGF1 with SHA-1, salt 20)
+    const pss = new pkijs.RSASSAPSSParams({ schema: params });
+    if (pss.maskGenAlgorithm.algorithmId !== OID_MGF1) {
+        throw new Error(`Unsupported RSASSA-PSS mask generation function: ${pss.maskGenAlgorithm.algorithmId}`);
+    }
+    if (pss.trailerField !== 1) {
+        throw new Error(`Unsupported RSASSA-PSS trailer field: ${pss.trailerField}`);
+    }
+    const mgfHash = new pkijs.AlgorithmIdentifier({ schema: pss.maskGenAlgorithm.algorithmParams });
+
+    return {
+        hash: hashName(pss.hashAlgorithm.algorithmId),
+        mgfHash: hashName(mgfHash.algorithmId),
+        saltLength: pss.saltLength,
+    };
+}
+
+/**
+ * Determine the RSA signature scheme from signerInfo.signatureAlgorithm and
+ * reject anything the circuits cannot verify. The signature hash must be the
+ * signer's digestAlgorithm, which is also used for the signed attributes.
+ */
+export function parseRsaSignatureScheme(signerInfo: pkijs.SignerInfo): RsaSignatureScheme {
+    const { algorithmId, algorithmParams } = signerInfo.signatureAlgorithm;
+    const digestAlgorithm = signerDigestAlgorithm(signerInfo);
+
+    if (algorithmId in PKCS1_HASHES) {
+        const hash = PKCS1_HASHES[algorithmId] ?? digestAlgorithm;
+        if (hash !== digestAlgorithm) {
+            throw new Error(`Signature algorithm uses ${hash} but the CMS digest algorithm is ${digestAlgorithm}`);
+        }
+        return { padding: 'pkcs1v15', hash };
+    }
 
-    // Find /Contents <hex_string>
-    const match = pdfStr.match(/\/Contents\s*<([0-9a-fA-F\s]+)>/);
-    if (!match) {
-        return null;
+    if (algorithmId === OID_RSASSA_PSS) {
+        const pss = parsePssParams(algorithmParams);
+        if (pss.hash !== digestAlgorithm || pss.mgfHash !== digestAlgorithm) {
+            throw new Error(
+                `Unsupported RSASSA-PSS parameters: hash ${pss.hash}, MGF1 ${pss.mgfHash} ` +
+                    `(both must be the CMS digest algorithm ${digestAlgorithm})`,
+            );
+        }
+        // The PSS circuits check the padding for a salt as long as the hash
+        if (pss.saltLength !== digestLength(digestAlgorithm)) {
+            throw new Error(
+                `Unsupported RSASSA-PSS salt length: ${pss.saltLength} bytes ` +
+                    `(the circuits expect ${digestLength(digestAlgorithm)} for ${digestAlgorithm})`,
+            );
+        }
+        return { padding: 'pss', hash: digestAlgorithm, saltLength: pss.saltLength };
     }
 
-    const hexStr = match[1].replace(/\s+/g, '');
-    return Buffer.from(hexStr, 'hex');
+    throw new Error(`Unsupported RSA signature algorithm: ${algorithmId}`);
+}
+
+interface RsaPublicKeyData {
+    n: Buffer; // modulus
+    e: number; // public exponent as u32
 }
 
-function parseCMSWithPKIjsRSA(cmsBuffer: Buffer): {
+function parseCMSWithPKIjsRSA(
+    cmsBuffer: Buffer,
+    signerIndex: number,
+): {
     signedAttrsHash: Buffer;
     signedAttrsDer: Buffer;
     signature: RsaSignatureData;
@@ -35,15 +115,8 @@ function parseCMSWithPKIjsRSA(cmsBuffer: Buffer): {
     publicKey: RsaPublicKeyData;
     publicKeyFingerprintBytes: Buffer;
 } {
-    const asn1 = asn1js.fromBER(cmsBuffer);
-    if (asn1.offset === -1) {
-        throw new Error('Failed to parse CMS ASN.1');
-    }
-
-    const cmsContentSimpl = new pkijs.ContentInfo({ schema: asn1.result });
-    const cmsContent = new pkijs.SignedData({ schema: cmsContentSimpl.content });
-
-    const signerInfo = cmsContent.signerInfos[0];
+    // The signing certificate is the one named by the SignerInfo's sid, not necessarily the first
+    const { signerInfo, certificate: cert } = selectCmsSigner(parseSignedData(cmsBuffer), signerIndex);
 
     if (!signerInfo.signedAttrs) {
         throw new Error('No signed attributes found');
@@ -58,22 +131,19 @@ function parseCMSWithPKIjsRSA(cmsBuffer: Buffer): {
 
     const signedAttrsForSigning = attrsForSigning.toBER();
     const signedAttrsDer = Buffer.from(signedAttrsForSigning);
-    const signedAttrsHash = Buffer.from(sha256(new Uint8Array(signedAttrsForSigning)));
+    const signedAttrsHash = Buffer.from(
+        digest(signerDigestAlgorithm(signerInfo), new Uint8Array(signedAttrsForSigning)),
+    );
 
     // In CMS for RSA, signatureValue is already the raw signature bytes
     const signatureBytes = Buffer.from(signerInfo.signature.valueBlock.valueHex);
-    const signature: RsaSignatureData = { signature: signatureBytes };
-
-    if (!cmsContent.certificates || cmsContent.certificates.length === 0) {
-        throw new Error('No certificates in CMS');
-    }
+    const signature: RsaSignatureData = { signature: signatureBytes, scheme: parseRsaSignatureScheme(signerInfo) };
 
-    const cert = cmsContent.certificates[0] as pkijs.Certificate;
     const certDer = Buffer.from(cert.toSchema().toBER());
 
     // Ensure this is an RSA key
     const algOid = cert.subjectPublicKeyInfo.algorithm.algorithmId;
-    if (algOid !== '1.2.840.113549.1.1.1') {
+    if (algOid !== OID_RSA_ENCRYPTION) {
         // rsaEncryption
         throw new Error(`Not an RSA certificate (alg OID: ${algOid})`);
     }
@@ -118,10 +188,18 @@ function parseCMSWithPKIjsRSA(cmsBuffer: Buffer): {
     };
 }
 
+export function formatRsaSignatureScheme(scheme: RsaSignatureScheme): string {
+    if (scheme.padding === 'pkcs1v15') {
+        return `PKCS#1 v1.5 (${scheme.hash})`;
+    }
+    return `RSASSA-PSS (${scheme.hash}, MGF1 ${scheme.hash}, salt ${scheme.saltLength})`;
+}
+
 export async function extractRsaSignatureFromPDF(
-    pdfBuffer: Buffer,
+    pdfSignature: PdfSignature,
     outDir: string,
     isDump: boolean = false,
+    signerIndex: number = 0,
 ): Promise<{
     signature: RsaSignatureData;
     publicKey: RsaPublicKeyData;
@@ -130,17 +208,18 @@ export async function extractRsaSignatureFromPDF(
     signedAttrsDer: Buffer;
     publicKeyFingerprintBytes: Buffer;
 }> {
-    const cmsBuffer = extractCMSfromPDF(pdfBuffer);
-    if (!cmsBuffer) {
-        throw new Error('Error: CMS not found in PDF');
+    const cmsBuffer = pdfSignature.contents;
+    if (cmsBuffer.length === 0) {
+        throw new Error(`Error: signature #${pdfSignature.index} has empty /Contents`);
     }
 
     console.log(`CMS length: ${cmsBuffer.length} bytes`);
 
     const { signedAttrsHash, signedAttrsDer, signature, certificate, publicKey, publicKeyFingerprintBytes } =
-        parseCMSWithPKIjsRSA(cmsBuffer);
+        parseCMSWithPKIjsRSA(cmsBuffer, signerIndex);
 
     console.log(`  signature (${signature.signature.length} bytes): ${signature.signature.toString('hex')}`);
+    console.log(`  scheme: ${formatRsaSignatureScheme(signature.scheme)}`);
     console.log(`\nCertificate extracted (${certificate.length} bytes)`);
     console.log(`  n (modulus):  ${publicKey.n.toString('hex')}`);
     console.log(`  e (exponent): 0x${publicKey.e.toString(16)} (${publicKey.e})`);
@@ -162,6 +241,7 @@ export async function extractRsaSignatureFromPDF(
             JSON.stringify(
                 {
                     signature: signature.signature.toString('hex'),
+                    scheme: signature.scheme,
                 },
                 null,
                 2,
@@ -1,17 +1,38 @@
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { Noir } from '@noir-lang/noir_js';
-import type { Barretenberg, UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
-import { extractRsaSignatureFromPDF } from './signature.ts';
-import type { RunSpec, ProofResult } from '../common/runner.ts';
+import type { UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
+import { digestAlgorithmBits, digestCircuitSuffix, type DigestAlgorithm } from '../common/digest.ts';
+import { extractRsaSignatureFromPDF, formatRsaSignatureScheme, type RsaSignatureScheme } from './signature.ts';
+import { barrettRedcLimbsBigint, limbsToStrings, modulusToLimbsBigint, rsaModulusBits } from '../common/rsa.ts';
+import { assertMerkleMode, treeDepthCircuitSuffix } from '../common/tree.ts';
+import { revocationCircuitSuffix, revocationNoirInputs, type RevocationOptions } from '../common/revocation.ts';
+import {
+    formatUnixTime,
+    signingTimeCircuitSuffix,
+    signingTimeNoirInputs,
+    type SigningTimeOptions,
+} from '../common/signing-time.ts';
+import type { ChainOptions } from '../common/chain.ts';
+import { padBytes } from '../common/utils.ts';
+import { assertCircuitOptions, type CircuitOptions, circuitOptionsOf, readCircuitOptions } from '../common/variants.ts';
+import { circuitVariantPath, type RunSpec, type ProofResult } from '../common/runner.ts';
 import {
     type CommonPreparationResult,
+    type ManifestPrivacy,
+    type ManifestValidation,
+    type OracleHash,
+    type ProofOptions,
+    type SignatureOptions,
+    DEFAULT_MANIFEST_PRIVACY,
     MAX_SIGNED_ATTRS_LEN,
+    oracleHashOptions,
     padMerklePath,
     prepareCommon,
-    padBytes,
+    redactSigner,
+    redactValidation,
     verifyProofCommon,
-    writeProofArtifacts
+    writeProofArtifacts,
 } from '../common/pades.ts';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -19,75 +40,40 @@ const __dirname = path.dirname(__filename);
 const repoRoot = path.resolve(__dirname, '..', '..');
 const DEFAULT_MODE = 'pedersen';
 
-function modulusToLimbs(modulusBytes: Uint8Array): string[] {
-    let modulus = 0n;
-    for (let i = 0; i < modulusBytes.length; i++) {
-        modulus = (modulus << 8n) | BigInt(modulusBytes[i]);
-    }
-
-    const limbs: string[] = [];
-    // noir-bignum uses 120-bit limbs (15 bytes each)
-    const LIMB_BITS = 120n;
-    const limbMask = (1n << LIMB_BITS) - 1n;
-
-    for (let i = 0; i < 18; i++) {
-        limbs.push((modulus & limbMask).toString());
-        modulus = modulus >> LIMB_BITS;
-    }
-
-    return limbs;
-}
-
-function calculateRedcParam(modulusBytes: Uint8Array): string[] {
-    let N = 0n;
-    for (let i = 0; i < modulusBytes.length; i++) {
-        N = (N << 8n) | BigInt(modulusBytes[i]);
-    }
-
-    // noir-bignum uses Barrett reduction with:
-    // redc_param = 2^(2*MOD_BITS + 4) / modulus
-    // (see BARRETT_REDUCTION_OVERFLOW_BITS = 4)
-    const LIMB_BITS = 120n;
-    const MOD_BITS = 2048n;
-    const BARRETT_OVERFLOW_BITS = 4n;
-    const numerator = 1n << (2n * MOD_BITS + BARRETT_OVERFLOW_BITS);
-    const redc = numerator / N;
-
-    const limbs: string[] = [];
-    const limbMask = (1n << LIMB_BITS) - 1n;
-    let value = redc;
-
-    for (let i = 0; i < 18; i++) {
-        limbs.push((value & limbMask).toString());
-        value = value >> LIMB_BITS;
-    }
-
-    return limbs;
-}
-
 type PreparationResult = CommonPreparationResult & {
     pub_key_n: Uint8Array; // RSA modulus (n)
-    modulus_limbs: string[]; // RSA modulus as 18 limbs
-    redc_limbs: string[]; // Montgomery reduction params as 18 limbs
+    modulus_bits: number; // 2048, 3072 or 4096
+    modulus_limbs: string[]; // RSA modulus as 120-bit limbs
+    redc_limbs: string[]; // Barrett reduction params, same limb count
     exponent: number; // RSA exponent as u32
     signature: Uint8Array; // raw RSA signature bytes
+    scheme: RsaSignatureScheme;
+};
+
+type RsaSigner = {
+    pub_n: string;
+    exponent_dec: string;
+    exponent_hex: string;
+    fingerprint: string;
 };
 
 type RsaManifest = {
     version: number;
+    circuit: string;
+    oracle_hash: OracleHash;
     doc_hash: string;
     signed_attrs_hash: string;
-    signer: {
-        pub_n: string;
-        exponent_dec: string;
-        exponent_hex: string;
-        fingerprint: string;
-    };
+    digest_algorithm: DigestAlgorithm; // also a public input of the circuit
+    privacy: ManifestPrivacy;
+    signer?: RsaSigner | Pick<RsaSigner, 'fingerprint'>;
     tl_root: string;
+    revocation_root?: string;
+    signed_after?: string;
+    signed_before?: string;
     proof: string;
     timestamp: string;
     notes: string;
-};
+} & ManifestValidation;
 
 type RsaProofResult = ProofResult<RsaManifest>;
 
@@ -99,7 +85,12 @@ export type RsaSpecOptions = {
     outDir?: string;
     mode?: string;
     isDump?: boolean;
-};
+    privacy?: ManifestPrivacy;
+    oracleHash?: OracleHash;
+} & SignatureOptions &
+    ChainOptions &
+    RevocationOptions &
+    SigningTimeOptions;
 
 async function preparePDF(
     pdfPath: string,
@@ -107,8 +98,12 @@ async function preparePDF(
     mode: string,
     isDump: boolean = false,
     outDir: string = 'out',
-    bbApi?: Barretenberg,
     allowlistCertPaths?: string[],
+    signatureOptions: SignatureOptions = {},
+    chainOptions: ChainOptions = {},
+    revocationOptions: RevocationOptions = {},
+    signingTimeOptions: SigningTimeOptions = {},
+    assertKeyCircuit?: (modulusBits: number, scheme: RsaSignatureScheme) => void,
 ): Promise<PreparationResult> {
     const basePrep = await prepareCommon({
         pdfPath,
@@ -117,12 +112,21 @@ async function preparePDF(
         mode,
         isDump,
         outDir,
-        bbApi,
+        signatureOptions,
+        chainOptions,
+        revocationOptions,
+        signingTimeOptions,
         extractLabel: 'RSA',
-        extract: async (pdfBuffer, extractOutDir, extractDump) => {
-            const extractedData = await extractRsaSignatureFromPDF(pdfBuffer, extractOutDir, extractDump);
+        extract: async (pdfSignature, extractOutDir, extractDump, signerIndex) => {
+            const extractedData = await extractRsaSignatureFromPDF(
+                pdfSignature,
+                extractOutDir,
+                extractDump,
+                signerIndex,
+            );
             const signatureBytes = extractedData.signature.signature;
             const pub_key_n = new Uint8Array(extractedData.publicKey.n);
+            assertKeyCircuit?.(rsaModulusBits(pub_key_n), extractedData.signature.scheme);
 
             return {
                 signedAttrsHash: extractedData.signedAttrsHash,
@@ -132,6 +136,7 @@ async function preparePDF(
                 pub_key_n,
                 exponent: extractedData.publicKey.e,
                 signature: new Uint8Array(signatureBytes),
+                scheme: extractedData.signature.scheme,
             };
         },
     });
@@ -142,24 +147,25 @@ async function preparePDF(
     console.log(`  size: ${pub_key_n.length} bytes (${pub_key_n.length * 8} bits)`);
     console.log(`  modulus (first 32 bytes): ${Buffer.from(pub_key_n.slice(0, 32)).toString('hex')}`);
 
-    if (pub_key_n.length !== 256) {
-        throw new Error(`Circuit expects 2048-bit modulus (256 bytes). Got ${pub_key_n.length} bytes.`);
-    }
-    if (basePrep.signature.length !== 256) {
-        throw new Error(`Circuit expects 256-byte RSA signature. Got ${basePrep.signature.length} bytes.`);
+    const modulus_bits = rsaModulusBits(pub_key_n);
+    if (basePrep.signature.length !== pub_key_n.length) {
+        throw new Error(
+            `RSA signature must be ${pub_key_n.length} bytes for a ${modulus_bits}-bit key. Got ${basePrep.signature.length} bytes.`,
+        );
     }
     if (basePrep.exponent <= 0 || basePrep.exponent >= 131072) {
         throw new Error(`RSA exponent must be in (0, 2^17). Got ${basePrep.exponent}.`);
     }
 
-    const modulus_limbs = modulusToLimbs(pub_key_n);
-    const redc_limbs = calculateRedcParam(pub_key_n);
+    const modulus_limbs = limbsToStrings(modulusToLimbsBigint(pub_key_n));
+    const redc_limbs = limbsToStrings(barrettRedcLimbsBigint(pub_key_n));
 
     console.log(`  modulus_limbs count: ${modulus_limbs.length}`);
     console.log(`  redc_limbs count: ${redc_limbs.length}`);
 
     return {
         ...basePrep,
+        modulus_bits,
         modulus_limbs,
         redc_limbs,
     };
@@ -169,6 +175,7 @@ async function generateProof(
     prep: PreparationResult,
     noir: Noir,
     backend: BarretenbergBackend,
+    proofOptions: ProofOptions,
     isDump: boolean = false,
     outDir: string = 'out',
 ): Promise<RsaProofResult> {
@@ -178,11 +185,12 @@ async function generateProof(
     const signed_attrs_der = padBytes(prep.signed_attrs_der, MAX_SIGNED_ATTRS_LEN);
     const signed_attrs_len = prep.signed_attrs_der.length;
 
-    const merkle_path = padMerklePath(prep.merkle_path, 8);
+    const merkle_path = padMerklePath(prep.merkle_path, prep.tree_depth);
 
     const noirInputs = {
         doc_hash: Array.from(prep.doc_hash),
         signed_attrs_hash: Array.from(signed_attrs_hash),
+        digest_algorithm: digestAlgorithmBits(prep.digest_algorithm),
         signed_attrs: Array.from(signed_attrs_der),
         signed_attrs_len,
         modulus_limbs: prep.modulus_limbs,
@@ -193,16 +201,19 @@ async function generateProof(
         tl_root: prep.tl_root,
         merkle_path,
         index: prep.index,
+        ...(prep.revocation ? revocationNoirInputs(prep.revocation) : {}),
+        ...(prep.signing_time ? signingTimeNoirInputs(prep.signing_time) : {}),
     };
 
     console.log('Inputs:');
+    console.log(`  scheme: ${formatRsaSignatureScheme(prep.scheme)}`);
     console.log(`  doc_hash: ${Buffer.from(prep.doc_hash).toString('hex')}`);
     console.log(`  signed_attrs_hash: ${Buffer.from(noirInputs.signed_attrs_hash).toString('hex')}`);
     console.log(`  signed_attrs_len: ${signed_attrs_len}`);
     console.log(`  modulus_limbs[0]: ${noirInputs.modulus_limbs[0]}`);
-    console.log(`  modulus_limbs[17]: ${noirInputs.modulus_limbs[17]}`);
+    console.log(`  modulus_limbs[last]: ${noirInputs.modulus_limbs[noirInputs.modulus_limbs.length - 1]}`);
     console.log(`  redc_limbs[0]: ${noirInputs.redc_limbs[0]}`);
-    console.log(`  redc_limbs[17]: ${noirInputs.redc_limbs[17]}`);
+    console.log(`  redc_limbs[last]: ${noirInputs.redc_limbs[noirInputs.redc_limbs.length - 1]}`);
     console.log(`  signature_bytes length: ${noirInputs.signature_bytes.length}`);
     console.log(
         `  signature (first 32 bytes): ${Buffer.from(noirInputs.signature_bytes.slice(0, 32)).toString('hex')}`,
@@ -216,25 +227,37 @@ async function generateProof(
     const { witness } = await noir.execute(noirInputs);
 
     console.log('Generating proof...');
-    const proof = await backend.generateProof(witness);
+    const { circuit, privacy, oracleHash } = proofOptions;
+    const proof = await backend.generateProof(witness, oracleHashOptions(oracleHash));
 
     console.log(`✓ Proof generated (${proof.proof.length} bytes)`);
 
-    const vkey = await backend.getVerificationKey();
+    const vkey = await backend.getVerificationKey(oracleHashOptions(oracleHash));
 
     const manifest: RsaManifest = {
         version: 1,
+        circuit,
+        oracle_hash: oracleHash,
+        privacy,
+        ...redactValidation(prep, privacy),
         // Bind manifest to the actual PDF payload hash (ByteRange)
         doc_hash: Buffer.from(prep.doc_hash).toString('hex'),
         // Also expose the CMS SignedAttributes hash that was actually signed
         signed_attrs_hash: Buffer.from(signed_attrs_hash).toString('hex'),
-        signer: {
-            pub_n: Buffer.from(prep.pub_key_n).toString('hex'),
-            exponent_dec: prep.exponent.toString(10),
-            exponent_hex: `0x${prep.exponent.toString(16)}`,
-            fingerprint: prep.signer_fpr_hex,
-        },
+        digest_algorithm: prep.digest_algorithm,
+        signer: redactSigner(
+            {
+                pub_n: Buffer.from(prep.pub_key_n).toString('hex'),
+                exponent_dec: prep.exponent.toString(10),
+                exponent_hex: `0x${prep.exponent.toString(16)}`,
+                fingerprint: prep.signer_fpr_hex,
+            },
+            privacy,
+        ),
         tl_root: prep.tl_root,
+        revocation_root: prep.revocation?.root,
+        signed_after: prep.signing_time?.signed_after,
+        signed_before: prep.signing_time?.signed_before,
         proof: Buffer.from(proof.proof).toString('base64'),
         timestamp: new Date().toISOString(),
         notes: 'Generated by runner',
@@ -267,19 +290,75 @@ async function verifyProof(
 ): Promise<boolean> {
     return verifyProofCommon(proofResult, backend, expectedTlRoot, (manifest) => {
         console.log(`  Version: ${manifest.version}`);
+        console.log(`  Circuit: ${manifest.circuit} (${manifest.oracle_hash} oracle)`);
         console.log(`  Timestamp: ${manifest.timestamp}`);
+        console.log(`  Digest algorithm: ${manifest.digest_algorithm}`);
         console.log(`  Doc hash: ${manifest.doc_hash}`);
         console.log(`  Signed attrs hash: ${manifest.signed_attrs_hash}`);
-        console.log(`  Signer fingerprint: ${manifest.signer.fingerprint}`);
-        console.log(`  Signer pub_n: ${manifest.signer.pub_n}`);
-        console.log(`  Signer exponent: ${manifest.signer.exponent_dec} (${manifest.signer.exponent_hex})`);
+        console.log(`  Privacy: ${manifest.privacy}`);
+        console.log(`  Certificate chain: ${manifest.certificate_chain.valid ? 'valid' : 'INVALID'}`);
+        if (manifest.signing_certificate) {
+            console.log(`  Signing certificate: ${manifest.signing_certificate.status}`);
+        }
+        if (manifest.revocation_root) {
+            console.log(`  Revocation root: ${manifest.revocation_root}`);
+        }
+        if (manifest.signed_after && manifest.signed_before) {
+            const range = `${formatUnixTime(manifest.signed_after)} .. ${formatUnixTime(manifest.signed_before)}`;
+            console.log(`  Signed within: ${range}`);
+        }
+        if (manifest.signer) {
+            console.log(`  Signer fingerprint: ${manifest.signer.fingerprint}`);
+        }
+        if (manifest.signer && 'pub_n' in manifest.signer) {
+            console.log(`  Signer pub_n: ${manifest.signer.pub_n}`);
+            console.log(`  Signer exponent: ${manifest.signer.exponent_dec} (${manifest.signer.exponent_hex})`);
+        }
     });
 }
 
+// Merkle hash suffix: pedersen circuits keep their original names
+function rsaModeCircuitSuffix(mode: string): string {
+    return mode === 'pedersen' ? '' : `_${mode}`;
+}
+
+// PKCS#1 v1.5 with 2048-bit keys, SHA-256 and pedersen keeps the original pades_rsa name; there are
+// no _ca circuits, issuer checks exist for P-256 CAs only
+function rsaCircuitName(
+    { mode, allowlistKind, treeDepth, revocation, signingTime }: CircuitOptions,
+    modulusBits?: number,
+    scheme?: RsaSignatureScheme,
+): string {
+    const padding = scheme?.padding === 'pss' ? '_pss' : '';
+    const size = !modulusBits || modulusBits === 2048 ? '' : `_${modulusBits}`;
+    const digest = scheme ? digestCircuitSuffix(scheme.hash) : '';
+    const ca = allowlistKind === 'ca' ? '_ca' : '';
+    const variant = `${ca}${rsaModeCircuitSuffix(mode)}${treeDepthCircuitSuffix(treeDepth)}`;
+    const proofs = `${revocationCircuitSuffix(revocation)}${signingTimeCircuitSuffix(signingTime)}`;
+    return `pades_rsa${padding}${size}${digest}${variant}${proofs}`;
+}
+
 export function createRsaRunSpec(options: RsaSpecOptions): RunSpec<PreparationResult, RsaProofResult> {
     const mode = options.mode ?? DEFAULT_MODE;
+    assertMerkleMode(mode);
     const outDir = options.outDir ?? path.join(__dirname, 'out');
     const allowlistPath = options.allowlistPath ?? path.join(outDir, 'allowlist.generated.json');
+    const circuitPath =
+        options.circuitPath ?? path.join(repoRoot, 'circuits', `pades_rsa${rsaModeCircuitSuffix(mode)}`);
+    const proofOptions: Omit<ProofOptions, 'circuit'> = {
+        privacy: options.privacy ?? DEFAULT_MANIFEST_PRIVACY,
+        oracleHash: options.oracleHash ?? 'poseidon',
+    };
+
+    const selectCircuit = (prep: PreparationResult): string => {
+        if (options.circuitPath) {
+            return options.circuitPath;
+        }
+        return circuitVariantPath(
+            rsaCircuitName(circuitOptionsOf(prep, mode), prep.modulus_bits, prep.scheme),
+            `RSA-${prep.modulus_bits} ${formatRsaSignatureScheme(prep.scheme)}`,
+        );
+    };
 
     return {
         id: 'rsa',
@@ -289,12 +368,50 @@ export function createRsaRunSpec(options: RsaSpecOptions): RunSpec<PreparationRe
         paths: {
             pdfPath: options.pdfPath,
             allowlistPath,
-            circuitPath: options.circuitPath ?? path.join(repoRoot, 'circuits', 'pades_rsa'),
+            circuitPath,
             outDir,
         },
-        prepare: (pdfPath, allowlistPath, mode, isDump, outDir, bbApi) =>
-            preparePDF(pdfPath, allowlistPath, mode, isDump, outDir, bbApi, options.allowlistCertPaths),
-        generateProof,
+        selectCircuit,
+        prepare: async (pdfPath, allowlistPath, mode, isDump, outDir) => {
+            let assertKeyCircuit: ((modulusBits: number, scheme: RsaSignatureScheme) => void) | undefined;
+            if (!options.circuitPath) {
+                const circuitOptions = readCircuitOptions(mode, allowlistPath, options);
+                assertCircuitOptions(rsaCircuitName(circuitOptions), circuitOptions);
+                // The key size and padding are only known once the signature is extracted
+                assertKeyCircuit = (modulusBits, scheme) => {
+                    circuitVariantPath(
+                        rsaCircuitName(circuitOptions, modulusBits, scheme),
+                        `RSA-${modulusBits} ${formatRsaSignatureScheme(scheme)}`,
+                    );
+                };
+            }
+            return preparePDF(
+                pdfPath,
+                allowlistPath,
+                mode,
+                isDump,
+                outDir,
+                options.allowlistCertPaths,
+                { signature: options.signature, signerInfo: options.signerInfo, allowUpdates: options.allowUpdates },
+                { caStorePaths: options.caStorePaths, allowInvalidChain: options.allowInvalidChain },
+                { revocationListPath: options.revocationListPath },
+                {
+                    revealSigningTime: options.revealSigningTime,
+                    signedAfter: options.signedAfter,
+                    signedBefore: options.signedBefore,
+                },
+                assertKeyCircuit,
+            );
+        },
+        generateProof: (prep, noir, backend, isDump, outDir) =>
+            generateProof(
+                prep,
+                noir,
+                backend,
+                { ...proofOptions, circuit: path.basename(selectCircuit(prep)) },
+                isDump,
+                outDir,
+            ),
         verifyProof,
     };
 }
@@ -1,8 +1,47 @@
 import fs from 'node:fs';
+import path from 'node:path';
 import * as asn1js from 'asn1js';
 import * as pkijs from 'pkijs';
 import { sha256 } from './utils.ts';
 import { modulusToLimbsBigint, serializeRsaFingerprintBytes } from './rsa.ts';
+import { ecFingerprintBytes, OID_EC_PUBLIC_KEY, parseEcPublicKey } from './ec.ts';
+import { isCaCertificate, parseCertificate } from './chain.ts';
+import { formatName } from './signatures.ts';
+import { createMerkleTreeFromAllowlist } from './tree.ts';
+import type { TrustedListSource } from './trusted-list.ts';
+
+// 'signer' leaves are end-entity keys; 'ca' leaves are issuing CA keys, and proofs show issuance by a listed CA
+export type AllowlistKind = 'signer' | 'ca';
+
+export const ALLOWLIST_VERSION = 2;
+
+export interface AllowlistEntry {
+    fingerprint: string; // SHA-256 of the key fingerprint bytes (hex)
+    subject: string;
+    issuer: string;
+    serial: string; // hex
+    not_before: string;
+    not_after: string;
+    source: string; // certificate file or Trusted List service the key came from
+}
+
+/**
+ * In-memory allowlist. Version 2 files store `entries` (and no
+ * cert_fingerprints); the original `{ cert_fingerprints }` files have no version.
+ * Either way the order of cert_fingerprints is the leaf index in the tree.
+ */
+export interface Allowlist {
+    version?: number;
+    kind?: AllowlistKind; // absent means 'signer'
+    jurisdiction?: string;
+    mode?: string; // Merkle hash mode `root` was computed with
+    depth?: number; // absent: smallest supported depth that fits the leaves
+    created_at?: string;
+    root?: string; // expected tl_root (decimal)
+    cert_fingerprints: string[];
+    entries?: AllowlistEntry[];
+    trusted_lists?: TrustedListSource[]; // Trusted Lists the fingerprints were imported from
+}
 
 const PEM_BEGIN = '-----BEGIN CERTIFICATE-----';
 const PEM_END = '-----END CERTIFICATE-----';
@@ -12,10 +51,7 @@ export function readCertificateBytes(certPath: string): Buffer {
     const text = raw.toString('utf-8');
 
     if (text.includes(PEM_BEGIN)) {
-        const base64 = text
-            .replace(PEM_BEGIN, '')
-            .replace(PEM_END, '')
-            .replace(/\s+/g, '');
+        const base64 = text.replace(PEM_BEGIN, '').replace(PEM_END, '').replace(/\s+/g, '');
         return Buffer.from(base64, 'base64');
     }
 
@@ -32,13 +68,9 @@ export function extractPublicKeyFingerprintBytes(certBytes: Uint8Array): Uint8Ar
     const spki = cert.subjectPublicKeyInfo;
     const algOid = spki.algorithm.algorithmId;
 
-    // ECDSA P-256: subjectPublicKey is uncompressed EC point 0x04 || X || Y
-    if (algOid === '1.2.840.10045.2.1') {
-        const pubKeyBytes = Buffer.from(spki.subjectPublicKey.valueBlock.valueHexView);
-        if (pubKeyBytes.length !== 65 || pubKeyBytes[0] !== 0x04) {
-            throw new Error(`Unexpected EC public key format: ${pubKeyBytes.length} bytes`);
-        }
-        return pubKeyBytes.slice(1); // X || Y (64 bytes)
+    // ECDSA: subjectPublicKey is uncompressed EC point 0x04 || X || Y on the namedCurve
+    if (algOid === OID_EC_PUBLIC_KEY) {
+        return ecFingerprintBytes(parseEcPublicKey(spki));
     }
 
     // RSA: subjectPublicKey is a BIT STRING containing RSAPublicKey ::= SEQUENCE { n, e }
@@ -71,31 +103,172 @@ export function extractPublicKeyFingerprintBytes(certBytes: Uint8Array): Uint8Ar
     throw new Error(`Unsupported public key algorithm OID: ${algOid}`);
 }
 
-export function fingerprintPublicKeyFile(certPath: string): string {
-    const certBytes = readCertificateBytes(certPath);
+export function fingerprintCertificate(certBytes: Uint8Array): string {
     const pubKeyBytes = extractPublicKeyFingerprintBytes(certBytes);
     const digest = sha256(pubKeyBytes);
     return Buffer.from(digest).toString('hex').toLowerCase();
 }
 
+export function fingerprintPublicKeyFile(certPath: string): string {
+    return fingerprintCertificate(readCertificateBytes(certPath));
+}
+
+/**
+ * Allowlist entry for a certificate: its key fingerprint plus the identifying
+ * fields a reviewer needs to audit the list.
+ */
+export function describeCertificate(certBytes: Uint8Array, source: string): AllowlistEntry {
+    const cert = parseCertificate(certBytes);
+    return {
+        fingerprint: fingerprintCertificate(certBytes),
+        subject: formatName(cert.subject),
+        issuer: formatName(cert.issuer),
+        serial: Buffer.from(cert.serialNumber.valueBlock.valueHexView).toString('hex'),
+        not_before: cert.notBefore.value.toISOString(),
+        not_after: cert.notAfter.value.toISOString(),
+        source,
+    };
+}
+
+export function parseAllowlistKind(value: unknown): AllowlistKind {
+    if (value === undefined || value === 'signer' || value === 'ca') {
+        return value ?? 'signer';
+    }
+    throw new Error(`Unknown allowlist kind "${String(value)}" (expected signer or ca)`);
+}
+
 export function buildAllowlistFromCertificates(
     certPaths: string[],
-    options?: { sort?: boolean },
-): { cert_fingerprints: string[] } {
-    const fingerprints = certPaths.map(fingerprintPublicKeyFile);
+    options?: { sort?: boolean; kind?: AllowlistKind },
+): Allowlist {
+    const entries = certPaths.map((certPath) => {
+        const certBytes = readCertificateBytes(certPath);
+        if (options?.kind === 'ca' && !isCaCertificate(parseCertificate(certBytes))) {
+            throw new Error(`Not a CA certificate (basicConstraints cA missing): ${certPath}`);
+        }
+        return describeCertificate(certBytes, path.basename(certPath));
+    });
 
     if (options?.sort) {
-        fingerprints.sort();
+        entries.sort((a, b) => (a.fingerprint < b.fingerprint ? -1 : a.fingerprint > b.fingerprint ? 1 : 0));
     }
 
+    const fingerprints = entries.map((entry) => entry.fingerprint);
     const unique = new Set(fingerprints);
     if (unique.size !== fingerprints.length) {
         throw new Error('Duplicate certificate fingerprints detected in allowlist input.');
     }
 
-    return { cert_fingerprints: fingerprints };
+    return {
+        version: ALLOWLIST_VERSION,
+        kind: options?.kind,
+        cert_fingerprints: fingerprints,
+        entries,
+    };
+}
+
+function isFingerprint(value: unknown): value is string {
+    return typeof value === 'string' && /^[0-9a-fA-F]{1,64}$/.test(value);
+}
+
+/**
+ * Accept both the original `{ cert_fingerprints }` form and version 2 files.
+ */
+export function parseAllowlist(raw: unknown): Allowlist {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error('Allowlist must be a JSON object');
+    }
+    const data = raw as Record<string, unknown>;
+
+    if (data.version === undefined) {
+        if (!Array.isArray(data.cert_fingerprints) || !data.cert_fingerprints.every(isFingerprint)) {
+            throw new Error('Allowlist must contain a cert_fingerprints array of hex strings');
+        }
+        return { ...(data as unknown as Allowlist), kind: parseAllowlistKind(data.kind) };
+    }
+
+    if (data.version !== ALLOWLIST_VERSION) {
+        throw new Error(`Unsupported allowlist version ${String(data.version)} (expected ${ALLOWLIST_VERSION})`);
+    }
+    const entries = data.entries;
+    if (!Array.isArray(entries) || !entries.every((entry) => isFingerprint(entry?.fingerprint))) {
+        throw new Error('Allowlist version 2 must contain an entries array with hex fingerprints');
+    }
+    return {
+        ...(data as unknown as Allowlist),
+        kind: parseAllowlistKind(data.kind),
+        cert_fingerprints: (entries as AllowlistEntry[]).map((entry) => entry.fingerprint),
+    };
+}
+
+export function readAllowlistFile(allowlistPath: string): Allowlist {
+    return parseAllowlist(JSON.parse(fs.readFileSync(allowlistPath, 'utf-8')));
+}
+
+/**
+ * Record mode, depth, creation time and the resulting root so that provers can
+ * check they rebuild the same tree.
+ */
+export async function sealAllowlist(
+    allowlist: Allowlist,
+    options: { mode: string; jurisdiction?: string; depth?: number },
+): Promise<Allowlist> {
+    const { root, depth } = await createMerkleTreeFromAllowlist(
+        { ...allowlist, depth: options.depth ?? allowlist.depth },
+        '',
+        options.mode,
+        false,
+    );
+    return {
+        ...allowlist,
+        version: ALLOWLIST_VERSION,
+        jurisdiction: options.jurisdiction ?? allowlist.jurisdiction,
+        mode: options.mode,
+        depth,
+        created_at: new Date().toISOString(),
+        root,
+    };
+}
+
+/**
+ * Refuse an allowlist built for another hash mode or tree shape, or whose
+ * declared root differs from the one just computed.
+ */
+export function assertAllowlistMatches(
+    allowlist: Allowlist,
+    mode: string,
+    tree: { root: string; depth: number },
+): void {
+    if (allowlist.mode !== undefined && allowlist.mode !== mode) {
+        throw new Error(`Allowlist was built for ${allowlist.mode} hashing, but this run uses ${mode}`);
+    }
+    if (allowlist.depth !== undefined && allowlist.depth !== tree.depth) {
+        throw new Error(`Allowlist declares tree depth ${allowlist.depth}, but the tree was built with ${tree.depth}`);
+    }
+    if (allowlist.root !== undefined && allowlist.root !== tree.root) {
+        throw new Error(`Allowlist root mismatch: file declares ${allowlist.root}, computed ${tree.root}`);
+    }
+}
+
+// Version 2 files keep the fingerprints only inside entries
+function toAllowlistJson(allowlist: Allowlist): object {
+    if (allowlist.version === undefined) {
+        return allowlist;
+    }
+    const { cert_fingerprints: _fingerprints, ...rest } = allowlist;
+    return {
+        version: rest.version,
+        kind: rest.kind,
+        jurisdiction: rest.jurisdiction,
+        mode: rest.mode,
+        depth: rest.depth,
+        created_at: rest.created_at,
+        root: rest.root,
+        entries: rest.entries,
+        trusted_lists: rest.trusted_lists,
+    };
 }
 
-export function writeAllowlistFile(allowlist: { cert_fingerprints: string[] }, outPath: string): void {
-    fs.writeFileSync(outPath, JSON.stringify(allowlist, null, 2));
+export function writeAllowlistFile(allowlist: Allowlist, outPath: string): void {
+    fs.writeFileSync(outPath, JSON.stringify(toAllowlistJson(allowlist), null, 2));
 }
@@ -1,32 +1,93 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { sha256 } from './utils.ts';
+import { DEFAULT_DIGEST_ALGORITHM, digest, type DigestAlgorithm } from './digest.ts';
+import type { PdfSignature } from './signatures.ts';
 
-function parseByteRange(pdfBuffer: Buffer): number[] | null {
-    const pdfStr = pdfBuffer.toString('latin1');
+export type ByteRangeViolation = 'malformed' | 'nonzero-start' | 'overlap' | 'out-of-bounds' | 'gap-mismatch';
 
-    // Find /ByteRange [offset length offset length]
-    // Support both space-separated and comma-separated formats
-    const match = pdfStr.match(/\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/);
+export class ByteRangeError extends Error {
+    readonly violation: ByteRangeViolation;
 
-    if (!match) {
-        return null;
+    constructor(violation: ByteRangeViolation, message: string) {
+        super(`Invalid ByteRange (${violation}): ${message}`);
+        this.name = 'ByteRangeError';
+        this.violation = violation;
+    }
+}
+
+function isHexOrWhitespace(b: number): boolean {
+    return (
+        (b >= 0x30 && b <= 0x39) ||
+        (b >= 0x41 && b <= 0x46) ||
+        (b >= 0x61 && b <= 0x66) ||
+        b === 0x00 ||
+        b === 0x09 ||
+        b === 0x0a ||
+        b === 0x0c ||
+        b === 0x0d ||
+        b === 0x20
+    );
+}
+
+/**
+ * Reject ByteRanges that could make doc_hash cover something other than the
+ * document a reader renders: [0, a, b, c] must lie inside the file, leave a
+ * single gap, and that gap must be exactly the signature's /Contents hex string.
+ */
+export function validateByteRange(
+    pdfBuffer: Buffer,
+    signature: Pick<PdfSignature, 'byteRange' | 'contentsOffset'>,
+): void {
+    const { byteRange, contentsOffset } = signature;
+    const [offset1, length1, offset2, length2] = byteRange;
+
+    if (!byteRange.every((v) => Number.isSafeInteger(v) && v >= 0)) {
+        throw new ByteRangeError('malformed', `expected four non-negative integers, got [${byteRange.join(' ')}]`);
+    }
+    if (offset1 !== 0) {
+        throw new ByteRangeError('nonzero-start', `first segment starts at ${offset1}, expected 0`);
+    }
+    if (offset1 + length1 > offset2) {
+        throw new ByteRangeError(
+            'overlap',
+            `first segment ends at ${offset1 + length1}, after second segment starts at ${offset2}`,
+        );
+    }
+    if (offset2 + length2 > pdfBuffer.length) {
+        throw new ByteRangeError(
+            'out-of-bounds',
+            `second segment ends at ${offset2 + length2}, past end of file (${pdfBuffer.length} bytes)`,
+        );
     }
 
-    return [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10), parseInt(match[4], 10)];
+    const [contentsStart, contentsEnd] = contentsOffset;
+    const gapStart = offset1 + length1;
+    if (gapStart !== contentsStart || offset2 !== contentsEnd) {
+        throw new ByteRangeError(
+            'gap-mismatch',
+            `gap [${gapStart}, ${offset2}) does not match /Contents at [${contentsStart}, ${contentsEnd})`,
+        );
+    }
+    if (pdfBuffer[gapStart] !== 0x3c || pdfBuffer[offset2 - 1] !== 0x3e) {
+        throw new ByteRangeError('gap-mismatch', 'gap is not delimited by < and >');
+    }
+    for (let i = gapStart + 1; i < offset2 - 1; i++) {
+        if (!isHexOrWhitespace(pdfBuffer[i])) {
+            throw new ByteRangeError('gap-mismatch', `non-hex byte 0x${pdfBuffer[i].toString(16)} at offset ${i}`);
+        }
+    }
 }
 
 export async function getByteRangeHash(
     pdfBuffer: Buffer,
+    signature: Pick<PdfSignature, 'byteRange' | 'contentsOffset'>,
     isDump: boolean = false,
     outDir: string = 'out',
+    digestAlgorithm: DigestAlgorithm = DEFAULT_DIGEST_ALGORITHM,
 ): Promise<string> {
-    const byteRange = parseByteRange(pdfBuffer);
-    if (!byteRange) {
-        throw new Error('Error: /ByteRange not found in PDF');
-    }
+    validateByteRange(pdfBuffer, signature);
 
-    const [offset1, length1, offset2, length2] = byteRange;
+    const [offset1, length1, offset2, length2] = signature.byteRange;
     console.log(`ByteRange: [${offset1} ${length1} ${offset2} ${length2}]`);
     console.log(`  Part 1: bytes ${offset1} to ${offset1 + length1 - 1} (length ${length1})`);
     console.log(`  Part 2: bytes ${offset2} to ${offset2 + length2 - 1} (length ${length2})`);
@@ -37,14 +98,14 @@ export async function getByteRangeHash(
     const combined = Buffer.concat([part1, part2]);
     console.log(`  Combined length: ${combined.length} bytes`);
 
-    const digest = sha256(combined);
-    const digestHex = Buffer.from(digest).toString('hex');
-    console.log(`  SHA-256 digest: ${digestHex}`);
+    const docDigest = digest(digestAlgorithm, combined);
+    const digestHex = Buffer.from(docDigest).toString('hex');
+    console.log(`  ${digestAlgorithm} digest: ${digestHex}`);
 
     if (isDump) {
         const binPath = path.join(outDir, 'doc_hash.bin');
 
-        fs.writeFileSync(binPath, digest);
+        fs.writeFileSync(binPath, docDigest);
 
         console.log(`\nOutputs written:`);
         console.log(`  Binary: ${binPath}`);
@@ -0,0 +1,395 @@
+// Off-chain certificate path building from the signer up to a locally trusted anchor
+import fs from 'node:fs';
+import path from 'node:path';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { readCertificateBytes } from './allowlist.ts';
+import { cmsCertificates, parseSignedData } from './cms.ts';
+import { parsePdfDate } from './pdf.ts';
+import { formatName, type PdfSignature, readSigningTime } from './signatures.ts';
+import type { ManifestPrivacy } from './pades.ts';
+
+const OID_KEY_USAGE = '2.5.29.15';
+const OID_BASIC_CONSTRAINTS = '2.5.29.19';
+const OID_EXTENDED_KEY_USAGE = '2.5.29.37';
+
+// id-kp-timeStamping, the purpose RFC 3161 requires of a TSA certificate
+export const OID_KP_TIME_STAMPING = '1.3.6.1.5.5.7.3.8';
+
+// KeyUsage bits as they appear in the first content byte of the BIT STRING
+const KEY_USAGE_NON_REPUDIATION = 0x40;
+const KEY_USAGE_KEY_CERT_SIGN = 0x04;
+
+// CertStatus ::= CHOICE { good [0], revoked [1], unknown [2] }
+const OCSP_STATUS_REVOKED = 1;
+
+const MAX_CHAIN_LENGTH = 8;
+
+const CERTIFICATE_EXTENSIONS = ['.cer', '.crt', '.der', '.pem'];
+
+export interface CertificateStore {
+    anchors: pkijs.Certificate[]; // self-signed roots
+    intermediates: pkijs.Certificate[];
+    crls?: pkijs.CertificateRevocationList[]; // revocation data shipped with the document (DSS)
+    ocspResponses?: pkijs.BasicOCSPResponse[];
+}
+
+export interface ChainValidationResult {
+    valid: boolean;
+    checked_at: string; // instant the validity periods were checked at
+    time_source: 'signing-time' | 'pdf-signing-time' | 'timestamp-time' | 'current-time';
+    subjects: string[]; // signer first, trust anchor last
+    errors: string[];
+}
+
+export interface ChainOptions {
+    caStorePaths?: string[]; // certificate files or directories of intermediates and roots
+    allowInvalidChain?: boolean; // prove even if the chain does not validate
+}
+
+export function parseCertificate(der: Uint8Array): pkijs.Certificate {
+    const asn1 = asn1js.fromBER(der);
+    if (asn1.offset === -1) {
+        throw new Error('Failed to parse certificate ASN.1');
+    }
+    return new pkijs.Certificate({ schema: asn1.result });
+}
+
+function certificateFiles(storePath: string): string[] {
+    if (!fs.existsSync(storePath)) {
+        throw new Error(`File not found: ${storePath}`);
+    }
+    if (!fs.statSync(storePath).isDirectory()) {
+        return [storePath];
+    }
+    return fs
+        .readdirSync(storePath)
+        .filter((name) => CERTIFICATE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+        .sort()
+        .map((name) => path.join(storePath, name));
+}
+
+function isSelfIssued(cert: pkijs.Certificate): boolean {
+    return cert.subject.isEqual(cert.issuer);
+}
+
+function sameCertificate(a: pkijs.Certificate, b: pkijs.Certificate): boolean {
+    return Buffer.from(a.toSchema().toBER()).equals(Buffer.from(b.toSchema().toBER()));
+}
+
+/**
+ * Load a local certificate store. Self-signed certificates become trust anchors,
+ * everything else is only used to bridge the gap between signer and anchor.
+ */
+export function loadCertificateStore(storePaths: string[]): CertificateStore {
+    const store: CertificateStore = { anchors: [], intermediates: [] };
+    for (const file of storePaths.flatMap(certificateFiles)) {
+        const cert = parseCertificate(readCertificateBytes(file));
+        (isSelfIssued(cert) ? store.anchors : store.intermediates).push(cert);
+    }
+    return store;
+}
+
+function extension(cert: pkijs.Certificate, oid: string): pkijs.Extension | undefined {
+    return cert.extensions?.find((ext) => ext.extnID === oid);
+}
+
+function hasKeyUsage(cert: pkijs.Certificate, bit: number): boolean | null {
+    const keyUsage = extension(cert, OID_KEY_USAGE)?.parsedValue;
+    if (!(keyUsage instanceof asn1js.BitString)) {
+        return null;
+    }
+    const bits = keyUsage.valueBlock.valueHexView;
+    return bits.length > 0 && (bits[0] & bit) !== 0;
+}
+
+function hasExtendedKeyUsage(cert: pkijs.Certificate, purpose: string): boolean {
+    const extKeyUsage = extension(cert, OID_EXTENDED_KEY_USAGE)?.parsedValue;
+    return extKeyUsage instanceof pkijs.ExtKeyUsage && extKeyUsage.keyPurposes.includes(purpose);
+}
+
+export function isCaCertificate(cert: pkijs.Certificate): boolean {
+    const constraints = extension(cert, OID_BASIC_CONSTRAINTS)?.parsedValue;
+    return constraints instanceof pkijs.BasicConstraints && constraints.cA === true;
+}
+
+function checkValidity(cert: pkijs.Certificate, label: string, checkDate: Date, errors: string[]): void {
+    const notBefore = cert.notBefore.value;
+    const notAfter = cert.notAfter.value;
+    if (checkDate < notBefore) {
+        errors.push(`${label} is not valid before ${notBefore.toISOString()}`);
+    } else if (checkDate > notAfter) {
+        errors.push(`${label} expired at ${notAfter.toISOString()}`);
+    }
+}
+
+function checkIssuer(cert: pkijs.Certificate, label: string, errors: string[]): void {
+    if (!isCaCertificate(cert)) {
+        errors.push(`${label} is not a CA (basicConstraints cA missing)`);
+    }
+    if (hasKeyUsage(cert, KEY_USAGE_KEY_CERT_SIGN) === false) {
+        errors.push(`${label} keyUsage does not allow keyCertSign`);
+    }
+}
+
+async function verifiedBy(cert: pkijs.Certificate, issuer: pkijs.Certificate): Promise<boolean> {
+    try {
+        return await cert.verify(issuer);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * First candidate whose subject matches the certificate's issuer name and whose
+ * key verifies the certificate signature.
+ */
+export async function findIssuer(
+    cert: pkijs.Certificate,
+    candidates: pkijs.Certificate[],
+): Promise<pkijs.Certificate | undefined> {
+    for (const candidate of candidates) {
+        if (candidate.subject.isEqual(cert.issuer) && (await verifiedBy(cert, candidate))) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+async function crlVerifiedBy(crl: pkijs.CertificateRevocationList, issuer: pkijs.Certificate): Promise<boolean> {
+    try {
+        return await crl.verify({ issuerCertificate: issuer });
+    } catch {
+        return false;
+    }
+}
+
+// The responder must be the issuer itself or a responder the issuer delegated to
+async function ocspVerifiedBy(response: pkijs.BasicOCSPResponse, issuer: pkijs.Certificate): Promise<boolean> {
+    try {
+        return await response.verify({ trustedCerts: [issuer], issuerCerts: [issuer] });
+    } catch {
+        return false;
+    }
+}
+
+// revocationTime of a revoked SingleResponse for this serial, null when it does not report one
+function ocspRevocationTime(response: pkijs.BasicOCSPResponse, cert: pkijs.Certificate): Date | null {
+    for (const single of response.tbsResponseData.responses) {
+        const status = single.certStatus;
+        const revoked = status.idBlock.tagClass === 3 && status.idBlock.tagNumber === OCSP_STATUS_REVOKED;
+        if (revoked && single.certID.serialNumber.isEqual(cert.serialNumber)) {
+            const [revocationTime] = (status as asn1js.Constructed).valueBlock.value;
+            return (revocationTime as asn1js.GeneralizedTime).toDate();
+        }
+    }
+    return null;
+}
+
+/**
+ * Check `cert` against the CRLs and OCSP responses of the store. Only revocation data
+ * signed by the issuer (or its OCSP responder) counts, and only revocations at or before
+ * `checkDate`; a certificate without any matching data is not an error.
+ */
+async function checkRevocation(
+    cert: pkijs.Certificate,
+    issuer: pkijs.Certificate,
+    label: string,
+    store: CertificateStore,
+    checkDate: Date,
+    errors: string[],
+): Promise<void> {
+    for (const crl of store.crls ?? []) {
+        const entry = crl.revokedCertificates?.find((revoked) => revoked.userCertificate.isEqual(cert.serialNumber));
+        if (!entry || !crl.issuer.isEqual(cert.issuer) || !(await crlVerifiedBy(crl, issuer))) {
+            continue;
+        }
+        const revokedAt = entry.revocationDate.value;
+        if (revokedAt <= checkDate) {
+            errors.push(`${label} was revoked at ${revokedAt.toISOString()} (CRL)`);
+            return;
+        }
+    }
+    for (const response of store.ocspResponses ?? []) {
+        const revokedAt = ocspRevocationTime(response, cert);
+        if (!revokedAt || revokedAt > checkDate) {
+            continue;
+        }
+        const status = await response.getCertificateStatus(cert, issuer).catch(() => null);
+        const revoked = status?.isForCertificate && status.status === OCSP_STATUS_REVOKED;
+        if (revoked && (await ocspVerifiedBy(response, issuer))) {
+            errors.push(`${label} was revoked at ${revokedAt.toISOString()} (OCSP)`);
+            return;
+        }
+    }
+}
+
+/**
+ * Build the path signer -> ... -> anchor, checking validity at `checkDate`,
+ * nonRepudiation on the signer (or the given extendedKeyUsage purpose instead),
+ * CA constraints and every issuer signature.
+ * Candidate issuers come from the CMS certificates set and the local store;
+ * CRLs and OCSP responses in the store are checked for each issued certificate.
+ */
+export async function validateCertificateChain(args: {
+    signer: pkijs.Certificate;
+    certificates: pkijs.Certificate[];
+    store: CertificateStore;
+    checkDate: Date;
+    extendedKeyUsage?: string;
+}): Promise<{ valid: boolean; chain: pkijs.Certificate[]; errors: string[] }> {
+    const { signer, store, checkDate, extendedKeyUsage } = args;
+    const candidates = [...args.certificates, ...store.intermediates, ...store.anchors];
+    const errors: string[] = [];
+    const chain = [signer];
+
+    if (extendedKeyUsage) {
+        if (!hasExtendedKeyUsage(signer, extendedKeyUsage)) {
+            errors.push(`Signer certificate extendedKeyUsage does not include ${extendedKeyUsage}`);
+        }
+    } else if (hasKeyUsage(signer, KEY_USAGE_NON_REPUDIATION) !== true) {
+        errors.push('Signer certificate keyUsage does not include nonRepudiation');
+    }
+
+    let current = signer;
+    let anchored = false;
+    while (chain.length <= MAX_CHAIN_LENGTH) {
+        const label = chain.length === 1 ? 'Signer certificate' : `CA certificate #${chain.length - 1}`;
+        checkValidity(current, label, checkDate, errors);
+        if (chain.length > 1) {
+            checkIssuer(current, label, errors);
+        }
+
+        if (store.anchors.some((anchor) => sameCertificate(anchor, current))) {
+            anchored = true;
+            break;
+        }
+        if (isSelfIssued(current)) {
+            errors.push(`${label} is self-signed but not a trust anchor`);
+            break;
+        }
+
+        const named = candidates.filter((c) => !chain.includes(c));
+        const issuer = await findIssuer(current, named);
+        if (!issuer) {
+            errors.push(
+                named.some((c) => c.subject.isEqual(current.issuer))
+                    ? `${label} signature does not verify under its issuer`
+                    : `No issuer certificate found for ${label}`,
+            );
+            break;
+        }
+
+        await checkRevocation(current, issuer, label, store, checkDate, errors);
+        chain.push(issuer);
+        current = issuer;
+    }
+
+    if (!anchored && errors.length === 0) {
+        errors.push(`Chain longer than ${MAX_CHAIN_LENGTH} certificates`);
+    }
+
+    return { valid: anchored && errors.length === 0, chain, errors };
+}
+
+/**
+ * Validate the chain of the certificate that produced a PAdES signature, at the
+ * signingTime attribute of the proven SignerInfo, else the /M entry of the
+ * signature dictionary, else now. A timestamp token's TSA certificate is checked
+ * instead with `purpose`: at the token's genTime and for id-kp-timeStamping.
+ */
+export async function validateSignerChain(
+    signature: Pick<PdfSignature, 'contents' | 'pdfSigningTime'>,
+    signerCertificate: Uint8Array,
+    store: CertificateStore,
+    signerIndex: number = 0,
+    purpose: { extendedKeyUsage?: string; timestampTime?: Date } = {},
+): Promise<ChainValidationResult> {
+    const signedData = parseSignedData(signature.contents);
+
+    const signerInfo = signedData.signerInfos[signerIndex];
+    const signingTime = signerInfo ? readSigningTime(signerInfo) : null;
+    const pdfSigningTime = signature.pdfSigningTime ? parsePdfDate(signature.pdfSigningTime) : null;
+    const checkDate = purpose.timestampTime ?? signingTime ?? pdfSigningTime ?? new Date();
+    const { valid, chain, errors } = await validateCertificateChain({
+        signer: parseCertificate(signerCertificate),
+        certificates: cmsCertificates(signedData),
+        store,
+        checkDate,
+        extendedKeyUsage: purpose.extendedKeyUsage,
+    });
+
+    return {
+        valid,
+        checked_at: checkDate.toISOString(),
+        time_source: purpose.timestampTime
+            ? 'timestamp-time'
+            : signingTime
+              ? 'signing-time'
+              : pdfSigningTime
+                ? 'pdf-signing-time'
+                : 'current-time',
+        subjects: chain.map((cert) => formatName(cert.subject)),
+        errors,
+    };
+}
+
+/**
+ * Certificate that issued the signer certificate, taken from the CMS certificates
+ * set or the local store.
+ */
+export async function findSignerIssuer(
+    signature: PdfSignature,
+    signerCertificate: Uint8Array,
+    store: CertificateStore,
+): Promise<pkijs.Certificate> {
+    const signer = parseCertificate(signerCertificate);
+    const candidates = [
+        ...cmsCertificates(parseSignedData(signature.contents)),
+        ...store.intermediates,
+        ...store.anchors,
+    ];
+    const issuer = await findIssuer(signer, candidates);
+    if (!issuer) {
+        throw new Error(
+            `Issuer of the signer certificate (${formatName(signer.issuer)}) not found in the CMS or --ca-store`,
+        );
+    }
+    return issuer;
+}
+
+export function logChainValidation(result: ChainValidationResult): void {
+    console.log(`  Checked at: ${result.checked_at} (${result.time_source})`);
+    result.subjects.forEach((subject, i) => {
+        console.log(`  ${i === 0 ? 'Signer' : `CA #${i}`}: ${subject}`);
+    });
+    if (result.valid) {
+        console.log('  ✓ Certificate chain valid up to a trust anchor');
+        return;
+    }
+    for (const error of result.errors) {
+        console.log(`  ✗ ${error}`);
+    }
+}
+
+export function assertChainValidation(result: ChainValidationResult, allowInvalidChain = false): void {
+    if (result.valid) {
+        return;
+    }
+    if (allowInvalidChain) {
+        console.log('  ! Proceeding with an invalid certificate chain (--allow-invalid-chain)');
+        return;
+    }
+    throw new Error(
+        `Certificate chain validation failed: ${result.errors.join('; ')}. ` +
+            'Pass --ca-store with the issuing CAs, or --allow-invalid-chain to prove anyway.',
+    );
+}
+
+// Subject names, check date and errors (with certificate dates) identify the signer, so only 'full' keeps them
+export function redactChainValidation(
+    result: ChainValidationResult,
+    privacy: ManifestPrivacy,
+): ChainValidationResult | Pick<ChainValidationResult, 'valid'> {
+    return privacy === 'full' ? result : { valid: result.valid };
+}
@@ -0,0 +1,90 @@
+// CMS SignedData helpers: locate the SignerInfo being proven and the certificate its sid names
+import crypto from 'node:crypto';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+
+const OID_SUBJECT_KEY_IDENTIFIER = '2.5.29.14';
+
+export interface CmsSigner {
+    index: number; // position of the SignerInfo in SignedData.signerInfos
+    count: number; // number of SignerInfos in the SignedData
+    signerInfo: pkijs.SignerInfo;
+    certificate: pkijs.Certificate; // certificate matching the SignerInfo's sid
+}
+
+export function parseSignedData(cms: Uint8Array): pkijs.SignedData {
+    const asn1 = asn1js.fromBER(cms);
+    if (asn1.offset === -1) {
+        throw new Error('Failed to parse CMS ASN.1');
+    }
+    const contentInfo = new pkijs.ContentInfo({ schema: asn1.result });
+    return new pkijs.SignedData({ schema: contentInfo.content });
+}
+
+export function cmsCertificates(signedData: pkijs.SignedData): pkijs.Certificate[] {
+    return (signedData.certificates ?? []).filter(
+        (cert): cert is pkijs.Certificate => cert instanceof pkijs.Certificate,
+    );
+}
+
+// subjectKeyIdentifier extension, else the RFC 5280 method 1 value (SHA-1 of the public key bits)
+function subjectKeyIdentifier(cert: pkijs.Certificate): Buffer {
+    const ext = cert.extensions?.find((e) => e.extnID === OID_SUBJECT_KEY_IDENTIFIER);
+    if (ext?.parsedValue instanceof asn1js.OctetString) {
+        return Buffer.from(ext.parsedValue.valueBlock.valueHexView);
+    }
+    const keyBits = cert.subjectPublicKeyInfo.subjectPublicKey.valueBlock.valueHexView;
+    return crypto.createHash('sha1').update(keyBits).digest();
+}
+
+// SignerIdentifier: issuerAndSerialNumber, or a [0] subjectKeyIdentifier
+function signerKeyIdentifier(signerInfo: pkijs.SignerInfo): Buffer | null {
+    const { sid } = signerInfo;
+    if (sid instanceof pkijs.IssuerAndSerialNumber) {
+        return null;
+    }
+    // [0] IMPLICIT OCTET STRING, or an explicitly wrapped OCTET STRING from some encoders
+    const block = sid instanceof asn1js.Constructed ? sid.valueBlock.value[0] : sid;
+    return Buffer.from((block as asn1js.Primitive).valueBlock.valueHexView);
+}
+
+export function signerIdentifierMatches(signerInfo: pkijs.SignerInfo, cert: pkijs.Certificate): boolean {
+    const { sid } = signerInfo;
+    if (sid instanceof pkijs.IssuerAndSerialNumber) {
+        return cert.issuer.isEqual(sid.issuer) && cert.serialNumber.isEqual(sid.serialNumber);
+    }
+    const keyIdentifier = signerKeyIdentifier(signerInfo);
+    return keyIdentifier !== null && subjectKeyIdentifier(cert).equals(keyIdentifier);
+}
+
+export function describeSignerIdentifier(signerInfo: pkijs.SignerInfo): string {
+    const { sid } = signerInfo;
+    if (sid instanceof pkijs.IssuerAndSerialNumber) {
+        return `serial ${Buffer.from(sid.serialNumber.valueBlock.valueHexView).toString('hex')}`;
+    }
+    return `subjectKeyIdentifier ${signerKeyIdentifier(signerInfo)?.toString('hex')}`;
+}
+
+export function findSignerCertificate(signedData: pkijs.SignedData, signerInfo: pkijs.SignerInfo): pkijs.Certificate {
+    const cert = cmsCertificates(signedData).find((candidate) => signerIdentifierMatches(signerInfo, candidate));
+    if (!cert) {
+        throw new Error(`No certificate in the CMS matches the SignerInfo (${describeSignerIdentifier(signerInfo)})`);
+    }
+    return cert;
+}
+
+/**
+ * The SignerInfo at `index` (default the first) and the certificate its sid
+ * names, wherever that certificate sits in the CMS certificate set.
+ */
+export function selectCmsSigner(signedData: pkijs.SignedData, index: number = 0): CmsSigner {
+    const count = signedData.signerInfos.length;
+    if (count === 0) {
+        throw new Error('No signer infos in CMS');
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= count) {
+        throw new Error(`SignerInfo #${index} not found; the CMS has ${count} SignerInfo(s)`);
+    }
+    const signerInfo = signedData.signerInfos[index];
+    return { index, count, signerInfo, certificate: findSignerCertificate(signedData, signerInfo) };
+}
@@ -0,0 +1,64 @@
+// Digest algorithms a CMS signer may use for the document and the signed attributes
+import crypto from 'node:crypto';
+import type * as pkijs from 'pkijs';
+
+export type DigestAlgorithm = 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+interface DigestInfo {
+    name: DigestAlgorithm;
+    oid: string;
+    nodeName: string;
+    length: number; // digest length in bytes
+}
+
+const DIGESTS: DigestInfo[] = [
+    { name: 'SHA-256', oid: '2.16.840.1.101.3.4.2.1', nodeName: 'sha256', length: 32 },
+    { name: 'SHA-384', oid: '2.16.840.1.101.3.4.2.2', nodeName: 'sha384', length: 48 },
+    { name: 'SHA-512', oid: '2.16.840.1.101.3.4.2.3', nodeName: 'sha512', length: 64 },
+];
+
+export const DEFAULT_DIGEST_ALGORITHM: DigestAlgorithm = 'SHA-256';
+
+function digestInfo(algorithm: DigestAlgorithm): DigestInfo {
+    return DIGESTS.find((d) => d.name === algorithm) as DigestInfo;
+}
+
+export function digestAlgorithmFromOid(oid: string): DigestAlgorithm {
+    const info = DIGESTS.find((d) => d.oid === oid);
+    if (!info) {
+        const supported = DIGESTS.map((d) => d.name).join(', ');
+        throw new Error(`Unsupported digest algorithm ${oid} (supported: ${supported})`);
+    }
+    return info.name;
+}
+
+export function digestLength(algorithm: DigestAlgorithm): number {
+    return digestInfo(algorithm).length;
+}
+
+export function digest(algorithm: DigestAlgorithm, data: Uint8Array): Uint8Array {
+    return new Uint8Array(crypto.createHash(digestInfo(algorithm).nodeName).update(data).digest());
+}
+
+// Circuit name suffix: SHA-256 circuits keep their original names
+export function digestCircuitSuffix(algorithm: DigestAlgorithm): string {
+    return algorithm === DEFAULT_DIGEST_ALGORITHM ? '' : `_${digestInfo(algorithm).nodeName}`;
+}
+
+// The circuits' public digest_algorithm input: the digest length in bits
+export function digestAlgorithmBits(algorithm: DigestAlgorithm): number {
+    return digestLength(algorithm) * 8;
+}
+
+export function digestAlgorithmFromBits(bits: number): DigestAlgorithm {
+    const info = DIGESTS.find((d) => d.length * 8 === bits);
+    if (!info) {
+        const supported = DIGESTS.map((d) => d.length * 8).join(', ');
+        throw new Error(`Unknown digest algorithm id ${bits} (expected one of ${supported})`);
+    }
+    return info.name;
+}
+
+export function signerDigestAlgorithm(signerInfo: pkijs.SignerInfo): DigestAlgorithm {
+    return digestAlgorithmFromOid(signerInfo.digestAlgorithm.algorithmId);
+}
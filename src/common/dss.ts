@@ -0,0 +1,153 @@
+// Document Security Store (PAdES B-LT): certificates, CRLs and OCSP responses appended to the
+// PDF after signing, and the baseline level a signature reaches with them and document timestamps
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { type CertificateStore, parseCertificate } from './chain.ts';
+import { decodeStream, getEntry, isDict, isRef, isStream, openPdf, type PdfDict, type PdfReader } from './pdf.ts';
+import { parseCrl } from './revocation.ts';
+import type { PdfSignature } from './signatures.ts';
+
+const OID_OCSP_BASIC = '1.3.6.1.5.5.7.48.1.1';
+
+export type PadesLevel = 'B-B' | 'B-T' | 'B-LT' | 'B-LTA';
+
+export interface DocumentSecurityStore {
+    certificates: Buffer[]; // DER
+    crls: Buffer[]; // DER
+    ocspResponses: Buffer[]; // DER OCSPResponse
+    vriCount: number; // per-signature /VRI dictionaries
+}
+
+function readStreams(reader: PdfReader, dict: PdfDict, key: string, seen: Set<number>, out: Buffer[]): void {
+    const value = getEntry(reader, dict, key);
+    if (!Array.isArray(value)) {
+        return;
+    }
+    for (const item of value) {
+        if (isRef(item)) {
+            if (seen.has(item.num)) continue;
+            seen.add(item.num);
+        }
+        const stream = reader.resolve(item);
+        if (isStream(stream)) {
+            out.push(decodeStream(stream));
+        }
+    }
+}
+
+/**
+ * Validation data of the catalog's /DSS: the top-level Certs/CRLs/OCSPs arrays plus
+ * anything only referenced from a /VRI entry. Null when the PDF has no DSS.
+ */
+export function readDss(pdfBuffer: Buffer): DocumentSecurityStore | null {
+    const reader = openPdf(pdfBuffer);
+    const dss = reader.resolve(reader.catalog()?.entries.get('DSS'));
+    if (!isDict(dss)) {
+        return null;
+    }
+
+    const store: DocumentSecurityStore = { certificates: [], crls: [], ocspResponses: [], vriCount: 0 };
+    const seen = new Set<number>();
+    const collect = (dict: PdfDict, certs: string, crls: string, ocsps: string) => {
+        readStreams(reader, dict, certs, seen, store.certificates);
+        readStreams(reader, dict, crls, seen, store.crls);
+        readStreams(reader, dict, ocsps, seen, store.ocspResponses);
+    };
+
+    collect(dss, 'Certs', 'CRLs', 'OCSPs');
+    const vri = getEntry(reader, dss, 'VRI');
+    if (isDict(vri)) {
+        for (const entry of vri.entries.values()) {
+            const validationData = reader.resolve(entry);
+            if (isDict(validationData)) {
+                store.vriCount++;
+                collect(validationData, 'Cert', 'CRL', 'OCSP');
+            }
+        }
+    }
+    return store;
+}
+
+// Only successful responses of the basic type carry certificate statuses
+function parseOcspResponse(der: Uint8Array): pkijs.BasicOCSPResponse[] {
+    const asn1 = asn1js.fromBER(der);
+    if (asn1.offset === -1) {
+        throw new Error('Failed to parse OCSP response ASN.1');
+    }
+    const { responseBytes } = new pkijs.OCSPResponse({ schema: asn1.result });
+    if (!responseBytes || responseBytes.responseType !== OID_OCSP_BASIC) {
+        return [];
+    }
+    const basic = asn1js.fromBER(responseBytes.response.valueBlock.valueHexView);
+    return [new pkijs.BasicOCSPResponse({ schema: basic.result })];
+}
+
+/**
+ * Add the DSS validation data to a local certificate store. DSS certificates only
+ * bridge the gap to an anchor: a self-signed certificate in the PDF is never trusted.
+ */
+export function withDssValidationData(store: CertificateStore, dss: DocumentSecurityStore | null): CertificateStore {
+    if (!dss) {
+        return store;
+    }
+    const certificates = dss.certificates.map(parseCertificate).filter((cert) => !cert.subject.isEqual(cert.issuer));
+    return {
+        ...store,
+        intermediates: [...store.intermediates, ...certificates],
+        crls: [...(store.crls ?? []), ...dss.crls.map(parseCrl)],
+        ocspResponses: [...(store.ocspResponses ?? []), ...dss.ocspResponses.flatMap(parseOcspResponse)],
+    };
+}
+
+function signedLength(signature: PdfSignature): number {
+    const [, , offset2, length2] = signature.byteRange;
+    return offset2 + length2;
+}
+
+// Whether the catalog of the given revision (index into reader.revisions) has a /DSS
+function hasDssAt(reader: PdfReader, revision: number): boolean {
+    const root = reader.revisions[revision]?.trailer.entries.get('Root') ?? reader.trailer.entries.get('Root');
+    const catalog = reader.resolve(root, revision);
+    return isDict(catalog) && isDict(reader.resolve(catalog.entries.get('DSS'), revision));
+}
+
+/**
+ * PAdES baseline level of `signature`: B-T needs a signature timestamp or a later
+ * document timestamp, B-LT a DSS in the final revision, and B-LTA a document
+ * timestamp over a revision that already has the DSS.
+ */
+export function padesLevel(
+    pdfBuffer: Buffer,
+    signature: PdfSignature,
+    signatures: PdfSignature[],
+    signatureTimestamp: boolean,
+): PadesLevel {
+    const docTimestamps = signatures.filter(
+        (sig) => sig.kind === 'doc-timestamp' && signedLength(sig) > signedLength(signature),
+    );
+    if (!signatureTimestamp && docTimestamps.length === 0) {
+        return 'B-B';
+    }
+
+    const reader = openPdf(pdfBuffer);
+    if (!hasDssAt(reader, reader.revisions.length - 1)) {
+        return 'B-T';
+    }
+    const coveredRevision = (timestamp: PdfSignature) => {
+        const end = signedLength(timestamp);
+        return reader.revisions.filter((revision) => revision.xrefOffset < end).length - 1;
+    };
+    return docTimestamps.some((timestamp) => hasDssAt(reader, coveredRevision(timestamp))) ? 'B-LTA' : 'B-LT';
+}
+
+export function logDocumentSecurityStore(dss: DocumentSecurityStore | null): void {
+    if (!dss) {
+        console.log('  No Document Security Store (/DSS)');
+        return;
+    }
+    const { certificates, crls, ocspResponses, vriCount } = dss;
+    console.log(
+        `  Document Security Store: ${certificates.length} certificate(s), ${crls.length} CRL(s), ` +
+            `${ocspResponses.length} OCSP response(s), ${vriCount} VRI entr${vriCount === 1 ? 'y' : 'ies'}`,
+    );
+}
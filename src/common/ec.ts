@@ -0,0 +1,113 @@
+// Shared elliptic-curve helpers for key extraction and fingerprint serialization
+import * as asn1js from 'asn1js';
+import type * as pkijs from 'pkijs';
+
+export const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
+
+export type EcCurveId = 'p256' | 'p384' | 'brainpoolP256r1' | 'brainpoolP384r1';
+
+export interface EcCurve {
+    id: EcCurveId;
+    name: string;
+    oid: string;
+    size: number; // coordinate and scalar length in bytes
+}
+
+export const EC_CURVES: EcCurve[] = [
+    { id: 'p256', name: 'P-256', oid: '1.2.840.10045.3.1.7', size: 32 },
+    { id: 'p384', name: 'P-384', oid: '1.3.132.0.34', size: 48 },
+    { id: 'brainpoolP256r1', name: 'brainpoolP256r1', oid: '1.3.36.3.3.2.8.1.1.7', size: 32 },
+    { id: 'brainpoolP384r1', name: 'brainpoolP384r1', oid: '1.3.36.3.3.2.8.1.1.11', size: 48 },
+];
+
+export interface EcPublicKey {
+    curve: EcCurve;
+    x: Buffer;
+    y: Buffer;
+}
+
+/**
+ * Read the namedCurve parameter of an id-ecPublicKey SubjectPublicKeyInfo.
+ */
+export function getCurve(spki: pkijs.PublicKeyInfo): EcCurve {
+    if (spki.algorithm.algorithmId !== OID_EC_PUBLIC_KEY) {
+        throw new Error(`Not an EC public key: ${spki.algorithm.algorithmId}`);
+    }
+
+    const params = spki.algorithm.algorithmParams;
+    if (!(params instanceof asn1js.ObjectIdentifier)) {
+        throw new Error('EC public key has no namedCurve parameter (explicit curve parameters are not supported)');
+    }
+
+    const oid = params.valueBlock.toString();
+    const curve = EC_CURVES.find((c) => c.oid === oid);
+    if (!curve) {
+        const supported = EC_CURVES.map((c) => c.name).join(', ');
+        throw new Error(`Unsupported EC curve ${oid} (supported: ${supported})`);
+    }
+    return curve;
+}
+
+export function parseEcPublicKey(spki: pkijs.PublicKeyInfo): EcPublicKey {
+    const curve = getCurve(spki);
+    const point = Buffer.from(spki.subjectPublicKey.valueBlock.valueHexView);
+
+    // Uncompressed point 0x04 || X || Y
+    if (point[0] !== 0x04 || point.length !== 1 + 2 * curve.size) {
+        throw new Error(`Invalid ${curve.name} public key format: ${point.length} bytes`);
+    }
+
+    return {
+        curve,
+        x: point.subarray(1, 1 + curve.size),
+        y: point.subarray(1 + curve.size),
+    };
+}
+
+function toFixedWidth(value: Uint8Array, size: number, label: string): Buffer {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) {
+        start++;
+    }
+    const bytes = Buffer.from(value.subarray(start));
+    if (bytes.length > size) {
+        throw new Error(`ECDSA ${label} is ${bytes.length} bytes, longer than the ${size}-byte curve order`);
+    }
+    const padded = Buffer.alloc(size);
+    bytes.copy(padded, size - bytes.length);
+    return padded;
+}
+
+/**
+ * Decode an ECDSA-Sig-Value (SEQUENCE { r INTEGER, s INTEGER }) into
+ * fixed-width big-endian scalars for the given curve.
+ */
+export function parseEcdsaSignature(der: Uint8Array, curve: EcCurve): { r: Buffer; s: Buffer } {
+    const asn1 = asn1js.fromBER(der);
+    if (asn1.offset === -1 || !(asn1.result instanceof asn1js.Sequence)) {
+        throw new Error('Failed to parse signature');
+    }
+
+    const [r, s] = asn1.result.valueBlock.value;
+    if (!(r instanceof asn1js.Integer) || !(s instanceof asn1js.Integer)) {
+        throw new Error('ECDSA signature must be a SEQUENCE of two INTEGERs');
+    }
+
+    return {
+        r: toFixedWidth(r.valueBlock.valueHexView, curve.size, 'r'),
+        s: toFixedWidth(s.valueBlock.valueHexView, curve.size, 's'),
+    };
+}
+
+/**
+ * Bytes hashed into the allow-list leaf. P-256 keys keep the original X || Y
+ * encoding; other curves are prefixed with the DER namedCurve OID so equal
+ * coordinates on different curves never share a leaf.
+ */
+export function ecFingerprintBytes(key: EcPublicKey): Buffer {
+    if (key.curve.id === 'p256') {
+        return Buffer.concat([key.x, key.y]);
+    }
+    const oid = Buffer.from(new asn1js.ObjectIdentifier({ value: key.curve.oid }).toBER());
+    return Buffer.concat([oid, key.x, key.y]);
+}
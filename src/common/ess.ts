@@ -0,0 +1,139 @@
+// ESS signing-certificate attributes (RFC 2634, RFC 5035): the signed attributes name the signing
+// certificate by hash, so a different certificate for the same key cannot be substituted
+import crypto from 'node:crypto';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { parseCertificate } from './chain.ts';
+import { DEFAULT_DIGEST_ALGORITHM, type DigestAlgorithm, digest, digestAlgorithmFromOid } from './digest.ts';
+
+const OID_SIGNING_CERTIFICATE = '1.2.840.113549.1.9.16.2.12';
+const OID_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47';
+
+export type SigningCertificateAttribute = 'signingCertificate' | 'signingCertificateV2';
+
+// signingCertificate (v1) hashes are always SHA-1
+type CertHashAlgorithm = DigestAlgorithm | 'SHA-1';
+
+// 'missing': the signed attributes do not name the certificate, so PAdES baseline conformance is not met
+export type SigningCertificateStatus = 'bound' | 'missing' | 'mismatch';
+
+export interface SigningCertificateBinding {
+    status: SigningCertificateStatus;
+    attribute: SigningCertificateAttribute | null; // null when the signed attributes carry neither
+    hash_algorithm?: CertHashAlgorithm;
+    cert_hash?: string; // certHash of the first ESSCertID (hex)
+    errors: string[];
+}
+
+interface EssCertId {
+    hashAlgorithm: CertHashAlgorithm;
+    certHash: Uint8Array;
+    issuerSerial?: asn1js.Sequence;
+}
+
+function signedAttribute(signerInfo: pkijs.SignerInfo, oid: string): pkijs.Attribute | undefined {
+    return signerInfo.signedAttrs?.attributes.find((attr) => attr.type === oid);
+}
+
+/**
+ * First ESSCertID(v2) of a SigningCertificate(V2) value; the first entry identifies the
+ * signing certificate, later ones only the chain.
+ */
+function firstCertId(attribute: pkijs.Attribute, v2: boolean): EssCertId {
+    const [value] = attribute.values;
+    const certs = value instanceof asn1js.Sequence ? value.valueBlock.value[0] : undefined;
+    const certId = certs instanceof asn1js.Sequence ? certs.valueBlock.value[0] : undefined;
+    if (!(certId instanceof asn1js.Sequence)) {
+        throw new Error('Malformed ESS signing-certificate attribute');
+    }
+
+    const fields = [...certId.valueBlock.value];
+    let hashAlgorithm: CertHashAlgorithm = v2 ? DEFAULT_DIGEST_ALGORITHM : 'SHA-1';
+    if (v2 && fields[0] instanceof asn1js.Sequence) {
+        const algorithm = new pkijs.AlgorithmIdentifier({ schema: fields.shift() });
+        hashAlgorithm = digestAlgorithmFromOid(algorithm.algorithmId);
+    }
+    const [certHash, issuerSerial] = fields;
+    if (!(certHash instanceof asn1js.OctetString)) {
+        throw new Error('Malformed ESS signing-certificate attribute: certHash missing');
+    }
+    return {
+        hashAlgorithm,
+        certHash: certHash.valueBlock.valueHexView,
+        issuerSerial: issuerSerial instanceof asn1js.Sequence ? issuerSerial : undefined,
+    };
+}
+
+function hashCertificate(algorithm: CertHashAlgorithm, certificateDer: Uint8Array): Buffer {
+    if (algorithm === 'SHA-1') {
+        return crypto.createHash('sha1').update(certificateDer).digest();
+    }
+    return Buffer.from(digest(algorithm, certificateDer));
+}
+
+// IssuerSerial ::= SEQUENCE { issuer GeneralNames, serialNumber INTEGER }
+function issuerSerialMatches(issuerSerial: asn1js.Sequence, cert: pkijs.Certificate): boolean {
+    const [issuer, serialNumber] = issuerSerial.valueBlock.value;
+    if (!(serialNumber instanceof asn1js.Integer) || !cert.serialNumber.isEqual(serialNumber)) {
+        return false;
+    }
+    const names = new pkijs.GeneralNames({ schema: issuer });
+    return names.names.some((name) => name.type === 4 && cert.issuer.isEqual(name.value));
+}
+
+/**
+ * Check the signer's ESS signing-certificate(-v2) attribute against the DER certificate
+ * the SignerInfo's sid selected: certHash must be its digest, and a present issuerSerial
+ * must name it.
+ */
+export function checkSigningCertificate(
+    signerInfo: pkijs.SignerInfo,
+    certificateDer: Uint8Array,
+): SigningCertificateBinding {
+    const v2 = signedAttribute(signerInfo, OID_SIGNING_CERTIFICATE_V2);
+    const attribute = v2 ?? signedAttribute(signerInfo, OID_SIGNING_CERTIFICATE);
+    if (!attribute) {
+        return { status: 'missing', attribute: null, errors: [] };
+    }
+
+    const certId = firstCertId(attribute, v2 !== undefined);
+    const errors: string[] = [];
+    const expected = hashCertificate(certId.hashAlgorithm, certificateDer);
+    if (!expected.equals(certId.certHash)) {
+        errors.push(
+            `certHash does not match the signing certificate (${certId.hashAlgorithm} ${expected.toString('hex')})`,
+        );
+    }
+    if (certId.issuerSerial && !issuerSerialMatches(certId.issuerSerial, parseCertificate(certificateDer))) {
+        errors.push('issuerSerial does not name the signing certificate');
+    }
+
+    return {
+        status: errors.length === 0 ? 'bound' : 'mismatch',
+        attribute: v2 ? 'signingCertificateV2' : 'signingCertificate',
+        hash_algorithm: certId.hashAlgorithm,
+        cert_hash: Buffer.from(certId.certHash).toString('hex'),
+        errors,
+    };
+}
+
+export function logSigningCertificate(binding: SigningCertificateBinding): void {
+    if (binding.status === 'missing') {
+        console.log('  ! Signing certificate: missing (no ESS attribute names the certificate; not PAdES baseline)');
+        return;
+    }
+    if (binding.status === 'bound') {
+        console.log(`  ✓ ${binding.attribute} binds the certificate (${binding.hash_algorithm} ${binding.cert_hash})`);
+        return;
+    }
+    for (const error of binding.errors) {
+        console.log(`  ✗ ${binding.attribute}: ${error}`);
+    }
+}
+
+// A certHash for another certificate means the CMS was re-assembled around the signature
+export function assertSigningCertificate(binding: SigningCertificateBinding): void {
+    if (binding.errors.length > 0) {
+        throw new Error(`ESS ${binding.attribute} check failed: ${binding.errors.join('; ')}`);
+    }
+}
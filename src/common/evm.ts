@@ -0,0 +1,120 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
+import { loadCircuit } from './runner.ts';
+import { oracleHashOptions } from './pades.ts';
+
+// keccak256('verify(bytes,bytes32[])')[0..4], entry point of the bb.js HonkVerifier contract
+export const VERIFY_SELECTOR = 'ea50d0e4';
+
+function encodeWord(value: number | bigint): string {
+    return value.toString(16).padStart(64, '0');
+}
+
+function encodeBytes32(field: string): string {
+    const hex = BigInt(field).toString(16);
+    if (hex.length > 64) {
+        throw new Error(`Public input ${field} does not fit in bytes32`);
+    }
+    return hex.padStart(64, '0');
+}
+
+/**
+ * ABI-encode a call to verify(bytes _proof, bytes32[] _publicInputs).
+ */
+export function encodeVerifyCalldata(proof: Uint8Array, publicInputs: string[]): string {
+    const proofHex = Buffer.from(proof).toString('hex');
+    const paddedProof = proofHex.padEnd(Math.ceil(proof.length / 32) * 64, '0');
+    const proofOffset = 0x40;
+    const inputsOffset = proofOffset + 32 + paddedProof.length / 2;
+
+    return (
+        `0x${VERIFY_SELECTOR}` +
+        encodeWord(proofOffset) +
+        encodeWord(inputsOffset) +
+        encodeWord(proof.length) +
+        paddedProof +
+        encodeWord(publicInputs.length) +
+        publicInputs.map(encodeBytes32).join('')
+    );
+}
+
+export function readProofForEvm(proofPath: string, vkey: Uint8Array): { proof: Uint8Array; publicInputs: string[] } {
+    if (!fs.existsSync(proofPath)) {
+        throw new Error(`File not found: ${proofPath}`);
+    }
+    const proofJson = JSON.parse(fs.readFileSync(proofPath, 'utf-8'));
+    const artifactsDir = path.dirname(proofPath);
+
+    // Artifacts written next to proof.json tell us which oracle and key the proof was made with
+    const manifestPath = path.join(artifactsDir, 'manifest.json');
+    if (!fs.existsSync(manifestPath)) {
+        throw new Error(
+            `No manifest.json next to ${proofPath}: cannot tell whether the proof uses the keccak oracle hash`,
+        );
+    }
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    if (manifest.oracle_hash !== 'keccak') {
+        throw new Error(
+            `Proof was generated with the ${manifest.oracle_hash ?? 'poseidon'} oracle hash; ` +
+                're-run the prover with --evm to get an EVM-verifiable proof',
+        );
+    }
+    const vkeyPath = path.join(artifactsDir, 'vkey.bin');
+    if (fs.existsSync(vkeyPath) && !fs.readFileSync(vkeyPath).equals(Buffer.from(vkey))) {
+        throw new Error(`Verification key in ${vkeyPath} does not match the circuit's keccak verification key`);
+    }
+
+    return {
+        proof: new Uint8Array(Buffer.from(proofJson.proof, 'hex')),
+        publicInputs: proofJson.publicInputs,
+    };
+}
+
+/**
+ * Write the UltraHonk Solidity verifier for a compiled circuit and, given a
+ * proof.json made with the keccak oracle, the calldata for verify().
+ */
+export async function exportSolidityVerifier(args: {
+    circuitPath: string;
+    outDir: string;
+    proofPath?: string;
+}): Promise<void> {
+    const { circuitPath, outDir, proofPath } = args;
+    const circuitName = path.basename(circuitPath);
+
+    console.log('=== Solidity Verifier Export ===\n');
+    console.log(`  Circuit: ${circuitName}`);
+
+    const circuit = await loadCircuit(circuitPath);
+    const backend = new BarretenbergBackend(circuit.bytecode, { threads: 4 });
+
+    try {
+        console.log('\n[1/2] Generating verifier contract (keccak oracle)...');
+        const vkey = await backend.getVerificationKey(oracleHashOptions('keccak'));
+        const contract = await backend.getSolidityVerifier(vkey, oracleHashOptions('keccak'));
+
+        if (!fs.existsSync(outDir)) {
+            fs.mkdirSync(outDir, { recursive: true });
+        }
+        const contractPath = path.join(outDir, `${circuitName}_verifier.sol`);
+        const vkeyPath = path.join(outDir, `${circuitName}_vkey.bin`);
+        fs.writeFileSync(contractPath, contract);
+        fs.writeFileSync(vkeyPath, vkey);
+        console.log(`  Contract: ${contractPath}`);
+        console.log(`  VKey: ${vkeyPath}`);
+
+        if (!proofPath) {
+            return;
+        }
+
+        console.log('\n[2/2] Encoding calldata...');
+        const { proof, publicInputs } = readProofForEvm(proofPath, vkey);
+        const calldata = encodeVerifyCalldata(proof, publicInputs);
+        const calldataPath = path.join(outDir, 'calldata.hex');
+        fs.writeFileSync(calldataPath, calldata);
+        console.log(`  Calldata: ${calldataPath} (${(calldata.length - 2) / 2} bytes)`);
+    } finally {
+        await backend.destroy();
+    }
+}
@@ -0,0 +1,374 @@
+import {
+    getEntry,
+    isDict,
+    isName,
+    isRef,
+    isStream,
+    isWhitespace,
+    openPdf,
+    type PdfDict,
+    type PdfObject,
+    type PdfReader,
+} from './pdf.ts';
+import type { PdfSignature } from './signatures.ts';
+
+export interface TrailingChange {
+    objectNumber: number;
+    type: string | null;
+    allowed: boolean;
+    reason: string;
+}
+
+export interface IntegrityReport {
+    signatureIndex: number;
+    fileLength: number;
+    signedLength: number;
+    coversWholeFile: boolean;
+    endsAtRevisionBoundary: boolean;
+    revisionsAfter: number;
+    isFinalRevision: boolean;
+    unaccountedBytes: number; // trailing bytes not part of any incremental update
+    docMdpPermissions: number | null;
+    changes: TrailingChange[];
+}
+
+// Keys of the catalog that change what a reader renders or executes
+const SENSITIVE_CATALOG_KEYS = ['Pages', 'Names', 'OpenAction', 'AA', 'Outlines', 'PageLabels', 'Dests', 'URI'];
+
+function nameOf(value: PdfObject): string | null {
+    return isName(value) ? value.value : null;
+}
+
+function dictOf(value: PdfObject): PdfDict | null {
+    if (isStream(value)) {
+        return value.dict;
+    }
+    return isDict(value) ? value : null;
+}
+
+function serialize(value: PdfObject | undefined): string {
+    if (value === undefined || value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(serialize).join(' ')}]`;
+    }
+    if (typeof value !== 'object') {
+        return String(value);
+    }
+    switch (value.kind) {
+        case 'name':
+            return `/${value.value}`;
+        case 'ref':
+            return `${value.num} ${value.gen} R`;
+        case 'string':
+            return `<${value.bytes.toString('hex')}>`;
+        case 'dict':
+            return `<<${[...value.entries].map(([k, v]) => `/${k} ${serialize(v)}`).join(' ')}>>`;
+        case 'stream':
+            return `stream${serialize(value.dict)}`;
+    }
+}
+
+function collectRefs(value: PdfObject | undefined, out: Set<number>): void {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            collectRefs(item, out);
+        }
+    } else if (isRef(value)) {
+        out.add(value.num);
+    } else if (isDict(value)) {
+        for (const item of value.entries.values()) {
+            collectRefs(item, out);
+        }
+    } else if (isStream(value)) {
+        collectRefs(value.dict, out);
+    }
+}
+
+// Everything a DSS references (VRI dictionaries, certificate/CRL/OCSP streams)
+function collectDssRefs(reader: PdfReader, dss: PdfDict, out: Set<number>): void {
+    const pending: number[] = [];
+    const enqueue = (value: PdfObject) => {
+        const refs = new Set<number>();
+        collectRefs(value, refs);
+        pending.push(...refs);
+    };
+
+    enqueue(dss);
+    while (pending.length > 0) {
+        const num = pending.pop() as number;
+        if (out.has(num)) continue;
+        out.add(num);
+
+        // Streams are leaves; dictionaries (VRI entries) and arrays may reference more data
+        const value = reader.getObject(num);
+        if (isDict(value) || Array.isArray(value)) {
+            enqueue(value);
+        }
+    }
+}
+
+function isSignatureWidget(reader: PdfReader, dict: PdfDict): boolean {
+    if (nameOf(dict.entries.get('Subtype') ?? null) !== 'Widget') {
+        return false;
+    }
+    // Merged field/widget, or a widget whose parent field carries /FT
+    const parent = getEntry(reader, dict, 'Parent');
+    const fieldType = dict.entries.get('FT') ?? (isDict(parent) ? parent.entries.get('FT') : null);
+    return nameOf(reader.resolve(fieldType)) === 'Sig';
+}
+
+// Objects first defined after the signed revision that an added signature widget's /AP draws with
+// (form XObjects, fonts, images). Objects the signed revision already had are not followed.
+function collectAppearanceRefs(
+    reader: PdfReader,
+    updatedObjects: number[],
+    signedRevision: number,
+    out: Set<number>,
+): void {
+    const isNew = (num: number) => reader.getObject(num, signedRevision) === null;
+    const pending: number[] = [];
+    const enqueue = (value: PdfObject | undefined) => {
+        const refs = new Set<number>();
+        collectRefs(value, refs);
+        pending.push(...refs);
+    };
+
+    for (const num of updatedObjects) {
+        const widget = isNew(num) ? dictOf(reader.getObject(num)) : null;
+        if (widget && isSignatureWidget(reader, widget)) {
+            enqueue(widget.entries.get('AP'));
+        }
+    }
+    while (pending.length > 0) {
+        const num = pending.pop() as number;
+        if (out.has(num) || !isNew(num)) continue;
+        out.add(num);
+        enqueue(reader.getObject(num));
+    }
+}
+
+// DocMDP transform parameters on the signature dictionary (1 = no changes, 2 = form fill/sign, 3 = + annotations)
+function readDocMdpPermissions(reader: PdfReader, signature: PdfSignature): number | null {
+    const sigDict = dictOf(reader.getObject(signature.objectNumber));
+    const references = sigDict ? getEntry(reader, sigDict, 'Reference') : null;
+    if (!Array.isArray(references)) {
+        return null;
+    }
+
+    for (const item of references) {
+        const reference = reader.resolve(item);
+        if (!isDict(reference) || nameOf(getEntry(reader, reference, 'TransformMethod')) !== 'DocMDP') {
+            continue;
+        }
+        const params = getEntry(reader, reference, 'TransformParams');
+        const p = isDict(params) ? getEntry(reader, params, 'P') : null;
+        return typeof p === 'number' ? p : 2;
+    }
+
+    return null;
+}
+
+function classifyObject(
+    reader: PdfReader,
+    num: number,
+    value: PdfObject,
+    context: {
+        signedRevision: number;
+        dssRefs: Set<number>;
+        appearanceRefs: Set<number>;
+        infoRef: number | null;
+        docMdp: number | null;
+    },
+): TrailingChange {
+    const dict = dictOf(value);
+    const type = dict ? nameOf(dict.entries.get('Type') ?? null) : null;
+    const change = (allowed: boolean, reason: string): TrailingChange => ({ objectNumber: num, type, allowed, reason });
+
+    if (context.appearanceRefs.has(num)) {
+        return change(context.docMdp !== 1, 'signature appearance');
+    }
+    if (!dict) {
+        return typeof value === 'number' ? change(true, 'stream length') : change(false, 'modified object');
+    }
+
+    if (type === 'DSS' || type === 'VRI' || context.dssRefs.has(num)) {
+        return change(true, 'Document Security Store');
+    }
+    if (
+        type === 'DocTimeStamp' ||
+        (type === 'Sig' && nameOf(dict.entries.get('SubFilter') ?? null) === 'ETSI.RFC3161')
+    ) {
+        return change(true, 'document timestamp');
+    }
+    if (type === 'Sig') {
+        return change(context.docMdp !== 1, 'signature dictionary');
+    }
+    if (type === 'XRef') {
+        return change(true, 'cross-reference stream');
+    }
+    if (type === 'ObjStm') {
+        return change(true, 'object stream (contents checked individually)');
+    }
+    if (type === 'Catalog') {
+        const previous = dictOf(reader.getObject(num, context.signedRevision));
+        const changed = SENSITIVE_CATALOG_KEYS.filter(
+            (key) => serialize(dict.entries.get(key)) !== serialize(previous?.entries.get(key)),
+        );
+        return changed.length === 0
+            ? change(true, 'catalog update (DSS/AcroForm only)')
+            : change(false, `catalog changes ${changed.map((key) => `/${key}`).join(', ')}`);
+    }
+    if (type === 'Page') {
+        // Signing or annotating adds a widget to the page's /Annots; anything else changes the page itself
+        const previous = dictOf(reader.getObject(num, context.signedRevision));
+        const keys = new Set([...dict.entries.keys(), ...(previous?.entries.keys() ?? [])]);
+        const changed = [...keys].filter(
+            (key) => key !== 'Annots' && serialize(dict.entries.get(key)) !== serialize(previous?.entries.get(key)),
+        );
+        return changed.length === 0
+            ? change(context.docMdp !== 1, 'page update (/Annots only)')
+            : change(false, `page changes ${changed.map((key) => `/${key}`).join(', ')}`);
+    }
+    if (dict.entries.has('Fields') && dict.entries.has('SigFlags')) {
+        return change(context.docMdp !== 1, 'AcroForm update');
+    }
+    if (nameOf(dict.entries.get('FT') ?? null) === 'Sig') {
+        return change(context.docMdp !== 1, 'signature field');
+    }
+    if (type === 'Annot') {
+        const permitted = context.docMdp === null || context.docMdp === 3;
+        return change(permitted, permitted ? 'annotation' : 'annotation not permitted by DocMDP');
+    }
+    if (num === context.infoRef) {
+        return change(true, 'document information');
+    }
+
+    return change(false, type ? `modified /${type} object` : 'modified object');
+}
+
+function nonWhitespaceLength(bytes: Buffer): number {
+    let count = 0;
+    for (const b of bytes) {
+        if (!isWhitespace(b)) {
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * Compare the revision covered by the signature against the rest of the file and
+ * classify every object added or replaced after it (PAdES allows DSS, document
+ * timestamps, further signatures with their appearances and, subject to DocMDP, annotations).
+ */
+export function checkDocumentIntegrity(pdfBuffer: Buffer, signature: PdfSignature): IntegrityReport {
+    const [, , offset2, length2] = signature.byteRange;
+    const signedLength = offset2 + length2;
+    const reader = openPdf(pdfBuffer);
+    const { revisions } = reader;
+
+    const laterIndexes = revisions.map((_, i) => i).filter((i) => revisions[i].xrefOffset >= signedLength);
+    const signedRevision = laterIndexes.length > 0 ? laterIndexes[0] - 1 : revisions.length - 1;
+    const lastEnd = laterIndexes.length > 0 ? revisions[laterIndexes[laterIndexes.length - 1]].end : signedLength;
+
+    const tail = pdfBuffer.subarray(Math.max(0, signedLength - 1024), signedLength).toString('latin1');
+    const endsAtRevisionBoundary = /%%EOF\s*$/.test(tail);
+
+    const dssRefs = new Set<number>();
+    const dss = reader.resolve(reader.catalog()?.entries.get('DSS'));
+    if (laterIndexes.length > 0 && isDict(dss)) {
+        collectDssRefs(reader, dss, dssRefs);
+    }
+
+    const appearanceRefs = new Set<number>();
+    const updatedObjects = laterIndexes.flatMap((r) => [...revisions[r].entries.keys()]);
+    collectAppearanceRefs(reader, updatedObjects, signedRevision, appearanceRefs);
+
+    const info = reader.trailer.entries.get('Info');
+    const context = {
+        signedRevision,
+        dssRefs,
+        appearanceRefs,
+        infoRef: isRef(info) ? info.num : null,
+        docMdp: readDocMdpPermissions(reader, signature),
+    };
+
+    // Latest definition of each object touched after the signed revision
+    const changed = new Map<number, TrailingChange>();
+    for (const r of laterIndexes) {
+        for (const [num, entry] of revisions[r].entries) {
+            if (num === 0) continue;
+            if (entry.type === 'free') {
+                changed.set(num, { objectNumber: num, type: null, allowed: false, reason: 'object deleted' });
+                continue;
+            }
+            changed.set(num, classifyObject(reader, num, reader.getObject(num, r), context));
+        }
+    }
+
+    const unaccountedBytes = lastEnd < pdfBuffer.length ? nonWhitespaceLength(pdfBuffer.subarray(lastEnd)) : 0;
+
+    return {
+        signatureIndex: signature.index,
+        fileLength: pdfBuffer.length,
+        signedLength,
+        coversWholeFile: signedLength === pdfBuffer.length,
+        endsAtRevisionBoundary,
+        revisionsAfter: laterIndexes.length,
+        isFinalRevision: nonWhitespaceLength(pdfBuffer.subarray(signedLength)) === 0,
+        unaccountedBytes,
+        docMdpPermissions: context.docMdp,
+        changes: [...changed.values()].sort((a, b) => a.objectNumber - b.objectNumber),
+    };
+}
+
+export function logIntegrityReport(report: IntegrityReport): void {
+    console.log(`Document integrity (signature #${report.signatureIndex}):`);
+    console.log(`  Signed bytes: 0..${report.signedLength} of ${report.fileLength}`);
+    console.log(`  Covers whole file: ${report.coversWholeFile ? 'yes' : 'no'}`);
+    if (!report.endsAtRevisionBoundary) {
+        console.log('  WARN: signed range does not end at a %%EOF marker');
+    }
+    console.log(`  Incremental updates after signing: ${report.revisionsAfter}`);
+    if (report.unaccountedBytes > 0) {
+        console.log(`  WARN: ${report.unaccountedBytes} trailing bytes are not part of any incremental update`);
+    }
+    if (report.docMdpPermissions !== null) {
+        console.log(`  DocMDP permissions: P=${report.docMdpPermissions}`);
+    }
+
+    for (const change of report.changes) {
+        const mark = change.allowed ? '✓' : '✗';
+        console.log(`    ${mark} object ${change.objectNumber}: ${change.reason}`);
+    }
+}
+
+/**
+ * Refuse to prove a signature that is not the final revision, unless the caller
+ * allows updates and every trailing change is one PAdES permits.
+ */
+export function assertDocumentIntegrity(report: IntegrityReport, allowUpdates: boolean = false): void {
+    if (report.isFinalRevision) {
+        return;
+    }
+
+    if (!allowUpdates) {
+        throw new Error(
+            `Signature #${report.signatureIndex} does not cover the final revision ` +
+                `(${report.fileLength - report.signedLength} bytes, ${report.revisionsAfter} update(s) appended after signing). ` +
+                'Pass --allow-updates to accept permitted incremental updates.',
+        );
+    }
+
+    if (report.unaccountedBytes > 0) {
+        throw new Error(`${report.unaccountedBytes} bytes appended after signing are not a valid incremental update`);
+    }
+
+    const disallowed = report.changes.filter((change) => !change.allowed);
+    if (disallowed.length > 0) {
+        const list = disallowed.map((change) => `object ${change.objectNumber} (${change.reason})`).join(', ');
+        throw new Error(`Disallowed modifications after signing: ${list}`);
+    }
+}
@@ -0,0 +1,58 @@
+// Private inputs for CA allowlists: the circuit checks the issuer's signature over the signer certificate
+import type * as pkijs from 'pkijs';
+import { parseEcdsaSignature, parseEcPublicKey } from './ec.ts';
+import { padBytes } from './utils.ts';
+
+// Keep in sync with Noir circuits (MAX_TBS_LEN)
+export const MAX_TBS_LEN = 1536;
+
+const OID_ECDSA_WITH_SHA256 = '1.2.840.10045.4.3.2';
+
+export interface IssuerWitness {
+    tbs: Uint8Array; // DER TBSCertificate of the signer certificate
+    ca_pub_key_x: Uint8Array;
+    ca_pub_key_y: Uint8Array;
+    cert_signature: Uint8Array; // issuer signature over tbs (r || s)
+}
+
+/**
+ * Collect what a CA-allowlist circuit needs to re-derive the signer key from the
+ * TBSCertificate and verify the issuer signature over it. Only P-256 issuers
+ * signing with ecdsa-with-SHA256 are supported by the circuits.
+ */
+export function buildIssuerWitness(signer: pkijs.Certificate, issuer: pkijs.Certificate): IssuerWitness {
+    const algorithm = signer.signatureAlgorithm.algorithmId;
+    if (algorithm !== OID_ECDSA_WITH_SHA256) {
+        throw new Error(`CA allowlists need an ecdsa-with-SHA256 signer certificate, got ${algorithm}`);
+    }
+
+    const caKey = parseEcPublicKey(issuer.subjectPublicKeyInfo);
+    if (caKey.curve.id !== 'p256') {
+        throw new Error(`CA allowlists need a P-256 issuer key, got ${caKey.curve.name}`);
+    }
+
+    const tbs = Buffer.from(signer.tbsView);
+    if (tbs.length > MAX_TBS_LEN) {
+        throw new Error(`Signer TBSCertificate too long: ${tbs.length} > ${MAX_TBS_LEN}`);
+    }
+
+    const { r, s } = parseEcdsaSignature(signer.signatureValue.valueBlock.valueHexView, caKey.curve);
+
+    return {
+        tbs: new Uint8Array(tbs),
+        ca_pub_key_x: new Uint8Array(caKey.x),
+        ca_pub_key_y: new Uint8Array(caKey.y),
+        cert_signature: new Uint8Array(Buffer.concat([r, s])),
+    };
+}
+
+// Noir inputs shared by the *_ca circuits; the signer key itself is read from tbs in-circuit
+export function issuerNoirInputs(witness: IssuerWitness) {
+    return {
+        tbs: Array.from(padBytes(witness.tbs, MAX_TBS_LEN)),
+        tbs_len: witness.tbs.length,
+        ca_pub_key_x: Array.from(witness.ca_pub_key_x),
+        ca_pub_key_y: Array.from(witness.ca_pub_key_y),
+        cert_signature: Array.from(witness.cert_signature),
+    };
+}
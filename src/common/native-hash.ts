@@ -0,0 +1,261 @@
+// Pure TypeScript Merkle hashes, bit-compatible with Barretenberg's pedersenHash (hash index 0) and
+// poseidon2Hash for two field elements, so trees can be built without the bb.js WASM module
+import { FIELD_MODULUS } from './constants.ts';
+
+const P = FIELD_MODULUS;
+
+function mod(value: bigint): bigint {
+    const r = value % P;
+    return r < 0n ? r + P : r;
+}
+
+function inverse(value: bigint): bigint {
+    let [t, newT, r, newR] = [0n, 1n, P, mod(value)];
+    while (newR !== 0n) {
+        const q = r / newR;
+        [t, newT] = [newT, t - q * newT];
+        [r, newR] = [newR, r - q * newR];
+    }
+    return mod(t);
+}
+
+// --- Poseidon2 over BN254, t = 4 (Barretenberg / Noir parameters) ---
+
+const POSEIDON2_WIDTH = 4;
+const POSEIDON2_FULL_ROUNDS = 8;
+const POSEIDON2_PARTIAL_ROUNDS = 56;
+
+const POSEIDON2_INTERNAL_DIAGONAL = [
+    0x10dc6e9c006ea38b04b1e03b4bd9490c0d03f98929ca1d7fb56821fd19d3b6e7n,
+    0x0c28145b6a44df3e0149b3d0a30b3bb599df9756d4dd9b84a86b38cfb45a740bn,
+    0x00544b8338791518b2c7645a50392798b21f75bb60e3596170067d00141cac15n,
+    0x222c01175718386f2e2e82eb122789e352e105a3b8fa852613bc534433ee428bn,
+];
+
+let poseidon2Constants: bigint[] | undefined;
+
+/**
+ * Round constants from the Grain LFSR of the Poseidon reference implementation:
+ * t constants for each full round, one for each partial round.
+ */
+function poseidon2RoundConstants(): bigint[] {
+    if (poseidon2Constants) {
+        return poseidon2Constants;
+    }
+
+    const bits: number[] = [];
+    const pushBits = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) {
+            bits.push((value >> i) & 1);
+        }
+    };
+    // prime field, x^alpha S-box, field size, width, full rounds, partial rounds, then ones
+    pushBits(1, 2);
+    pushBits(0, 4);
+    pushBits(254, 12);
+    pushBits(POSEIDON2_WIDTH, 12);
+    pushBits(POSEIDON2_FULL_ROUNDS, 10);
+    pushBits(POSEIDON2_PARTIAL_ROUNDS, 10);
+    pushBits(0x3fffffff, 30);
+
+    const step = () => {
+        const bit = bits[62] ^ bits[51] ^ bits[38] ^ bits[23] ^ bits[13] ^ bits[0];
+        bits.shift();
+        bits.push(bit);
+        return bit;
+    };
+    for (let i = 0; i < 160; i++) {
+        step();
+    }
+    const nextBit = () => {
+        for (;;) {
+            const keep = step();
+            const bit = step();
+            if (keep === 1) return bit;
+        }
+    };
+
+    const count = POSEIDON2_FULL_ROUNDS * POSEIDON2_WIDTH + POSEIDON2_PARTIAL_ROUNDS;
+    const constants: bigint[] = [];
+    while (constants.length < count) {
+        let value = 0n;
+        for (let i = 0; i < 254; i++) {
+            value = (value << 1n) | BigInt(nextBit());
+        }
+        if (value < P) {
+            constants.push(value);
+        }
+    }
+    poseidon2Constants = constants;
+    return constants;
+}
+
+function sbox(x: bigint): bigint {
+    const x2 = (x * x) % P;
+    return (((x2 * x2) % P) * x) % P;
+}
+
+function externalLayer([a, b, c, d]: bigint[]): bigint[] {
+    return [
+        mod(5n * a + 7n * b + c + 3n * d),
+        mod(4n * a + 6n * b + c + d),
+        mod(a + 3n * b + 5n * c + 7n * d),
+        mod(a + b + 4n * c + 6n * d),
+    ];
+}
+
+function internalLayer(state: bigint[]): bigint[] {
+    const sum = mod(state[0] + state[1] + state[2] + state[3]);
+    return state.map((x, i) => mod(x * POSEIDON2_INTERNAL_DIAGONAL[i] + sum));
+}
+
+export function poseidon2Permutation(input: bigint[]): bigint[] {
+    const constants = poseidon2RoundConstants();
+    const halfFull = POSEIDON2_FULL_ROUNDS / 2;
+    let next = 0;
+    let state = externalLayer(input);
+
+    const fullRound = () => {
+        state = externalLayer(state.map((x) => sbox(mod(x + constants[next++]))));
+    };
+    for (let round = 0; round < halfFull; round++) {
+        fullRound();
+    }
+    for (let round = 0; round < POSEIDON2_PARTIAL_ROUNDS; round++) {
+        state[0] = sbox(mod(state[0] + constants[next++]));
+        state = internalLayer(state);
+    }
+    for (let round = 0; round < halfFull; round++) {
+        fullRound();
+    }
+    return state;
+}
+
+// Barretenberg's sponge for two inputs: rate 3, capacity element initialised with the input count << 64
+export function poseidon2HashPair(left: bigint, right: bigint): bigint {
+    return poseidon2Permutation([mod(left), mod(right), 0n, 2n << 64n])[0];
+}
+
+// --- Pedersen over Grumpkin (y^2 = x^3 - 17 over the BN254 scalar field) ---
+
+interface AffinePoint {
+    x: bigint;
+    y: bigint;
+}
+
+// Jacobian coordinates; z = 0 is the point at infinity
+interface JacobianPoint {
+    x: bigint;
+    y: bigint;
+    z: bigint;
+}
+
+// Generators of the default domain separator, and the length generator (as in the Noir standard library)
+const PEDERSEN_GENERATORS: AffinePoint[] = [
+    {
+        x: 0x083e7911d835097629f0067531fc15cafd79a89beecb39903f69572c636f4a5an,
+        y: 0x1a7f5efaad7f315c25a918f30cc8d7333fccab7ad7c90f14de81bcc528f9935dn,
+    },
+    {
+        x: 0x054aa86a73cb8a34525e5bbed6e43ba1198e860f5f3950268f71df4591bde402n,
+        y: 0x209dcfbf2cfb57f9f6046f44d71ac6faf87254afc7407c04eb621a6287cac126n,
+    },
+];
+const PEDERSEN_LENGTH_GENERATOR: AffinePoint = {
+    x: 0x2df8b940e5890e4e1377e05373fae69a1d754f6935e6a780b666947431f2cdcdn,
+    y: 0x2ecd88d15967bc53b885912e0d16866154acb6aac2d3f85e27ca7eefb2c19083n,
+};
+
+const WINDOW_BITS = 4;
+const WINDOW_COUNT = Math.ceil(254 / WINDOW_BITS);
+
+let pedersenTables: AffinePoint[][][] | undefined;
+
+function affineAdd(a: AffinePoint, b: AffinePoint): AffinePoint {
+    const lambda = a.x === b.x ? mod(3n * a.x * a.x * inverse(2n * a.y)) : mod((b.y - a.y) * inverse(b.x - a.x));
+    const x = mod(lambda * lambda - a.x - b.x);
+    return { x, y: mod(lambda * (a.x - x) - a.y) };
+}
+
+function jacobianDouble(p: JacobianPoint): JacobianPoint {
+    if (p.z === 0n || p.y === 0n) {
+        return { x: 0n, y: 1n, z: 0n };
+    }
+    const a = (p.x * p.x) % P;
+    const b = (p.y * p.y) % P;
+    const c = (b * b) % P;
+    const d = mod(2n * ((p.x + b) ** 2n - a - c));
+    const e = (3n * a) % P;
+    const x = mod(e * e - 2n * d);
+    return { x, y: mod(e * (d - x) - 8n * c), z: (2n * p.y * p.z) % P };
+}
+
+function jacobianAddAffine(p: JacobianPoint, q: AffinePoint): JacobianPoint {
+    if (p.z === 0n) {
+        return { ...q, z: 1n };
+    }
+    const z1z1 = (p.z * p.z) % P;
+    const u2 = (q.x * z1z1) % P;
+    const s2 = (((q.y * p.z) % P) * z1z1) % P;
+    const h = mod(u2 - p.x);
+    const r = mod(2n * (s2 - p.y));
+    if (h === 0n) {
+        return r === 0n ? jacobianDouble(p) : { x: 0n, y: 1n, z: 0n };
+    }
+    const hh = (h * h) % P;
+    const i = (4n * hh) % P;
+    const j = (h * i) % P;
+    const v = (p.x * i) % P;
+    const x = mod(r * r - j - 2n * v);
+    return {
+        x,
+        y: mod(r * (v - x) - 2n * p.y * j),
+        z: mod((p.z + h) ** 2n - z1z1 - hh),
+    };
+}
+
+// Fixed-base tables: tables[g][w][k - 1] = k * 16^w * G_g
+function generatorTables(): AffinePoint[][][] {
+    if (!pedersenTables) {
+        pedersenTables = PEDERSEN_GENERATORS.map((generator) => {
+            const windows: AffinePoint[][] = [];
+            let base = generator;
+            for (let w = 0; w < WINDOW_COUNT; w++) {
+                const multiples = [base];
+                for (let k = 1; k < 2 ** WINDOW_BITS - 1; k++) {
+                    multiples.push(affineAdd(multiples[k - 1], base));
+                }
+                windows.push(multiples);
+                base = affineAdd(multiples.at(-1) as AffinePoint, base);
+            }
+            return windows;
+        });
+    }
+    return pedersenTables;
+}
+
+let twoInputLengthTerm: AffinePoint | undefined;
+
+// x coordinate of 2 * H_len + left * G_0 + right * G_1
+export function pedersenHashPair(left: bigint, right: bigint): bigint {
+    const tables = generatorTables();
+    twoInputLengthTerm ??= affineAdd(PEDERSEN_LENGTH_GENERATOR, PEDERSEN_LENGTH_GENERATOR);
+
+    let acc = jacobianAddAffine({ x: 0n, y: 1n, z: 0n }, twoInputLengthTerm);
+    for (const [g, input] of [mod(left), mod(right)].entries()) {
+        let scalar = input;
+        for (let w = 0; scalar > 0n; w++) {
+            const k = Number(scalar & 0xfn);
+            if (k !== 0) {
+                acc = jacobianAddAffine(acc, tables[g][w][k - 1]);
+            }
+            scalar >>= BigInt(WINDOW_BITS);
+        }
+    }
+
+    if (acc.z === 0n) {
+        return 0n;
+    }
+    const zInv = inverse(acc.z);
+    return (acc.x * zInv * zInv) % P;
+}
@@ -1,23 +1,100 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import type { Barretenberg, UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
+import type { UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
 import { getByteRangeHash } from './byte-range.ts';
-import { createMerkleTreeFromAllowlist } from './tree.ts';
+import { describeSignerIdentifier, parseSignedData, selectCmsSigner } from './cms.ts';
+import { type DigestAlgorithm, signerDigestAlgorithm } from './digest.ts';
+import {
+    assertSigningCertificate,
+    checkSigningCertificate,
+    logSigningCertificate,
+    type SigningCertificateBinding,
+} from './ess.ts';
+import { createMerkleTreeFromAllowlist, DEFAULT_TREE_DEPTH } from './tree.ts';
 import { sha256 } from './utils.ts';
 import { FIELD_MODULUS } from './constants.ts';
-import { buildAllowlistFromCertificates, writeAllowlistFile } from './allowlist.ts';
+import {
+    type AllowlistKind,
+    assertAllowlistMatches,
+    buildAllowlistFromCertificates,
+    extractPublicKeyFingerprintBytes,
+    parseAllowlistKind,
+    readAllowlistFile,
+    writeAllowlistFile,
+} from './allowlist.ts';
+import { buildIssuerWitness, type IssuerWitness } from './issuer.ts';
+import {
+    proveNonRevocation,
+    readRevocationList,
+    type RevocationOptions,
+    type RevocationWitness,
+} from './revocation.ts';
+import { formatUnixTime, proveSigningTime, type SigningTimeOptions, type SigningTimeWitness } from './signing-time.ts';
+import {
+    assertSignatureTimestamp,
+    checkSignatureTimestamp,
+    logSignatureTimestamp,
+    type SignatureTimestamp,
+} from './timestamp.ts';
+import type { TrustedListSource } from './trusted-list.ts';
 import type { ProofResult } from './runner.ts';
+import { findSignatures, formatName, selectSignature, type PdfSignature } from './signatures.ts';
+import { comparePublicInputs, decodePublicInputs, formatPublicInput, getPublicInputLayout } from './public-inputs.ts';
+import { assertDocumentIntegrity, checkDocumentIntegrity, logIntegrityReport } from './integrity.ts';
+import { logDocumentSecurityStore, type PadesLevel, padesLevel, readDss, withDssValidationData } from './dss.ts';
+import {
+    assertChainValidation,
+    type ChainOptions,
+    type ChainValidationResult,
+    findSignerIssuer,
+    loadCertificateStore,
+    logChainValidation,
+    parseCertificate,
+    redactChainValidation,
+    validateSignerChain,
+} from './chain.ts';
 
 export interface CommonPreparationResult {
+    digest_algorithm: DigestAlgorithm;
     doc_hash: Uint8Array;
     signed_attrs_hash: Uint8Array;
     signed_attrs_der: Uint8Array;
     certificate: Buffer;
-    signer_fpr_hex: string;
+    certificate_chain: ChainValidationResult;
+    signing_certificate: SigningCertificateBinding; // ESS attribute naming the certificate, or status 'missing'
+    allowlist_kind: AllowlistKind;
+    trusted_lists?: TrustedListSource[]; // Trusted List versions the allowlist was imported from
+    issuer?: IssuerWitness; // CA allowlists only
+    signer_fpr_hex: string; // allowlist leaf: signer key, or issuer key for CA allowlists
     signer_fpr: string;
     tl_root: string;
+    tree_depth: number; // selects the circuit variant, see treeDepthCircuitSuffix
     merkle_path: string[];
     index: string;
+    revocation?: RevocationWitness; // non-membership of the signer key in the revocation list
+    signing_time?: SigningTimeWitness; // public bounds on the signingTime attribute
+    signature_timestamp: SignatureTimestamp | null; // RFC 3161 token of a PAdES B-T signature
+    pades_level: PadesLevel; // B-B .. B-LTA, from timestamps and the DSS
+}
+
+export interface SignatureOptions {
+    signature?: string; // signature index or field name
+    signerInfo?: number; // SignerInfo index within the signature's CMS SignedData
+    allowUpdates?: boolean; // accept permitted incremental updates after the signed revision
+}
+
+// How much of the signer's identity is written to manifest.json
+export type ManifestPrivacy = 'full' | 'fingerprint' | 'none';
+
+export const DEFAULT_MANIFEST_PRIVACY: ManifestPrivacy = 'none';
+
+// Fiat-Shamir transcript hash; keccak proofs can be checked by the exported Solidity verifier
+export type OracleHash = 'poseidon' | 'keccak';
+
+export interface ProofOptions {
+    circuit: string; // circuit directory name, recorded in the manifest
+    privacy: ManifestPrivacy;
+    oracleHash: OracleHash;
 }
 
 // Keep in sync with Noir circuits (MAX_SIGNED_ATTRS_LEN)
@@ -37,11 +114,30 @@ export async function prepareCommon<Extra extends object>(args: {
     mode: string;
     isDump: boolean;
     outDir: string;
-    bbApi?: Barretenberg;
+    signatureOptions?: SignatureOptions;
+    chainOptions?: ChainOptions;
+    revocationOptions?: RevocationOptions;
+    signingTimeOptions?: SigningTimeOptions;
     extractLabel?: string;
-    extract: (pdfBuffer: Buffer, outDir: string, isDump: boolean) => Promise<ExtractedData<Extra>>;
+    extract: (
+        signature: PdfSignature,
+        outDir: string,
+        isDump: boolean,
+        signerIndex: number,
+    ) => Promise<ExtractedData<Extra>>;
 }): Promise<CommonPreparationResult & Extra> {
-    const { pdfPath, mode, isDump, outDir, bbApi, extractLabel, extract } = args;
+    const {
+        pdfPath,
+        mode,
+        isDump,
+        outDir,
+        signatureOptions = {},
+        chainOptions = {},
+        revocationOptions = {},
+        signingTimeOptions = {},
+        extractLabel,
+        extract,
+    } = args;
 
     console.log('=== PDF Preparation Phase ===\n');
 
@@ -73,16 +169,67 @@ export async function prepareCommon<Extra extends object>(args: {
         fs.mkdirSync(outDir, { recursive: true });
     }
 
-    console.log('[1/5] Computing document hash (ByteRange)...');
-    const byteRangeHash = await getByteRangeHash(pdfBuffer, isDump, outDir);
+    const signatures = findSignatures(pdfBuffer);
+    const signature = selectSignature(signatures, signatureOptions.signature);
+    console.log(`Using signature #${signature.index} (${signature.fieldName ?? 'unnamed field'})`);
+
+    const cmsSigner = selectCmsSigner(parseSignedData(signature.contents), signatureOptions.signerInfo);
+    const sid = describeSignerIdentifier(cmsSigner.signerInfo);
+    console.log(
+        `Using SignerInfo #${cmsSigner.index} of ${cmsSigner.count}: ${formatName(cmsSigner.certificate.subject)} (${sid})\n`,
+    );
+
+    const digestAlgorithm = signerDigestAlgorithm(cmsSigner.signerInfo);
+
+    console.log(`[1/7] Computing document hash (ByteRange, ${digestAlgorithm})...`);
+    const byteRangeHash = await getByteRangeHash(pdfBuffer, signature, isDump, outDir, digestAlgorithm);
     const doc_hash = new Uint8Array(Buffer.from(byteRangeHash, 'hex'));
 
+    console.log('');
+    const integrity = checkDocumentIntegrity(pdfBuffer, signature);
+    logIntegrityReport(integrity);
+    assertDocumentIntegrity(integrity, signatureOptions.allowUpdates);
+
     const label = extractLabel ? ` (${extractLabel})` : '';
-    console.log(`\n[2/5] Extracting signature and certificate${label}...`);
-    const extracted = await extract(pdfBuffer, outDir, isDump);
+    console.log(`\n[2/7] Extracting signature and certificate${label}...`);
+    const extracted = await extract(signature, outDir, isDump, cmsSigner.index);
+    const signingCertificate = checkSigningCertificate(cmsSigner.signerInfo, extracted.certificate);
+    logSigningCertificate(signingCertificate);
+    assertSigningCertificate(signingCertificate);
+    const signingTime = proveSigningTime(cmsSigner.signerInfo, signingTimeOptions);
+    if (signingTime) {
+        const { signed_after, signed_before } = signingTime;
+        console.log(`  ✓ signingTime within ${formatUnixTime(signed_after)} .. ${formatUnixTime(signed_before)}`);
+    }
+    const dss = readDss(pdfBuffer);
+    const store = withDssValidationData(loadCertificateStore(chainOptions.caStorePaths ?? []), dss);
+    const signatureTimestamp = await checkSignatureTimestamp(cmsSigner.signerInfo, store);
+    logSignatureTimestamp(signatureTimestamp);
+    assertSignatureTimestamp(signatureTimestamp);
+    const baselineLevel = padesLevel(pdfBuffer, signature, signatures, signatureTimestamp !== null);
+    console.log(`  PAdES level: ${baselineLevel}`);
+    logDocumentSecurityStore(dss);
+
+    console.log('\n[3/7] Validating certificate chain...');
+    const certificateChain = await validateSignerChain(signature, extracted.certificate, store, cmsSigner.index);
+    logChainValidation(certificateChain);
+    assertChainValidation(certificateChain, chainOptions.allowInvalidChain);
+
+    const allowlist = readAllowlistFile(allowlistPath);
+    const allowlistKind = parseAllowlistKind(allowlist.kind);
+    const leafLabel = allowlistKind === 'ca' ? 'Issuer CA' : 'Signer';
+
+    let leafKeyBytes = extracted.publicKeyFingerprintBytes;
+    let issuer: IssuerWitness | undefined;
+    if (allowlistKind === 'ca') {
+        const issuerCert = await findSignerIssuer(signature, extracted.certificate, store);
+        issuer = buildIssuerWitness(parseCertificate(extracted.certificate), issuerCert);
+        leafKeyBytes = Buffer.from(extractPublicKeyFingerprintBytes(new Uint8Array(issuerCert.toSchema().toBER())));
+        console.log(`  Issuer: ${formatName(issuerCert.subject)}`);
+    }
 
-    console.log('\n[3/5] Computing signer fingerprint...');
-    const signer_fpr_bytes = sha256(extracted.publicKeyFingerprintBytes);
+    console.log(`\n[4/7] Computing ${leafLabel.toLowerCase()} fingerprint...`);
+    const signer_fpr_bytes = sha256(leafKeyBytes);
     const signer_fpr_hex = Buffer.from(signer_fpr_bytes).toString('hex');
     const signer_fpr_raw = BigInt(`0x${signer_fpr_hex}`);
     const signer_fpr = (signer_fpr_raw % FIELD_MODULUS).toString();
@@ -90,18 +237,27 @@ export async function prepareCommon<Extra extends object>(args: {
     console.log(`  Fingerprint (hex): ${signer_fpr_hex}`);
     console.log(`  Fingerprint (decimal): ${signer_fpr}`);
 
-    console.log('\n[4/5] Building Merkle tree from allowlist...');
-    const allowlist = JSON.parse(fs.readFileSync(allowlistPath, 'utf-8'));
-    const { root, proofs } = await createMerkleTreeFromAllowlist(allowlist, outDir, mode, isDump, bbApi);
+    console.log(`\n[5/7] Building Merkle tree from ${allowlistKind} allowlist...`);
+    if (allowlist.version !== undefined) {
+        const { version, jurisdiction, created_at } = allowlist;
+        const details = [jurisdiction && `jurisdiction ${jurisdiction}`, created_at && `created ${created_at}`];
+        console.log(`  Allowlist v${version} ${details.filter(Boolean).join(', ')}`.trimEnd());
+    }
+    for (const source of allowlist.trusted_lists ?? []) {
+        const { territory, type, sequence_number, issue_date } = source;
+        console.log(`  Source: ${territory} ${type.toUpperCase()} #${sequence_number} (${issue_date})`);
+    }
+    const { root, depth, proofs } = await createMerkleTreeFromAllowlist(allowlist, outDir, mode, isDump);
+    assertAllowlistMatches(allowlist, mode, { root, depth });
 
-    console.log('\n[5/5] Loading Merkle proof for signer...');
+    console.log(`\n[6/7] Loading Merkle proof for ${leafLabel.toLowerCase()}...`);
     const signerProof = proofs.find((p) => p.fingerprint === signer_fpr_hex);
 
     if (!signerProof) {
-        throw new Error(`Signer not found in allowlist! Fingerprint: ${signer_fpr_hex}`);
+        throw new Error(`${leafLabel} not found in allowlist! Fingerprint: ${signer_fpr_hex}`);
     }
 
-    console.log(`  ✓ Signer found in allowlist (index ${signerProof.index})`);
+    console.log(`  ✓ ${leafLabel} found in allowlist (index ${signerProof.index})`);
     console.log('  ✓ Merkle proof loaded');
 
     if (isDump) {
@@ -112,23 +268,49 @@ export async function prepareCommon<Extra extends object>(args: {
         fs.writeFileSync(path.join(pathsPoseidonDir, `${signer_fpr_hex}.json`), JSON.stringify(signerProof, null, 2));
     }
 
+    console.log('\n[7/7] Checking revocation list...');
+    let revocation: RevocationWitness | undefined;
+    if (revocationOptions.revocationListPath) {
+        const revocationList = readRevocationList(revocationOptions.revocationListPath);
+        for (const crl of revocationList.crls) {
+            const verified = crl.signature_verified ? '' : ', signature not verified';
+            console.log(`  CRL: ${crl.issuer} (${crl.this_update}${verified})`);
+        }
+        const signerKeyFpr = Buffer.from(sha256(extracted.publicKeyFingerprintBytes)).toString('hex');
+        revocation = await proveNonRevocation(revocationList, signerKeyFpr, mode);
+        console.log(`  ✓ Signer key not among ${revocationList.revoked.length} revoked keys (root ${revocation.root})`);
+    } else {
+        console.log('  No revocation list given; revocation is not proven');
+    }
+
     const { signedAttrsHash, signedAttrsDer, certificate, ...rest } = extracted;
 
     return {
+        digest_algorithm: digestAlgorithm,
         doc_hash,
         signed_attrs_hash: new Uint8Array(signedAttrsHash),
         signed_attrs_der: new Uint8Array(signedAttrsDer),
         certificate,
+        certificate_chain: certificateChain,
+        signing_certificate: signingCertificate,
+        allowlist_kind: allowlistKind,
+        trusted_lists: allowlist.trusted_lists,
+        issuer,
         signer_fpr_hex,
         signer_fpr,
         tl_root: root,
+        tree_depth: depth,
         merkle_path: signerProof.merkle_path_decimal,
         index: signerProof.index.toString(),
+        revocation,
+        signing_time: signingTime,
+        signature_timestamp: signatureTimestamp,
+        pades_level: baselineLevel,
         ...rest,
-};
+    };
 }
 
-export function padMerklePath(merklePath: string[], depth = 8): string[] {
+export function padMerklePath(merklePath: string[], depth = DEFAULT_TREE_DEPTH): string[] {
     const padded = [...merklePath];
     while (padded.length < depth) {
         padded.push('0');
@@ -136,13 +318,56 @@ export function padMerklePath(merklePath: string[], depth = 8): string[] {
     return padded;
 }
 
-export function padBytes(bytes: Uint8Array, length: number): Uint8Array {
-    if (bytes.length > length) {
-        throw new Error(`Byte array too long: ${bytes.length} > ${length}`);
+export function parseManifestPrivacy(value?: string): ManifestPrivacy {
+    if (value === undefined) {
+        return DEFAULT_MANIFEST_PRIVACY;
+    }
+    if (value === 'full' || value === 'fingerprint' || value === 'none') {
+        return value;
+    }
+    throw new Error(`Unknown privacy level "${value}" (expected full, fingerprint or none)`);
+}
+
+/**
+ * Reduce the signer block to what the privacy level allows. Even the fingerprint
+ * identifies the signer to anyone holding the allowlist, so 'none' omits it.
+ */
+export function redactSigner<Signer extends { fingerprint: string }>(
+    signer: Signer,
+    privacy: ManifestPrivacy,
+): Signer | Pick<Signer, 'fingerprint'> | undefined {
+    switch (privacy) {
+        case 'full':
+            return signer;
+        case 'fingerprint':
+            return { fingerprint: signer.fingerprint };
+        case 'none':
+            return undefined;
     }
-    const padded = new Uint8Array(length);
-    padded.set(bytes, 0);
-    return padded;
+}
+
+export type ManifestValidation = {
+    certificate_chain: ChainValidationResult | Pick<ChainValidationResult, 'valid'>;
+    signing_certificate?: SigningCertificateBinding;
+    allowlist_kind?: AllowlistKind;
+    trusted_lists?: TrustedListSource[];
+};
+
+/**
+ * What the prover checked off-chain. None of it is a public input of the proof,
+ * so below 'full' privacy the manifest only keeps the chain verdict.
+ */
+export function redactValidation(prep: CommonPreparationResult, privacy: ManifestPrivacy): ManifestValidation {
+    const certificate_chain = redactChainValidation(prep.certificate_chain, privacy);
+    if (privacy !== 'full') {
+        return { certificate_chain };
+    }
+    const { signing_certificate, allowlist_kind, trusted_lists } = prep;
+    return { certificate_chain, signing_certificate, allowlist_kind, trusted_lists };
+}
+
+export function oracleHashOptions(oracleHash?: OracleHash): { keccak?: boolean } {
+    return oracleHash === 'keccak' ? { keccak: true } : {};
 }
 
 export function writeProofArtifacts<Manifest>(args: {
@@ -183,7 +408,10 @@ export function writeProofArtifacts<Manifest>(args: {
     console.log(`  Manifest: ${manifestPath}`);
 }
 
-export async function verifyProofCommon<Manifest extends { tl_root: string }, Proof extends ProofResult<Manifest>>(
+export async function verifyProofCommon<
+    Manifest extends { tl_root: string; circuit?: string; oracle_hash?: OracleHash },
+    Proof extends ProofResult<Manifest>,
+>(
     proofResult: Proof,
     backend: BarretenbergBackend,
     expectedTlRoot: string | undefined,
@@ -195,14 +423,25 @@ export async function verifyProofCommon<Manifest extends { tl_root: string }, Pr
     const manifest = proofResult.manifest;
     logManifest(manifest);
 
+    console.log('\n[2/3] Checking manifest against public inputs...');
+    const decoded = decodePublicInputs(proofResult.publicInputs, getPublicInputLayout(manifest.circuit));
+    const mismatches = comparePublicInputs(manifest, decoded);
+    if (mismatches.length > 0) {
+        for (const mismatch of mismatches) {
+            console.error(`  ✗ ${mismatch}`);
+        }
+        return false;
+    }
+    console.log('  ✓ Manifest matches public inputs');
+
     if (expectedTlRoot) {
-        console.log('\n[2/3] Verifying trust list membership...');
-        if (expectedTlRoot === manifest.tl_root) {
+        const provenRoot = formatPublicInput(decoded.tl_root);
+        if (expectedTlRoot === provenRoot) {
             console.log('  ✓ Trust list root matches');
         } else {
             console.error('  ✗ Trust list root mismatch!');
             console.error(`    Expected: ${expectedTlRoot}`);
-            console.error(`    Got: ${manifest.tl_root}`);
+            console.error(`    Got: ${provenRoot}`);
             return false;
         }
     }
@@ -210,10 +449,13 @@ export async function verifyProofCommon<Manifest extends { tl_root: string }, Pr
     console.log('\n[3/3] Verifying zero-knowledge proof...');
 
     try {
-        const isValid = await backend.verifyProof({
-            proof: proofResult.proof,
-            publicInputs: proofResult.publicInputs,
-        });
+        const isValid = await backend.verifyProof(
+            {
+                proof: proofResult.proof,
+                publicInputs: proofResult.publicInputs,
+            },
+            oracleHashOptions(manifest.oracle_hash),
+        );
 
         if (isValid) {
             console.log('  ✓ ZK proof verified.');
@@ -0,0 +1,846 @@
+import zlib from 'node:zlib';
+
+// Minimal PDF object reader: xref tables, xref streams, object streams and
+// indirect object resolution. Enough to locate signature dictionaries without
+// scanning the file as text.
+
+export interface PdfName {
+    kind: 'name';
+    value: string;
+}
+
+export interface PdfString {
+    kind: 'string';
+    bytes: Buffer;
+    hex: boolean;
+    // [start, end) of the token in the PDF file; null for objects inside object streams
+    offset: [number, number] | null;
+}
+
+export interface PdfRef {
+    kind: 'ref';
+    num: number;
+    gen: number;
+}
+
+export interface PdfDict {
+    kind: 'dict';
+    entries: Map<string, PdfObject>;
+}
+
+export interface PdfStream {
+    kind: 'stream';
+    dict: PdfDict;
+    raw: Buffer;
+}
+
+export type PdfObject = null | boolean | number | PdfName | PdfString | PdfRef | PdfDict | PdfStream | PdfObject[];
+
+export type XrefEntry =
+    | { type: 'free' }
+    | { type: 'offset'; offset: number; gen: number }
+    | { type: 'compressed'; stream: number; index: number };
+
+export interface PdfRevision {
+    xrefOffset: number;
+    end: number; // offset just past this revision's %%EOF line
+    trailer: PdfDict;
+    entries: Map<number, XrefEntry>;
+}
+
+export interface PdfReader {
+    buffer: Buffer;
+    trailer: PdfDict;
+    revisions: PdfRevision[]; // oldest first
+    getObject(num: number, revision?: number): PdfObject;
+    resolve(value: PdfObject | undefined, revision?: number): PdfObject;
+    catalog(): PdfDict | null;
+}
+
+interface ParseContext {
+    buf: Buffer;
+    inFile: boolean;
+    resolveLength?: (ref: PdfRef) => number | null;
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+export function isWhitespace(b: number): boolean {
+    return WHITESPACE.has(b);
+}
+
+function isRegular(b: number): boolean {
+    return !WHITESPACE.has(b) && !DELIMITERS.has(b);
+}
+
+function isDigit(b: number): boolean {
+    return b >= 0x30 && b <= 0x39;
+}
+
+function skipWhitespace(buf: Buffer, pos: number): number {
+    let p = pos;
+    while (p < buf.length) {
+        if (WHITESPACE.has(buf[p])) {
+            p++;
+        } else if (buf[p] === 0x25) {
+            // comment runs to end of line
+            while (p < buf.length && buf[p] !== 0x0a && buf[p] !== 0x0d) {
+                p++;
+            }
+        } else {
+            break;
+        }
+    }
+    return p;
+}
+
+function readKeyword(buf: Buffer, pos: number): [string, number] {
+    let p = pos;
+    while (p < buf.length && isRegular(buf[p])) {
+        p++;
+    }
+    return [buf.toString('latin1', pos, p), p];
+}
+
+function readUnsigned(buf: Buffer, pos: number): [number, number] | null {
+    let p = pos;
+    while (p < buf.length && isDigit(buf[p])) {
+        p++;
+    }
+    if (p === pos || (p < buf.length && isRegular(buf[p]))) {
+        return null;
+    }
+    return [parseInt(buf.toString('latin1', pos, p), 10), p];
+}
+
+function parseName(buf: Buffer, pos: number): [PdfName, number] {
+    let p = pos + 1;
+    const bytes: number[] = [];
+    while (p < buf.length && isRegular(buf[p])) {
+        if (buf[p] === 0x23 && p + 2 < buf.length) {
+            bytes.push(parseInt(buf.toString('latin1', p + 1, p + 3), 16));
+            p += 3;
+        } else {
+            bytes.push(buf[p]);
+            p++;
+        }
+    }
+    return [{ kind: 'name', value: Buffer.from(bytes).toString('latin1') }, p];
+}
+
+const ESCAPES: Record<string, number> = {
+    n: 0x0a,
+    r: 0x0d,
+    t: 0x09,
+    b: 0x08,
+    f: 0x0c,
+};
+
+function parseLiteralString(ctx: ParseContext, pos: number): [PdfString, number] {
+    const { buf } = ctx;
+    const bytes: number[] = [];
+    let depth = 1;
+    let p = pos + 1;
+
+    while (p < buf.length && depth > 0) {
+        const b = buf[p];
+        if (b === 0x5c) {
+            const next = buf[p + 1];
+            const escaped = ESCAPES[String.fromCharCode(next)];
+            if (escaped !== undefined) {
+                bytes.push(escaped);
+                p += 2;
+            } else if (next >= 0x30 && next <= 0x37) {
+                let q = p + 1;
+                let value = 0;
+                while (q < p + 4 && buf[q] >= 0x30 && buf[q] <= 0x37) {
+                    value = value * 8 + (buf[q] - 0x30);
+                    q++;
+                }
+                bytes.push(value & 0xff);
+                p = q;
+            } else if (next === 0x0d || next === 0x0a) {
+                // line continuation
+                p += next === 0x0d && buf[p + 2] === 0x0a ? 3 : 2;
+            } else {
+                bytes.push(next);
+                p += 2;
+            }
+            continue;
+        }
+        if (b === 0x28) {
+            depth++;
+        } else if (b === 0x29) {
+            depth--;
+            if (depth === 0) {
+                p++;
+                break;
+            }
+        }
+        bytes.push(b);
+        p++;
+    }
+
+    if (depth !== 0) {
+        throw new Error(`Unterminated string at offset ${pos}`);
+    }
+
+    return [{ kind: 'string', bytes: Buffer.from(bytes), hex: false, offset: ctx.inFile ? [pos, p] : null }, p];
+}
+
+function parseHexString(ctx: ParseContext, pos: number): [PdfString, number] {
+    const { buf } = ctx;
+    const end = buf.indexOf(0x3e, pos + 1);
+    if (end === -1) {
+        throw new Error(`Unterminated hex string at offset ${pos}`);
+    }
+
+    let hex = '';
+    for (let p = pos + 1; p < end; p++) {
+        if (!WHITESPACE.has(buf[p])) {
+            hex += String.fromCharCode(buf[p]);
+        }
+    }
+    if (!/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new Error(`Invalid hex string at offset ${pos}`);
+    }
+    if (hex.length % 2 === 1) {
+        hex += '0';
+    }
+
+    const bytes = Buffer.from(hex, 'hex');
+    return [{ kind: 'string', bytes, hex: true, offset: ctx.inFile ? [pos, end + 1] : null }, end + 1];
+}
+
+function parseNumberOrRef(ctx: ParseContext, pos: number): [PdfObject, number] {
+    const { buf } = ctx;
+    let p = pos;
+    if (buf[p] === 0x2b || buf[p] === 0x2d) {
+        p++;
+    }
+    while (p < buf.length && (isDigit(buf[p]) || buf[p] === 0x2e)) {
+        p++;
+    }
+    const text = buf.toString('latin1', pos, p);
+    const value = Number(text);
+    if (Number.isNaN(value)) {
+        throw new Error(`Invalid number "${text}" at offset ${pos}`);
+    }
+
+    // `num gen R` reference lookahead
+    if (/^\d+$/.test(text)) {
+        const genStart = skipWhitespace(buf, p);
+        const gen = readUnsigned(buf, genStart);
+        if (gen && genStart > p) {
+            const rStart = skipWhitespace(buf, gen[1]);
+            if (rStart > gen[1] && buf[rStart] === 0x52 && (rStart + 1 >= buf.length || !isRegular(buf[rStart + 1]))) {
+                return [{ kind: 'ref', num: value, gen: gen[0] }, rStart + 1];
+            }
+        }
+    }
+
+    return [value, p];
+}
+
+function parseValue(ctx: ParseContext, pos: number): [PdfObject, number] {
+    const { buf } = ctx;
+    const p = skipWhitespace(buf, pos);
+    if (p >= buf.length) {
+        throw new Error('Unexpected end of PDF data');
+    }
+
+    const b = buf[p];
+    if (b === 0x2f) {
+        return parseName(buf, p);
+    }
+    if (b === 0x28) {
+        return parseLiteralString(ctx, p);
+    }
+    if (b === 0x3c) {
+        return buf[p + 1] === 0x3c ? parseDict(ctx, p) : parseHexString(ctx, p);
+    }
+    if (b === 0x5b) {
+        const items: PdfObject[] = [];
+        let q = skipWhitespace(buf, p + 1);
+        while (buf[q] !== 0x5d) {
+            if (q >= buf.length) {
+                throw new Error(`Unterminated array at offset ${p}`);
+            }
+            const [item, next] = parseValue(ctx, q);
+            items.push(item);
+            q = skipWhitespace(buf, next);
+        }
+        return [items, q + 1];
+    }
+    if (isDigit(b) || b === 0x2b || b === 0x2d || b === 0x2e) {
+        return parseNumberOrRef(ctx, p);
+    }
+
+    const [keyword, next] = readKeyword(buf, p);
+    switch (keyword) {
+        case 'true':
+            return [true, next];
+        case 'false':
+            return [false, next];
+        case 'null':
+            return [null, next];
+        default:
+            throw new Error(`Unexpected token "${keyword || String.fromCharCode(b)}" at offset ${p}`);
+    }
+}
+
+function parseDict(ctx: ParseContext, pos: number): [PdfDict, number] {
+    const { buf } = ctx;
+    const entries = new Map<string, PdfObject>();
+    let p = skipWhitespace(buf, pos + 2);
+
+    while (!(buf[p] === 0x3e && buf[p + 1] === 0x3e)) {
+        if (p >= buf.length) {
+            throw new Error(`Unterminated dictionary at offset ${pos}`);
+        }
+        if (buf[p] !== 0x2f) {
+            throw new Error(`Expected name key in dictionary at offset ${p}`);
+        }
+        const [key, afterKey] = parseName(buf, p);
+        const [value, afterValue] = parseValue(ctx, afterKey);
+        entries.set(key.value, value);
+        p = skipWhitespace(buf, afterValue);
+    }
+
+    return [{ kind: 'dict', entries }, p + 2];
+}
+
+function streamDataStart(buf: Buffer, pos: number): number {
+    // `stream` is followed by CRLF or LF (a lone CR is tolerated)
+    if (buf[pos] === 0x0d && buf[pos + 1] === 0x0a) {
+        return pos + 2;
+    }
+    if (buf[pos] === 0x0a || buf[pos] === 0x0d) {
+        return pos + 1;
+    }
+    return pos;
+}
+
+function parseIndirectObject(ctx: ParseContext, offset: number, expectedNum?: number): PdfObject {
+    const { buf } = ctx;
+    let p = skipWhitespace(buf, offset);
+
+    const num = readUnsigned(buf, p);
+    const gen = num ? readUnsigned(buf, skipWhitespace(buf, num[1])) : null;
+    if (!num || !gen) {
+        throw new Error(`Expected indirect object at offset ${offset}`);
+    }
+    if (expectedNum !== undefined && num[0] !== expectedNum) {
+        throw new Error(`Expected object ${expectedNum} at offset ${offset}, found ${num[0]}`);
+    }
+
+    p = skipWhitespace(buf, gen[1]);
+    const [objKeyword, afterObj] = readKeyword(buf, p);
+    if (objKeyword !== 'obj') {
+        throw new Error(`Expected "obj" at offset ${p}`);
+    }
+
+    const [value, afterValue] = parseValue(ctx, afterObj);
+    p = skipWhitespace(buf, afterValue);
+
+    const [keyword, afterKeyword] = readKeyword(buf, p);
+    if (keyword !== 'stream' || !isDict(value)) {
+        return value;
+    }
+
+    const dataStart = streamDataStart(buf, afterKeyword);
+    const lengthValue = value.entries.get('Length');
+    let length: number | null = typeof lengthValue === 'number' ? lengthValue : null;
+    if (isRef(lengthValue) && ctx.resolveLength) {
+        length = ctx.resolveLength(lengthValue);
+    }
+
+    const declaredEnd = length !== null ? dataStart + length : -1;
+    const endstreamAt =
+        declaredEnd >= 0 && buf.indexOf('endstream', declaredEnd, 'latin1') === skipWhitespace(buf, declaredEnd)
+            ? declaredEnd
+            : -1;
+
+    let dataEnd = endstreamAt;
+    if (dataEnd === -1) {
+        // Missing or wrong /Length: fall back to the endstream keyword
+        const found = buf.indexOf('endstream', dataStart, 'latin1');
+        if (found === -1) {
+            throw new Error(`Unterminated stream at offset ${offset}`);
+        }
+        dataEnd = found;
+        while (dataEnd > dataStart && (buf[dataEnd - 1] === 0x0a || buf[dataEnd - 1] === 0x0d)) {
+            dataEnd--;
+        }
+    }
+
+    return { kind: 'stream', dict: value, raw: buf.subarray(dataStart, dataEnd) };
+}
+
+export function isDict(value: PdfObject | undefined): value is PdfDict {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'dict';
+}
+
+export function isStream(value: PdfObject | undefined): value is PdfStream {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'stream';
+}
+
+export function isRef(value: PdfObject | undefined): value is PdfRef {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'ref';
+}
+
+export function isName(value: PdfObject | undefined, expected?: string): value is PdfName {
+    const ok = typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'name';
+    return ok && (expected === undefined || (value as PdfName).value === expected);
+}
+
+export function isString(value: PdfObject | undefined): value is PdfString {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'string';
+}
+
+// Decode a PDF text string (UTF-16BE with BOM, otherwise treated as latin1/PDFDocEncoding)
+export function decodeTextString(value: PdfString): string {
+    const { bytes } = value;
+    if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+        const swapped = Buffer.from(bytes.subarray(2));
+        swapped.swap16();
+        return swapped.toString('utf16le');
+    }
+    if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+        return bytes.subarray(3).toString('utf-8');
+    }
+    return bytes.toString('latin1');
+}
+
+/**
+ * Parse a PDF date string (D:YYYYMMDDHHmmSSOHH'mm'); omitted fields take their
+ * lowest value and a missing offset means UTC.
+ */
+export function parsePdfDate(text: string): Date | null {
+    const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:([Z+-])(\d{2})?'?(\d{2})?'?)?$/.exec(
+        text.trim(),
+    );
+    if (!match) {
+        return null;
+    }
+    const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offH, offM] = match;
+    const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+    const offset = sign === '+' || sign === '-' ? (+(offH ?? 0) * 60 + +(offM ?? 0)) * (sign === '+' ? 1 : -1) : 0;
+    return new Date(utc - offset * 60_000);
+}
+
+function applyPngPredictor(data: Buffer, columns: number): Buffer {
+    const rowLength = columns + 1;
+    const rows = Math.floor(data.length / rowLength);
+    const out = Buffer.alloc(rows * columns);
+    let previous = Buffer.alloc(columns);
+
+    for (let r = 0; r < rows; r++) {
+        const filter = data[r * rowLength];
+        const row = Buffer.from(data.subarray(r * rowLength + 1, (r + 1) * rowLength));
+
+        for (let i = 0; i < columns; i++) {
+            const left = i > 0 ? row[i - 1] : 0;
+            const up = previous[i];
+            const upLeft = i > 0 ? previous[i - 1] : 0;
+            switch (filter) {
+                case 0:
+                    break;
+                case 1:
+                    row[i] = (row[i] + left) & 0xff;
+                    break;
+                case 2:
+                    row[i] = (row[i] + up) & 0xff;
+                    break;
+                case 3:
+                    row[i] = (row[i] + ((left + up) >> 1)) & 0xff;
+                    break;
+                case 4: {
+                    const estimate = left + up - upLeft;
+                    const pa = Math.abs(estimate - left);
+                    const pb = Math.abs(estimate - up);
+                    const pc = Math.abs(estimate - upLeft);
+                    const predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+                    row[i] = (row[i] + predictor) & 0xff;
+                    break;
+                }
+                default:
+                    throw new Error(`Unsupported PNG predictor filter type ${filter}`);
+            }
+        }
+
+        row.copy(out, r * columns);
+        previous = row;
+    }
+
+    return out;
+}
+
+export function decodeStream(stream: PdfStream): Buffer {
+    const filter = stream.dict.entries.get('Filter');
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((f) =>
+        isName(f) ? f.value : String(f),
+    );
+    const parmsValue = stream.dict.entries.get('DecodeParms');
+    const parmsList = Array.isArray(parmsValue) ? parmsValue : [parmsValue ?? null];
+
+    let data: Buffer = Buffer.from(stream.raw);
+    filters.forEach((name, i) => {
+        if (name !== 'FlateDecode') {
+            throw new Error(`Unsupported stream filter: /${name}`);
+        }
+        data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+
+        const parms = parmsList[i];
+        if (isDict(parms)) {
+            const predictor = parms.entries.get('Predictor');
+            if (typeof predictor === 'number' && predictor >= 10) {
+                const columns = parms.entries.get('Columns');
+                data = applyPngPredictor(data, typeof columns === 'number' ? columns : 1);
+            } else if (typeof predictor === 'number' && predictor > 1) {
+                throw new Error(`Unsupported stream predictor: ${predictor}`);
+            }
+        }
+    });
+
+    return data;
+}
+
+function parseXrefTable(buf: Buffer, offset: number): { entries: Map<number, XrefEntry>; trailerPos: number } {
+    const entries = new Map<number, XrefEntry>();
+    let p = skipWhitespace(buf, offset + 'xref'.length);
+
+    for (;;) {
+        const [keyword] = readKeyword(buf, p);
+        if (keyword === 'trailer') {
+            return { entries, trailerPos: p + keyword.length };
+        }
+
+        const start = readUnsigned(buf, p);
+        const count = start ? readUnsigned(buf, skipWhitespace(buf, start[1])) : null;
+        if (!start || !count) {
+            throw new Error(`Malformed xref subsection at offset ${p}`);
+        }
+        p = count[1];
+
+        for (let i = 0; i < count[0]; i++) {
+            p = skipWhitespace(buf, p);
+            const entryOffset = readUnsigned(buf, p);
+            const entryGen = entryOffset ? readUnsigned(buf, skipWhitespace(buf, entryOffset[1])) : null;
+            if (!entryOffset || !entryGen) {
+                throw new Error(`Malformed xref entry at offset ${p}`);
+            }
+            const typePos = skipWhitespace(buf, entryGen[1]);
+            const type = buf[typePos];
+            p = typePos + 1;
+
+            const num = start[0] + i;
+            if (type === 0x6e) {
+                entries.set(num, { type: 'offset', offset: entryOffset[0], gen: entryGen[0] });
+            } else if (type === 0x66) {
+                entries.set(num, { type: 'free' });
+            } else {
+                throw new Error(`Malformed xref entry type at offset ${typePos}`);
+            }
+        }
+        p = skipWhitespace(buf, p);
+    }
+}
+
+function readXrefStreamEntries(stream: PdfStream): Map<number, XrefEntry> {
+    const entries = new Map<number, XrefEntry>();
+    const w = stream.dict.entries.get('W');
+    if (!Array.isArray(w) || w.length !== 3 || !w.every((n) => typeof n === 'number')) {
+        throw new Error('Invalid /W in xref stream');
+    }
+    const widths = w as number[];
+    const size = stream.dict.entries.get('Size');
+    const indexValue = stream.dict.entries.get('Index');
+    const index = (Array.isArray(indexValue) ? indexValue : [0, typeof size === 'number' ? size : 0]) as number[];
+
+    const data = decodeStream(stream);
+    const rowLength = widths[0] + widths[1] + widths[2];
+    let p = 0;
+
+    const readField = (width: number, fallback: number): number => {
+        if (width === 0) {
+            return fallback;
+        }
+        let value = 0;
+        for (let i = 0; i < width; i++) {
+            value = value * 256 + data[p + i];
+        }
+        p += width;
+        return value;
+    };
+
+    for (let s = 0; s + 1 < index.length; s += 2) {
+        for (let i = 0; i < index[s + 1]; i++) {
+            if (p + rowLength > data.length) {
+                throw new Error('Xref stream data is truncated');
+            }
+            const type = readField(widths[0], 1);
+            const field2 = readField(widths[1], 0);
+            const field3 = readField(widths[2], 0);
+            const num = index[s] + i;
+
+            if (type === 0) {
+                entries.set(num, { type: 'free' });
+            } else if (type === 1) {
+                entries.set(num, { type: 'offset', offset: field2, gen: field3 });
+            } else if (type === 2) {
+                entries.set(num, { type: 'compressed', stream: field2, index: field3 });
+            }
+        }
+    }
+
+    return entries;
+}
+
+function revisionEnd(buf: Buffer, from: number): number {
+    const eof = buf.indexOf('%%EOF', from, 'latin1');
+    if (eof === -1) {
+        return buf.length;
+    }
+    let end = eof + '%%EOF'.length;
+    if (buf[end] === 0x0d) {
+        end++;
+    }
+    if (buf[end] === 0x0a) {
+        end++;
+    }
+    return end;
+}
+
+function readRevision(buf: Buffer, xrefOffset: number): PdfRevision {
+    const ctx: ParseContext = { buf, inFile: true };
+    const p = skipWhitespace(buf, xrefOffset);
+    const [keyword] = readKeyword(buf, p);
+
+    if (keyword === 'xref') {
+        const { entries, trailerPos } = parseXrefTable(buf, p);
+        const [trailer] = parseValue(ctx, trailerPos);
+        if (!isDict(trailer)) {
+            throw new Error(`Invalid trailer after xref at offset ${xrefOffset}`);
+        }
+
+        // Hybrid-reference files list compressed objects in an extra xref stream
+        const xrefStm = trailer.entries.get('XRefStm');
+        if (typeof xrefStm === 'number') {
+            const hybrid = parseIndirectObject(ctx, xrefStm);
+            if (isStream(hybrid)) {
+                for (const [num, entry] of readXrefStreamEntries(hybrid)) {
+                    if (!entries.has(num)) {
+                        entries.set(num, entry);
+                    }
+                }
+            }
+        }
+
+        return { xrefOffset, end: revisionEnd(buf, trailerPos), trailer, entries };
+    }
+
+    const stream = parseIndirectObject(ctx, p);
+    if (!isStream(stream) || !isName(stream.dict.entries.get('Type'), 'XRef')) {
+        throw new Error(`No xref table or xref stream at offset ${xrefOffset}`);
+    }
+
+    return {
+        xrefOffset,
+        end: revisionEnd(buf, p),
+        trailer: stream.dict,
+        entries: readXrefStreamEntries(stream),
+    };
+}
+
+function findStartXref(buf: Buffer): number {
+    const at = buf.lastIndexOf('startxref', buf.length, 'latin1');
+    if (at === -1) {
+        throw new Error('startxref not found');
+    }
+    const value = readUnsigned(buf, skipWhitespace(buf, at + 'startxref'.length));
+    if (!value) {
+        throw new Error('Invalid startxref value');
+    }
+    return value[0];
+}
+
+function readRevisionChain(buf: Buffer): PdfRevision[] {
+    const revisions: PdfRevision[] = [];
+    const seen = new Set<number>();
+    let offset: number | null = findStartXref(buf);
+
+    while (offset !== null && !seen.has(offset)) {
+        seen.add(offset);
+        const revision = readRevision(buf, offset);
+        revisions.unshift(revision);
+        const prev = revision.trailer.entries.get('Prev');
+        offset = typeof prev === 'number' ? prev : null;
+    }
+
+    return revisions;
+}
+
+// Last-resort recovery for files whose xref offsets are wrong: index every `n g obj`
+function rebuildRevision(buf: Buffer): PdfRevision {
+    const ctx: ParseContext = { buf, inFile: true };
+    const entries = new Map<number, XrefEntry>();
+    const text = buf.toString('latin1');
+    let trailer: PdfDict | null = null;
+
+    for (const match of text.matchAll(/(?<![0-9])(\d+)\s+(\d+)\s+obj\b/g)) {
+        const offset = match.index ?? 0;
+        entries.set(parseInt(match[1], 10), { type: 'offset', offset, gen: parseInt(match[2], 10) });
+    }
+
+    for (const match of text.matchAll(/trailer\s*<</g)) {
+        const [value] = parseValue(ctx, (match.index ?? 0) + 'trailer'.length);
+        if (isDict(value)) {
+            trailer = value;
+        }
+    }
+
+    if (!trailer) {
+        for (const [, entry] of entries) {
+            if (entry.type !== 'offset') continue;
+            try {
+                const value = parseIndirectObject(ctx, entry.offset);
+                if (isStream(value) && isName(value.dict.entries.get('Type'), 'XRef')) {
+                    trailer = value.dict;
+                }
+            } catch {
+                // ignore damaged objects
+            }
+        }
+    }
+
+    if (!trailer) {
+        throw new Error('PDF trailer not found');
+    }
+
+    return { xrefOffset: 0, end: buf.length, trailer, entries };
+}
+
+export function openPdf(buffer: Buffer): PdfReader {
+    let revisions: PdfRevision[];
+    try {
+        revisions = readRevisionChain(buffer);
+    } catch {
+        revisions = [rebuildRevision(buffer)];
+    }
+
+    const cache = new Map<string, PdfObject>();
+    const objectStreams = new Map<number, { key: string; offsets: Map<number, number>; data: Buffer; first: number }>();
+
+    const findEntry = (num: number, revision: number): XrefEntry | undefined => {
+        for (let r = Math.min(revision, revisions.length - 1); r >= 0; r--) {
+            const entry = revisions[r].entries.get(num);
+            if (entry) {
+                return entry;
+            }
+        }
+        return undefined;
+    };
+
+    const ctx: ParseContext = {
+        buf: buffer,
+        inFile: true,
+        resolveLength: (ref) => {
+            const value = reader.getObject(ref.num);
+            return typeof value === 'number' ? value : null;
+        },
+    };
+
+    const loadObjectStream = (num: number, revision: number) => {
+        const entry = findEntry(num, revision);
+        if (entry?.type !== 'offset') {
+            throw new Error(`Object stream ${num} is not a regular indirect object`);
+        }
+        const cached = objectStreams.get(entry.offset);
+        if (cached) {
+            return cached;
+        }
+
+        const stream = parseIndirectObject(ctx, entry.offset, num);
+        if (!isStream(stream)) {
+            throw new Error(`Object ${num} is not an object stream`);
+        }
+        const data = decodeStream(stream);
+        const n = stream.dict.entries.get('N');
+        const first = stream.dict.entries.get('First');
+        if (typeof n !== 'number' || typeof first !== 'number') {
+            throw new Error(`Object stream ${num} is missing /N or /First`);
+        }
+
+        const offsets = new Map<number, number>();
+        const headerCtx: ParseContext = { buf: data, inFile: false };
+        let p = 0;
+        for (let i = 0; i < n; i++) {
+            const [objNum, afterNum] = parseValue(headerCtx, p);
+            const [objOffset, afterOffset] = parseValue(headerCtx, afterNum);
+            offsets.set(objNum as number, objOffset as number);
+            p = afterOffset;
+        }
+
+        const loaded = { key: `o${entry.offset}`, offsets, data, first };
+        objectStreams.set(entry.offset, loaded);
+        return loaded;
+    };
+
+    const reader: PdfReader = {
+        buffer,
+        revisions,
+        trailer: revisions[revisions.length - 1].trailer,
+
+        getObject(num, revision = revisions.length - 1) {
+            const entry = findEntry(num, revision);
+            if (!entry || entry.type === 'free') {
+                return null;
+            }
+
+            const objStm = entry.type === 'compressed' ? loadObjectStream(entry.stream, revision) : null;
+            const key = entry.type === 'offset' ? `o${entry.offset}` : `${objStm?.key}:${num}`;
+            if (cache.has(key)) {
+                return cache.get(key) ?? null;
+            }
+
+            let value: PdfObject;
+            if (entry.type === 'offset') {
+                value = parseIndirectObject(ctx, entry.offset, num);
+            } else if (objStm) {
+                const offset = objStm.offsets.get(num);
+                if (offset === undefined) {
+                    throw new Error(`Object ${num} not found in object stream ${entry.stream}`);
+                }
+                [value] = parseValue({ buf: objStm.data, inFile: false }, objStm.first + offset);
+            } else {
+                return null;
+            }
+
+            cache.set(key, value);
+            return value;
+        },
+
+        resolve(value, revision) {
+            let current = value ?? null;
+            for (let depth = 0; isRef(current) && depth < 32; depth++) {
+                current = reader.getObject(current.num, revision);
+            }
+            return current;
+        },
+
+        catalog() {
+            const root = reader.resolve(reader.trailer.entries.get('Root'));
+            return isDict(root) ? root : null;
+        },
+    };
+
+    return reader;
+}
+
+// Dictionary lookup that follows indirect references
+export function getEntry(reader: PdfReader, dict: PdfDict | PdfStream, key: string, revision?: number): PdfObject {
+    const entries = dict.kind === 'stream' ? dict.dict.entries : dict.entries;
+    return reader.resolve(entries.get(key), revision);
+}
@@ -0,0 +1,138 @@
+import { DEFAULT_DIGEST_ALGORITHM, type DigestAlgorithm, digestAlgorithmFromBits, digestLength } from './digest.ts';
+
+// A 'digest' entry is the circuit's digest_algorithm (output bits), decoded to the algorithm name
+export type PublicInputEntry =
+    | { name: string; kind: 'bytes'; length: number }
+    | { name: string; kind: 'field' }
+    | { name: string; kind: 'digest'; algorithm: DigestAlgorithm };
+
+export type PublicInputLayout = PublicInputEntry[];
+
+export type DecodedPublicInputs = Record<string, Buffer | bigint | DigestAlgorithm>;
+
+// Declaration order of the `pub` parameters in the PAdES circuits (each u8 is one field)
+export function padesPublicInputs(
+    digestAlgorithm: DigestAlgorithm = DEFAULT_DIGEST_ALGORITHM,
+    revocation: boolean = false,
+    signingTime: boolean = false,
+): PublicInputLayout {
+    const digestBytes = digestLength(digestAlgorithm);
+    return [
+        { name: 'doc_hash', kind: 'bytes', length: digestBytes },
+        { name: 'signed_attrs_hash', kind: 'bytes', length: digestBytes },
+        { name: 'digest_algorithm', kind: 'digest', algorithm: digestAlgorithm },
+        { name: 'tl_root', kind: 'field' },
+        ...(revocation ? [{ name: 'revocation_root', kind: 'field' } as const] : []),
+        ...(signingTime
+            ? [{ name: 'signed_after', kind: 'field' } as const, { name: 'signed_before', kind: 'field' } as const]
+            : []),
+    ];
+}
+
+export const PADES_PUBLIC_INPUTS: PublicInputLayout = padesPublicInputs();
+
+// pades_<ecdsa|rsa>[_variant...]; a _sha384/_sha512 variant widens both digests, _rev adds the revocation root,
+// _time the signing-time bounds
+const PADES_CIRCUIT = /^pades_(ecdsa|rsa)(_[a-z0-9]+)*$/;
+const DIGEST_VARIANT = /_(sha384|sha512)(?=_|$)/;
+const REVOCATION_VARIANT = /_rev(?=_|$)/;
+const SIGNING_TIME_VARIANT = /_time(?=_|$)/;
+
+export function getPublicInputLayout(circuit?: string): PublicInputLayout {
+    if (!circuit) {
+        return PADES_PUBLIC_INPUTS;
+    }
+    if (!PADES_CIRCUIT.test(circuit)) {
+        throw new Error(`Unknown circuit "${circuit}"; no public input layout registered`);
+    }
+    const variant = DIGEST_VARIANT.exec(circuit)?.[1];
+    const digestAlgorithm = variant === 'sha384' ? 'SHA-384' : variant === 'sha512' ? 'SHA-512' : 'SHA-256';
+    return padesPublicInputs(digestAlgorithm, REVOCATION_VARIANT.test(circuit), SIGNING_TIME_VARIANT.test(circuit));
+}
+
+function layoutSize(layout: PublicInputLayout): number {
+    return layout.reduce((size, entry) => size + (entry.kind === 'bytes' ? entry.length : 1), 0);
+}
+
+function fieldToByte(field: string): number {
+    const value = BigInt(field);
+    if (value > 0xffn) {
+        throw new Error(`Public input ${field} is not a byte`);
+    }
+    return Number(value);
+}
+
+/**
+ * Map the flat publicInputs array of a proof back to named values:
+ * byte arrays become Buffers, single fields bigints and the digest id its
+ * algorithm name, which must be the one the circuit's layout expects.
+ */
+export function decodePublicInputs(
+    publicInputs: string[],
+    layout: PublicInputLayout = PADES_PUBLIC_INPUTS,
+): DecodedPublicInputs {
+    const expected = layoutSize(layout);
+    if (publicInputs.length !== expected) {
+        throw new Error(`Expected ${expected} public inputs, got ${publicInputs.length}`);
+    }
+
+    const decoded: DecodedPublicInputs = {};
+    let offset = 0;
+    for (const entry of layout) {
+        if (entry.kind === 'bytes') {
+            decoded[entry.name] = Buffer.from(publicInputs.slice(offset, offset + entry.length).map(fieldToByte));
+            offset += entry.length;
+        } else if (entry.kind === 'digest') {
+            const algorithm = digestAlgorithmFromBits(Number(BigInt(publicInputs[offset])));
+            if (algorithm !== entry.algorithm) {
+                throw new Error(
+                    `Public input ${entry.name} is ${algorithm}, but the circuit hashes with ${entry.algorithm}`,
+                );
+            }
+            decoded[entry.name] = algorithm;
+            offset += 1;
+        } else {
+            decoded[entry.name] = BigInt(publicInputs[offset]);
+            offset += 1;
+        }
+    }
+    return decoded;
+}
+
+export function formatPublicInput(value: Buffer | bigint | string): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    return typeof value === 'bigint' ? value.toString(10) : value.toString('hex');
+}
+
+function sameValue(claimed: unknown, value: Buffer | bigint | string): boolean {
+    if (typeof claimed !== 'string') {
+        return false;
+    }
+    if (typeof value === 'string') {
+        return claimed === value;
+    }
+    if (typeof value !== 'bigint') {
+        return claimed.toLowerCase() === value.toString('hex');
+    }
+    try {
+        return BigInt(claimed) === value;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Compare manifest claims (hex byte strings, decimal or 0x fields) with the values
+ * the proof commits to. Returns a description of every field that differs.
+ */
+export function comparePublicInputs(claims: Record<string, unknown>, decoded: DecodedPublicInputs): string[] {
+    const mismatches: string[] = [];
+    for (const [name, value] of Object.entries(decoded)) {
+        if (!sameValue(claims[name], value)) {
+            mismatches.push(`${name} (manifest ${String(claims[name])}, proof ${formatPublicInput(value)})`);
+        }
+    }
+    return mismatches;
+}
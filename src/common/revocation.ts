@@ -0,0 +1,276 @@
+// Revocation lists: an indexed Merkle tree of revoked key fingerprints, so circuits can prove non-membership
+import fs from 'node:fs';
+import path from 'node:path';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { type Allowlist, describeCertificate, readCertificateBytes } from './allowlist.ts';
+import { parseCertificate } from './chain.ts';
+import { formatName } from './signatures.ts';
+import { buildMerkleTree, getMerkleProof, merkleHasher } from './tree.ts';
+import { fieldToDecimal, hexToField } from './utils.ts';
+
+// Keep in sync with Noir circuits (REVOCATION_TREE_DEPTH)
+export const REVOCATION_TREE_DEPTH = 16;
+
+export const REVOCATION_LIST_VERSION = 1;
+
+const OID_CRL_NUMBER = '2.5.29.20';
+
+const PEM_CRL = /-----BEGIN X509 CRL-----([\s\S]*?)-----END X509 CRL-----/;
+
+export interface CrlSource {
+    issuer: string;
+    this_update: string;
+    next_update: string | null;
+    crl_number: string | null; // hex
+    signature_verified: boolean; // false when the issuing CA certificate was not supplied
+    source: string; // CRL file name
+}
+
+export interface RevokedEntry {
+    fingerprint: string; // SHA-256 of the revoked certificate's key fingerprint bytes (hex)
+    issuer: string;
+    serial: string; // hex
+    revoked_at: string;
+    source: string; // CRL file name
+}
+
+export interface RevocationList {
+    version: number;
+    mode: string; // Merkle hash mode `root` was computed with
+    depth: number;
+    created_at: string;
+    root: string; // decimal
+    revoked: RevokedEntry[];
+    crls: CrlSource[];
+}
+
+export interface RevocationOptions {
+    revocationListPath?: string; // prove that the signer key is not in this revocation list
+}
+
+// Low leaf of the indexed tree: low_value < signer fingerprint < low_next (low_next 0 = no upper bound)
+export interface RevocationWitness {
+    root: string;
+    low_value: string;
+    low_next: string;
+    low_index: string;
+    low_path: string[];
+}
+
+// Issuer name and serial of a certificate whose key can be listed once the CRL revokes it
+export interface CertificateCandidate {
+    issuer: string;
+    serial: string;
+    fingerprint: string;
+}
+
+export function readCrlBytes(crlPath: string): Buffer {
+    const raw = fs.readFileSync(crlPath);
+    const pem = PEM_CRL.exec(raw.toString('utf-8'));
+    return pem ? Buffer.from(pem[1].replace(/\s+/g, ''), 'base64') : raw;
+}
+
+export function parseCrl(der: Uint8Array): pkijs.CertificateRevocationList {
+    const asn1 = asn1js.fromBER(der);
+    if (asn1.offset === -1) {
+        throw new Error('Failed to parse CRL ASN.1');
+    }
+    return new pkijs.CertificateRevocationList({ schema: asn1.result });
+}
+
+/**
+ * Certificates a CRL entry can be resolved against: certificate files, and the
+ * entries of version 2 allowlists (which record issuer and serial).
+ */
+export function certificateCandidates(certPaths: string[], allowlists: Allowlist[] = []): CertificateCandidate[] {
+    const fromFiles = certPaths.map((certPath) =>
+        describeCertificate(readCertificateBytes(certPath), path.basename(certPath)),
+    );
+    const fromAllowlists = allowlists.flatMap((allowlist) => allowlist.entries ?? []);
+    return [...fromFiles, ...fromAllowlists].map(({ issuer, serial, fingerprint }) => ({
+        issuer,
+        serial,
+        fingerprint,
+    }));
+}
+
+function crlNumber(crl: pkijs.CertificateRevocationList): string | null {
+    const value = crl.crlExtensions?.extensions.find((ext) => ext.extnID === OID_CRL_NUMBER)?.parsedValue;
+    return value instanceof asn1js.Integer ? Buffer.from(value.valueBlock.valueHexView).toString('hex') : null;
+}
+
+async function verifyCrl(crl: pkijs.CertificateRevocationList, issuers: pkijs.Certificate[]): Promise<boolean> {
+    for (const issuer of issuers.filter((cert) => cert.subject.isEqual(crl.issuer))) {
+        try {
+            if (await crl.verify({ issuerCertificate: issuer })) {
+                return true;
+            }
+        } catch {
+            // try the next certificate with this subject
+        }
+    }
+    return false;
+}
+
+/**
+ * Resolve the serials revoked by each CRL to key fingerprints. Serials with no
+ * matching candidate certificate cannot be expressed as a key and are returned
+ * in `unmatched`; CRLs whose signature could not be checked against a supplied
+ * issuer certificate are marked as unverified.
+ */
+export async function collectRevokedKeys(
+    crlPaths: string[],
+    candidates: CertificateCandidate[],
+    issuerCertPaths: string[] = [],
+): Promise<{ revoked: RevokedEntry[]; crls: CrlSource[]; unmatched: string[] }> {
+    const issuers = issuerCertPaths.map((certPath) => parseCertificate(readCertificateBytes(certPath)));
+    const revoked: RevokedEntry[] = [];
+    const crls: CrlSource[] = [];
+    const unmatched: string[] = [];
+
+    for (const crlPath of crlPaths) {
+        const crl = parseCrl(readCrlBytes(crlPath));
+        const issuer = formatName(crl.issuer);
+        const source = path.basename(crlPath);
+        crls.push({
+            issuer,
+            this_update: crl.thisUpdate.value.toISOString(),
+            next_update: crl.nextUpdate?.value.toISOString() ?? null,
+            crl_number: crlNumber(crl),
+            signature_verified: await verifyCrl(crl, issuers),
+            source,
+        });
+
+        for (const entry of crl.revokedCertificates ?? []) {
+            const serial = Buffer.from(entry.userCertificate.valueBlock.valueHexView).toString('hex');
+            const matches = candidates.filter((c) => c.issuer === issuer && c.serial === serial);
+            if (matches.length === 0) {
+                unmatched.push(`${issuer} serial ${serial}`);
+            }
+            for (const match of matches) {
+                revoked.push({
+                    fingerprint: match.fingerprint,
+                    issuer,
+                    serial,
+                    revoked_at: entry.revocationDate.value.toISOString(),
+                    source,
+                });
+            }
+        }
+    }
+
+    return { revoked, crls, unmatched };
+}
+
+// Sorted, de-duplicated field values of the revoked fingerprints
+function revokedValues(revoked: RevokedEntry[]): bigint[] {
+    const values = [...new Set(revoked.map((entry) => hexToField(entry.fingerprint)))];
+    return values.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Indexed Merkle tree over (value, next_value) pairs: a zero sentinel followed
+ * by the sorted values, each pointing at its successor; the largest points at 0.
+ * Every fingerprint that is not revoked falls strictly inside one leaf's gap.
+ */
+async function buildRevocationTree(values: bigint[], mode: string) {
+    if (values.length + 1 > 2 ** REVOCATION_TREE_DEPTH) {
+        throw new Error(`Too many revoked keys for a depth ${REVOCATION_TREE_DEPTH} revocation tree: ${values.length}`);
+    }
+
+    const hash = merkleHasher(mode);
+    const lows = [0n, ...values];
+    const leaves: bigint[] = [];
+    for (let i = 0; i < lows.length; i++) {
+        leaves.push(await hash(lows[i], values[i] ?? 0n));
+    }
+    const tree = await buildMerkleTree(hash, leaves, REVOCATION_TREE_DEPTH);
+    return { ...tree, lows };
+}
+
+export async function sealRevocationList(
+    revoked: RevokedEntry[],
+    crls: CrlSource[],
+    mode: string,
+): Promise<RevocationList> {
+    const { root } = await buildRevocationTree(revokedValues(revoked), mode);
+    return {
+        version: REVOCATION_LIST_VERSION,
+        mode,
+        depth: REVOCATION_TREE_DEPTH,
+        created_at: new Date().toISOString(),
+        root: fieldToDecimal(root),
+        revoked,
+        crls,
+    };
+}
+
+export function readRevocationList(listPath: string): RevocationList {
+    const list = JSON.parse(fs.readFileSync(listPath, 'utf-8'));
+    if (list.version !== REVOCATION_LIST_VERSION || !Array.isArray(list.revoked) || typeof list.root !== 'string') {
+        throw new Error(`Not a version ${REVOCATION_LIST_VERSION} revocation list: ${listPath}`);
+    }
+    if (list.depth !== REVOCATION_TREE_DEPTH) {
+        throw new Error(`Revocation list depth ${list.depth} does not match the circuits (${REVOCATION_TREE_DEPTH})`);
+    }
+    return list;
+}
+
+export function writeRevocationList(list: RevocationList, outPath: string): void {
+    fs.writeFileSync(outPath, JSON.stringify(list, null, 2));
+}
+
+/**
+ * Witness that `fingerprintHex` is not revoked: the low leaf whose gap contains
+ * it and that leaf's Merkle path. Refuses revoked keys and lists built for a
+ * different hash mode or whose declared root does not match.
+ */
+export async function proveNonRevocation(
+    list: RevocationList,
+    fingerprintHex: string,
+    mode: string,
+): Promise<RevocationWitness> {
+    if (list.mode !== mode) {
+        throw new Error(`Revocation list was built for ${list.mode} hashing, but this run uses ${mode}`);
+    }
+
+    const value = hexToField(fingerprintHex);
+    const revokedEntry = list.revoked.find((entry) => hexToField(entry.fingerprint) === value);
+    if (revokedEntry) {
+        throw new Error(
+            `Signer key is revoked (${revokedEntry.issuer} serial ${revokedEntry.serial}, ${revokedEntry.revoked_at})`,
+        );
+    }
+
+    const values = revokedValues(list.revoked);
+    const { root, layers, zeros, lows } = await buildRevocationTree(values, mode);
+    if (fieldToDecimal(root) !== list.root) {
+        throw new Error(`Revocation list root mismatch: file declares ${list.root}, computed ${fieldToDecimal(root)}`);
+    }
+
+    const lowIndex = values.filter((v) => v < value).length;
+    return {
+        root: list.root,
+        low_value: fieldToDecimal(lows[lowIndex]),
+        low_next: fieldToDecimal(values[lowIndex] ?? 0n),
+        low_index: lowIndex.toString(),
+        low_path: getMerkleProof(layers, zeros, lowIndex).map(fieldToDecimal),
+    };
+}
+
+// Circuit name suffix: circuits without revocation keep their original names
+export function revocationCircuitSuffix(revocation: boolean): string {
+    return revocation ? '_rev' : '';
+}
+
+// Noir inputs shared by the *_rev circuits
+export function revocationNoirInputs(witness: RevocationWitness) {
+    return {
+        revocation_root: witness.root,
+        low_value: witness.low_value,
+        low_next: witness.low_next,
+        low_index: witness.low_index,
+        low_path: witness.low_path,
+    };
+}
@@ -1,38 +1,71 @@
 // Shared RSA helpers for fingerprint serialization
 
+// noir-bignum uses 120-bit limbs
 const LIMB_BITS = 120n;
 const LIMB_MASK = (1n << LIMB_BITS) - 1n;
+// Barrett reduction overflow bits in noir-bignum (BARRETT_REDUCTION_OVERFLOW_BITS)
+const BARRETT_OVERFLOW_BITS = 4n;
 
-export function modulusToLimbsBigint(modulusBytes: Uint8Array): bigint[] {
-    let modulus = 0n;
-    for (let i = 0; i < modulusBytes.length; i++) {
-        modulus = (modulus << 8n) | BigInt(modulusBytes[i]);
+// Modulus sizes with a circuit variant (pades_rsa is 2048, the others pades_rsa_<bits>)
+export const RSA_MODULUS_BITS = [2048, 3072, 4096];
+
+export function rsaModulusBits(modulusBytes: Uint8Array): number {
+    const bits = modulusBytes.length * 8;
+    if (!RSA_MODULUS_BITS.includes(bits)) {
+        throw new Error(`Unsupported RSA modulus size: ${bits} bits (supported: ${RSA_MODULUS_BITS.join(', ')})`);
     }
+    return bits;
+}
 
-    const limbs: bigint[] = [];
-    for (let i = 0; i < 18; i++) {
-        limbs.push(modulus & LIMB_MASK);
-        modulus = modulus >> LIMB_BITS;
+export function rsaLimbCount(modulusBits: number): number {
+    return Math.ceil(modulusBits / Number(LIMB_BITS));
+}
+
+function bytesToBigint(bytes: Uint8Array): bigint {
+    let value = 0n;
+    for (let i = 0; i < bytes.length; i++) {
+        value = (value << 8n) | BigInt(bytes[i]);
     }
+    return value;
+}
 
+function toLimbs(value: bigint, count: number): bigint[] {
+    const limbs: bigint[] = [];
+    let rest = value;
+    for (let i = 0; i < count; i++) {
+        limbs.push(rest & LIMB_MASK);
+        rest = rest >> LIMB_BITS;
+    }
     return limbs;
 }
 
+export function modulusToLimbsBigint(modulusBytes: Uint8Array): bigint[] {
+    return toLimbs(bytesToBigint(modulusBytes), rsaLimbCount(rsaModulusBits(modulusBytes)));
+}
+
+// redc_param = 2^(2 * MOD_BITS + 4) / modulus, split into the same limbs as the modulus
+export function barrettRedcLimbsBigint(modulusBytes: Uint8Array): bigint[] {
+    const modBits = rsaModulusBits(modulusBytes);
+    const numerator = 1n << (2n * BigInt(modBits) + BARRETT_OVERFLOW_BITS);
+    return toLimbs(numerator / bytesToBigint(modulusBytes), rsaLimbCount(modBits));
+}
+
 export function limbsToStrings(limbs: bigint[]): string[] {
     return limbs.map((limb) => limb.toString());
 }
 
+// Each limb as 16 big-endian bytes followed by the u32 exponent
 export function serializeRsaFingerprintBytes(limbs: bigint[], exponent: number): Uint8Array {
-    if (limbs.length !== 18) {
-        throw new Error(`Expected 18 RSA limbs, got ${limbs.length}`);
+    if (!RSA_MODULUS_BITS.some((bits) => rsaLimbCount(bits) === limbs.length)) {
+        throw new Error(`Unexpected RSA limb count: ${limbs.length}`);
     }
     if (!Number.isInteger(exponent) || exponent < 0 || exponent > 0xffffffff) {
         throw new Error(`RSA exponent must fit in u32. Got ${exponent}.`);
     }
 
-    const out = new Uint8Array(18 * 16 + 4);
+    const out = new Uint8Array(limbs.length * 16 + 4);
 
-    for (let i = 0; i < 18; i++) {
+    for (let i = 0; i < limbs.length; i++) {
         let v = limbs[i];
         for (let j = 0; j < 16; j++) {
             out[i * 16 + (15 - j)] = Number(v & 0xffn);
@@ -40,10 +73,11 @@ export function serializeRsaFingerprintBytes(limbs: bigint[], exponent: number):
         }
     }
 
-    out[288] = (exponent >>> 24) & 0xff;
-    out[289] = (exponent >>> 16) & 0xff;
-    out[290] = (exponent >>> 8) & 0xff;
-    out[291] = exponent & 0xff;
+    const e = limbs.length * 16;
+    out[e] = (exponent >>> 24) & 0xff;
+    out[e + 1] = (exponent >>> 16) & 0xff;
+    out[e + 2] = (exponent >>> 8) & 0xff;
+    out[e + 3] = exponent & 0xff;
 
     return out;
 }
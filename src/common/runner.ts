@@ -1,7 +1,12 @@
 import fs from 'node:fs';
 import path from 'node:path';
+import { fileURLToPath } from 'node:url';
 import { Noir } from '@noir-lang/noir_js';
-import { Barretenberg, UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
+import { UltraHonkBackend as BarretenbergBackend } from '@aztec/bb.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const circuitsDir = path.resolve(__dirname, '..', '..', 'circuits');
 
 export interface ProofResult<Manifest = unknown> {
     proof: Uint8Array;
@@ -23,14 +28,9 @@ export interface RunSpec<Prep extends { tl_root: string }, Proof extends ProofRe
     mode: string;
     isDump: boolean;
     paths: RunPaths;
-    prepare: (
-        pdfPath: string,
-        allowlistPath: string,
-        mode: string,
-        isDump: boolean,
-        outDir: string,
-        bbApi?: Barretenberg,
-    ) => Promise<Prep>;
+    // Circuit to prove with once the key is known; defaults to paths.circuitPath
+    selectCircuit?: (prep: Prep) => string;
+    prepare: (pdfPath: string, allowlistPath: string, mode: string, isDump: boolean, outDir: string) => Promise<Prep>;
     generateProof: (
         prep: Prep,
         noir: Noir,
@@ -48,12 +48,41 @@ function logRunHeader<Prep extends { tl_root: string }, Proof extends ProofResul
     console.log(`  PDF: ${spec.paths.pdfPath}`);
 }
 
-interface NoirCircuit {
+export interface NoirCircuit {
     bytecode: string;
     [key: string]: unknown;
 }
 
-async function loadCircuit(circuitPath: string): Promise<NoirCircuit> {
+// Accept either a circuit directory or the name of one under circuits/
+export function resolveCircuitPath(nameOrPath: string): string {
+    const circuitPath = fs.existsSync(nameOrPath) ? path.resolve(nameOrPath) : path.join(circuitsDir, nameOrPath);
+    if (!fs.existsSync(path.join(circuitPath, 'Nargo.toml'))) {
+        throw new Error(`Circuit not found: ${nameOrPath} (expected a Nargo project in ${circuitPath})`);
+    }
+    return circuitPath;
+}
+
+// Circuit under circuits/ by bare name, as recorded in a manifest; paths are refused
+export function repositoryCircuitPath(name: string): string {
+    if (!/^[\w-]+$/.test(name) || !circuitExists(name)) {
+        throw new Error(`Unknown circuit "${name}": not a circuit under circuits/`);
+    }
+    return path.join(circuitsDir, name);
+}
+
+export function circuitExists(name: string): boolean {
+    return fs.existsSync(path.join(circuitsDir, name, 'Nargo.toml'));
+}
+
+// Circuit variant under circuits/ chosen from the signer's key (curve, modulus size, ...)
+export function circuitVariantPath(name: string, keyDescription: string): string {
+    if (!circuitExists(name)) {
+        throw new Error(`No circuit for ${keyDescription} keys: circuits/${name} does not exist`);
+    }
+    return path.join(circuitsDir, name);
+}
+
+export async function loadCircuit(circuitPath: string): Promise<NoirCircuit> {
     console.log('\nCompiling circuit...');
     const circuitDir = circuitPath;
     const circuitName = path.basename(circuitPath);
@@ -108,18 +137,10 @@ async function destroyWithTimeout(label: string, fn: () => Promise<void>, timeou
     return timedOut;
 }
 
-async function cleanup(backend?: BarretenbergBackend, bbApi?: Barretenberg): Promise<void> {
+async function cleanup(backend?: BarretenbergBackend): Promise<void> {
     const timeoutMs = 15000;
-    let backendTimedOut = false;
     if (backend) {
-        backendTimedOut = await destroyWithTimeout('Barretenberg backend', () => backend.destroy(), timeoutMs);
-    }
-    if (bbApi) {
-        if (backendTimedOut) {
-            console.warn('WARN: Skipping Barretenberg singleton destroy because backend shutdown timed out.');
-            return;
-        }
-        await destroyWithTimeout('Barretenberg singleton', () => Barretenberg.destroySingleton(), timeoutMs);
+        await destroyWithTimeout('Barretenberg backend', () => backend.destroy(), timeoutMs);
     }
 }
 
@@ -127,11 +148,20 @@ export async function runWithSpec<Prep extends { tl_root: string }, Proof extend
     spec: RunSpec<Prep, Proof>,
 ): Promise<number> {
     let backend: BarretenbergBackend | undefined;
-    let bbApi: Barretenberg | undefined;
 
     try {
         logRunHeader(spec);
-        const circuit = await loadCircuit(spec.paths.circuitPath);
+
+        const prep = await spec.prepare(
+            spec.paths.pdfPath,
+            spec.paths.allowlistPath,
+            spec.mode,
+            spec.isDump,
+            spec.paths.outDir,
+        );
+
+        const circuitPath = spec.selectCircuit ? spec.selectCircuit(prep) : spec.paths.circuitPath;
+        const circuit = await loadCircuit(circuitPath);
 
         console.log('Initializing Noir...');
         const noir = new Noir(circuit);
@@ -145,21 +175,11 @@ export async function runWithSpec<Prep extends { tl_root: string }, Proof extend
             },
         });
 
-        bbApi = await Barretenberg.initSingleton({ threads: 4 });
-
-        const prep = await spec.prepare(
-            spec.paths.pdfPath,
-            spec.paths.allowlistPath,
-            spec.mode,
-            spec.isDump,
-            spec.paths.outDir,
-            bbApi,
-        );
         const proofResult = await spec.generateProof(prep, noir, backend, spec.isDump, spec.paths.outDir);
         const isValid = await spec.verifyProof(proofResult, backend, prep.tl_root);
 
         return isValid ? 0 : 1;
     } finally {
-        await cleanup(backend, bbApi);
+        await cleanup(backend);
     }
 }
@@ -0,0 +1,313 @@
+import type * as asn1js from 'asn1js';
+import type * as pkijs from 'pkijs';
+import { parseSignedData, selectCmsSigner } from './cms.ts';
+import {
+    decodeTextString,
+    getEntry,
+    isDict,
+    isName,
+    isRef,
+    isString,
+    openPdf,
+    type PdfDict,
+    type PdfObject,
+    type PdfReader,
+} from './pdf.ts';
+
+const OID_SIGNING_TIME = '1.2.840.113549.1.9.5';
+const OID_SIGNATURE_TIME_STAMP_TOKEN = '1.2.840.113549.1.9.16.2.14';
+
+export type ByteRange = [number, number, number, number];
+
+// Document timestamps (PAdES B-LTA) share the signature field machinery but carry an RFC 3161 token
+export type SignatureKind = 'signature' | 'doc-timestamp';
+
+export interface PdfSignature {
+    index: number;
+    objectNumber: number;
+    fieldName: string | null;
+    byteRange: ByteRange;
+    contents: Buffer; // DER-encoded CMS (including any zero padding)
+    contentsOffset: [number, number]; // [start of '<', end after '>'] in the PDF buffer
+    pdfSigningTime: string | null; // /M entry of the signature dictionary
+    subFilter: string | null;
+    kind: SignatureKind;
+}
+
+export interface SignatureSummary {
+    index: number;
+    kind: SignatureKind;
+    fieldName: string | null;
+    signerInfo: number; // SignerInfo the subject, signingTime and timestamp are read from
+    signerInfoCount: number;
+    subject: string | null; // signer, or TSA for document timestamps
+    signingTime: string | null;
+    byteRange: ByteRange;
+    coveredBytes: number;
+    coversWholeFile: boolean;
+    timestamped: boolean; // the SignerInfo carries a signatureTimeStampToken
+}
+
+function readByteRange(value: PdfObject): ByteRange | null {
+    if (
+        !Array.isArray(value) ||
+        value.length !== 4 ||
+        !value.every((v) => typeof v === 'number' && Number.isInteger(v))
+    ) {
+        return null;
+    }
+    return value as ByteRange;
+}
+
+function readText(value: PdfObject): string | null {
+    return isString(value) ? decodeTextString(value) : null;
+}
+
+function parseSignatureDictionary(
+    reader: PdfReader,
+    dict: PdfDict,
+    objectNumber: number,
+    fieldName: string | null,
+): Omit<PdfSignature, 'index'> | null {
+    const byteRange = readByteRange(getEntry(reader, dict, 'ByteRange'));
+    const contents = getEntry(reader, dict, 'Contents');
+    if (!byteRange || !isString(contents)) {
+        return null;
+    }
+    if (!contents.offset) {
+        throw new Error(
+            `Signature dictionary ${objectNumber} is stored in an object stream; ByteRange cannot be checked`,
+        );
+    }
+
+    const subFilter = getEntry(reader, dict, 'SubFilter');
+    const isDocTimeStamp = isName(getEntry(reader, dict, 'Type'), 'DocTimeStamp') || isName(subFilter, 'ETSI.RFC3161');
+
+    return {
+        objectNumber,
+        fieldName,
+        byteRange,
+        contents: contents.bytes,
+        contentsOffset: contents.offset,
+        pdfSigningTime: readText(getEntry(reader, dict, 'M')),
+        subFilter: isName(subFilter) ? subFilter.value : null,
+        kind: isDocTimeStamp ? 'doc-timestamp' : 'signature',
+    };
+}
+
+// Walk the AcroForm field tree; /FT is inheritable and partial names are joined with '.'
+function collectSignatureFields(
+    reader: PdfReader,
+    fields: PdfObject,
+    parentName: string | null,
+    parentType: string | null,
+    visited: Set<number>,
+    out: Omit<PdfSignature, 'index'>[],
+): void {
+    if (!Array.isArray(fields)) {
+        return;
+    }
+
+    for (const fieldRef of fields) {
+        if (isRef(fieldRef)) {
+            if (visited.has(fieldRef.num)) {
+                continue;
+            }
+            visited.add(fieldRef.num);
+        }
+
+        const field = reader.resolve(fieldRef);
+        if (!isDict(field)) {
+            continue;
+        }
+
+        const partial = readText(getEntry(reader, field, 'T'));
+        const name = partial === null ? parentName : parentName ? `${parentName}.${partial}` : partial;
+        const ftValue = getEntry(reader, field, 'FT');
+        const fieldType = isName(ftValue) ? ftValue.value : parentType;
+
+        const valueRef = field.entries.get('V');
+        const value = reader.resolve(valueRef);
+        if (fieldType === 'Sig' && isDict(value)) {
+            const objectNumber = isRef(valueRef) ? valueRef.num : isRef(fieldRef) ? fieldRef.num : -1;
+            const parsed = parseSignatureDictionary(reader, value, objectNumber, name);
+            if (parsed) {
+                out.push(parsed);
+            }
+        }
+
+        collectSignatureFields(reader, getEntry(reader, field, 'Kids'), name, fieldType, visited, out);
+    }
+}
+
+/**
+ * Find every signature field in the AcroForm, ordered by the revision it signs
+ * (earliest signer first). ByteRange and CMS always come from the same dictionary.
+ */
+export function findSignatures(pdfBuffer: Buffer): PdfSignature[] {
+    const reader = openPdf(pdfBuffer);
+    const acroForm = reader.resolve(reader.catalog()?.entries.get('AcroForm'));
+
+    const found: Omit<PdfSignature, 'index'>[] = [];
+    if (isDict(acroForm)) {
+        collectSignatureFields(reader, getEntry(reader, acroForm, 'Fields'), null, null, new Set(), found);
+    }
+
+    found.sort((a, b) => a.byteRange[2] + a.byteRange[3] - (b.byteRange[2] + b.byteRange[3]));
+
+    return found.map((sig, index) => ({ index, ...sig }));
+}
+
+// A document timestamp has no signer whose key could be proven against an allowlist
+function assertSignerSignature(signature: PdfSignature): PdfSignature {
+    if (signature.kind === 'doc-timestamp') {
+        throw new Error(`Signature #${signature.index} is a document timestamp (/DocTimeStamp), not a signature`);
+    }
+    return signature;
+}
+
+/**
+ * Pick a signature by index or field name. Without a selector the first
+ * signature is used, matching the single-signature behaviour. Document
+ * timestamps keep their index but are never selected.
+ */
+export function selectSignature(signatures: PdfSignature[], selector?: string): PdfSignature {
+    if (signatures.length === 0) {
+        throw new Error('Error: no signature dictionaries found in PDF');
+    }
+
+    if (selector === undefined || selector === '') {
+        const signerSignatures = signatures.filter((sig) => sig.kind === 'signature');
+        if (signerSignatures.length === 0) {
+            throw new Error('Error: PDF only has document timestamps (/DocTimeStamp), no signatures');
+        }
+        if (signerSignatures.length > 1) {
+            console.log(
+                `  PDF has ${signerSignatures.length} signatures; using #${signerSignatures[0].index} ` +
+                    '(pass --signature to choose)',
+            );
+        }
+        return signerSignatures[0];
+    }
+
+    if (/^\d+$/.test(selector)) {
+        const index = parseInt(selector, 10);
+        const byIndex = signatures.find((sig) => sig.index === index);
+        if (!byIndex) {
+            throw new Error(`Signature index ${index} out of range (PDF has ${signatures.length} signatures)`);
+        }
+        return assertSignerSignature(byIndex);
+    }
+
+    const byName = signatures.find((sig) => sig.fieldName === selector);
+    if (!byName) {
+        const known = signatures.map((sig) => sig.fieldName ?? `#${sig.index}`).join(', ');
+        throw new Error(`Signature field "${selector}" not found. Available: ${known}`);
+    }
+    return assertSignerSignature(byName);
+}
+
+const RDN_LABELS: Record<string, string> = {
+    '2.5.4.3': 'CN',
+    '2.5.4.4': 'SN',
+    '2.5.4.42': 'GN',
+    '2.5.4.5': 'serialNumber',
+    '2.5.4.6': 'C',
+    '2.5.4.7': 'L',
+    '2.5.4.8': 'ST',
+    '2.5.4.10': 'O',
+    '2.5.4.11': 'OU',
+    '2.5.4.97': 'organizationIdentifier',
+};
+
+export function formatName(name: pkijs.RelativeDistinguishedNames): string {
+    return name.typesAndValues
+        .map((tv) => {
+            const label = RDN_LABELS[tv.type] ?? tv.type;
+            return `${label}=${tv.value.valueBlock.value}`;
+        })
+        .join(', ');
+}
+
+// signingTime signed attribute; claimed by the signer, not attested by a TSA
+export function readSigningTime(signerInfo: pkijs.SignerInfo): Date | null {
+    const timeAttr = signerInfo.signedAttrs?.attributes.find((attr) => attr.type === OID_SIGNING_TIME);
+    const timeValue = timeAttr?.values[0] as asn1js.UTCTime | asn1js.GeneralizedTime | undefined;
+    return timeValue ? timeValue.toDate() : null;
+}
+
+// signatureTimeStampToken unsigned attribute (PAdES B-T); timestamp.ts verifies it
+export function hasSignatureTimestamp(signerInfo: pkijs.SignerInfo): boolean {
+    return signerInfo.unsignedAttrs?.attributes.some((attr) => attr.type === OID_SIGNATURE_TIME_STAMP_TOKEN) ?? false;
+}
+
+type CmsDetails = Pick<SignatureSummary, 'signerInfoCount' | 'subject' | 'signingTime' | 'timestamped'>;
+
+// Details of the SignerInfo selected like the prover selects it (by index, certificate by sid)
+function readCmsDetails(contents: Buffer, signerIndex: number): CmsDetails {
+    let signerInfoCount = 0;
+    try {
+        const signedData = parseSignedData(contents);
+        signerInfoCount = signedData.signerInfos.length;
+        const { signerInfo, certificate } = selectCmsSigner(signedData, signerIndex);
+        const signingTime = readSigningTime(signerInfo)?.toISOString() ?? null;
+
+        return {
+            signerInfoCount,
+            subject: formatName(certificate.subject),
+            signingTime,
+            timestamped: hasSignatureTimestamp(signerInfo),
+        };
+    } catch {
+        return { signerInfoCount, subject: null, signingTime: null, timestamped: false };
+    }
+}
+
+export function summarizeSignature(pdfBuffer: Buffer, signature: PdfSignature, signerIndex = 0): SignatureSummary {
+    const [, length1, offset2, length2] = signature.byteRange;
+    const { signerInfoCount, subject, signingTime, timestamped } = readCmsDetails(signature.contents, signerIndex);
+
+    return {
+        index: signature.index,
+        kind: signature.kind,
+        fieldName: signature.fieldName,
+        signerInfo: signerIndex,
+        signerInfoCount,
+        subject,
+        signingTime: signingTime ?? signature.pdfSigningTime,
+        byteRange: signature.byteRange,
+        coveredBytes: length1 + length2,
+        coversWholeFile: offset2 + length2 === pdfBuffer.length,
+        timestamped,
+    };
+}
+
+/**
+ * `signerIndexOf` picks the SignerInfo described for each signature; by default
+ * the first, as when proving without --signer-info.
+ */
+export function logSignatureSummaries(
+    pdfBuffer: Buffer,
+    signatures: PdfSignature[],
+    signerIndexOf: (signature: PdfSignature) => number = () => 0,
+): void {
+    console.log(`Found ${signatures.length} signature(s):`);
+
+    for (const signature of signatures) {
+        const summary = summarizeSignature(pdfBuffer, signature, signerIndexOf(signature));
+        const [offset1, length1, offset2, length2] = summary.byteRange;
+
+        const isTimestamp = summary.kind === 'doc-timestamp';
+        const kind = isTimestamp ? ' (document timestamp)' : '';
+        console.log(`\n  #${summary.index} ${summary.fieldName ?? '(unnamed field)'}${kind}`);
+        const signerInfo =
+            summary.signerInfoCount > 1 ? ` (SignerInfo #${summary.signerInfo} of ${summary.signerInfoCount})` : '';
+        console.log(`    ${isTimestamp ? 'TSA' : 'Signer'}${signerInfo}: ${summary.subject ?? 'unknown'}`);
+        console.log(`    Signing time: ${summary.signingTime ?? 'unknown'}`);
+        console.log(`    ByteRange: [${offset1} ${length1} ${offset2} ${length2}]`);
+        console.log(
+            `    Coverage: ${summary.coveredBytes} of ${pdfBuffer.length} bytes` +
+                (summary.coversWholeFile ? ' (whole file)' : ' (revision before end of file)'),
+        );
+    }
+}
@@ -0,0 +1,93 @@
+// Signing-time proofs: the _time circuits read signingTime from the signed attributes and prove
+// signed_after <= signingTime <= signed_before, with both bounds public (unix seconds)
+import type * as pkijs from 'pkijs';
+import { readSigningTime } from './signatures.ts';
+
+// Largest u64: an upper bound that excludes nothing
+export const UNBOUNDED_SIGNING_TIME = 2n ** 64n - 1n;
+
+export interface SigningTimeOptions {
+    revealSigningTime?: boolean; // prove the exact signing time (both bounds set to it)
+    signedAfter?: string; // earliest accepted signing time, ISO 8601 or unix seconds
+    signedBefore?: string; // latest accepted signing time, ISO 8601 or unix seconds
+}
+
+export interface SigningTimeWitness {
+    signing_time: string; // unix seconds; stays private unless both bounds equal it
+    signed_after: string;
+    signed_before: string;
+}
+
+export function parseTimeBound(value: string): bigint {
+    if (/^\d+$/.test(value)) {
+        return BigInt(value);
+    }
+    const millis = Date.parse(value);
+    if (Number.isNaN(millis) || millis < 0) {
+        throw new Error(`Invalid time "${value}" (expected an ISO 8601 date after 1970 or unix seconds)`);
+    }
+    return BigInt(Math.floor(millis / 1000));
+}
+
+export function formatUnixTime(seconds: bigint | string): string {
+    const value = BigInt(seconds);
+    if (value >= UNBOUNDED_SIGNING_TIME) {
+        return 'unbounded';
+    }
+    return `${new Date(Number(value) * 1000).toISOString()} (${value})`;
+}
+
+export function wantsSigningTime(options: SigningTimeOptions): boolean {
+    return Boolean(options.revealSigningTime || options.signedAfter || options.signedBefore);
+}
+
+/**
+ * Bounds the _time circuits prove the signer's signingTime against. Refuses early when
+ * the signature has no signingTime or falls outside the requested range.
+ */
+export function proveSigningTime(
+    signerInfo: pkijs.SignerInfo,
+    options: SigningTimeOptions,
+): SigningTimeWitness | undefined {
+    if (!wantsSigningTime(options)) {
+        return undefined;
+    }
+    const date = readSigningTime(signerInfo);
+    if (!date) {
+        // PAdES baseline signatures omit it and only claim a time in the unsigned /M entry
+        throw new Error('The SignerInfo has no signingTime attribute; the signing time cannot be proven');
+    }
+    const signingTime = BigInt(Math.floor(date.getTime() / 1000));
+
+    let signedAfter = options.signedAfter ? parseTimeBound(options.signedAfter) : 0n;
+    let signedBefore = options.signedBefore ? parseTimeBound(options.signedBefore) : UNBOUNDED_SIGNING_TIME;
+    if (options.revealSigningTime) {
+        signedAfter = signingTime;
+        signedBefore = signingTime;
+    }
+    if (signingTime < signedAfter || signingTime > signedBefore) {
+        throw new Error(
+            `Signing time ${date.toISOString()} is outside the requested range ` +
+                `${formatUnixTime(signedAfter)} .. ${formatUnixTime(signedBefore)}`,
+        );
+    }
+
+    return {
+        signing_time: signingTime.toString(),
+        signed_after: signedAfter.toString(),
+        signed_before: signedBefore.toString(),
+    };
+}
+
+// Circuit name suffix: circuits without a signing-time proof keep their original names
+export function signingTimeCircuitSuffix(signingTime: boolean): string {
+    return signingTime ? '_time' : '';
+}
+
+// Noir inputs shared by the *_time circuits; the signing time itself is read from signed_attrs
+export function signingTimeNoirInputs(witness: SigningTimeWitness) {
+    return {
+        signed_after: witness.signed_after,
+        signed_before: witness.signed_before,
+    };
+}
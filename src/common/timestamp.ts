@@ -0,0 +1,155 @@
+// RFC 3161 signature timestamps (PAdES B-T): a TSA-signed TSTInfo whose message imprint is
+// the hash of the SignerInfo signature value, carried as an unsigned attribute
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import {
+    type CertificateStore,
+    type ChainValidationResult,
+    OID_KP_TIME_STAMPING,
+    validateSignerChain,
+} from './chain.ts';
+import { selectCmsSigner } from './cms.ts';
+import { type DigestAlgorithm, digest, digestAlgorithmFromOid } from './digest.ts';
+import { formatName } from './signatures.ts';
+
+const OID_SIGNATURE_TIME_STAMP_TOKEN = '1.2.840.113549.1.9.16.2.14';
+const OID_TST_INFO = '1.2.840.113549.1.9.16.1.4';
+
+export interface SignatureTimestamp {
+    gen_time: string; // time the TSA asserts the signature existed at
+    tsa: string | null; // TSA certificate subject, null when the token does not include it
+    tsa_certificate: Buffer | null; // DER
+    hash_algorithm: DigestAlgorithm;
+    serial: string; // TSTInfo serial number (hex)
+    tsa_chain: ChainValidationResult | null; // TSA path validation at gen_time, null without a TSA certificate
+    validated: boolean; // no errors and the TSA chain reaches a trust anchor
+    errors: string[];
+}
+
+function readTimestampToken(signerInfo: pkijs.SignerInfo): { token: pkijs.SignedData; der: Buffer } | null {
+    const attribute = signerInfo.unsignedAttrs?.attributes.find((attr) => attr.type === OID_SIGNATURE_TIME_STAMP_TOKEN);
+    if (!attribute) {
+        return null;
+    }
+    const contentInfo = new pkijs.ContentInfo({ schema: attribute.values[0] });
+    if (contentInfo.contentType !== pkijs.ContentInfo.SIGNED_DATA) {
+        throw new Error('signatureTimeStampToken is not a CMS SignedData');
+    }
+    return {
+        token: new pkijs.SignedData({ schema: contentInfo.content }),
+        der: Buffer.from(attribute.values[0].toBER()),
+    };
+}
+
+function readTstInfo(token: pkijs.SignedData): pkijs.TSTInfo {
+    const { eContentType, eContent } = token.encapContentInfo;
+    if (eContentType !== OID_TST_INFO || !eContent) {
+        throw new Error('signatureTimeStampToken does not encapsulate a TSTInfo');
+    }
+    const asn1 = asn1js.fromBER(eContent.getValue());
+    if (asn1.offset === -1) {
+        throw new Error('Failed to parse TSTInfo ASN.1');
+    }
+    return new pkijs.TSTInfo({ schema: asn1.result });
+}
+
+// pkijs checks the imprint against `data` again before verifying the TSA signature
+async function verifyTokenSignature(token: pkijs.SignedData, data: Uint8Array): Promise<string | null> {
+    try {
+        const verified = await token.verify({
+            signer: 0,
+            data: data.slice().buffer,
+            checkChain: false,
+            extendedMode: true,
+        });
+        return verified.signatureVerified ? null : 'TSA signature over the TSTInfo does not verify';
+    } catch (err) {
+        const message = (err as { message?: string }).message ?? String(err);
+        return `TSA signature could not be verified: ${message}`;
+    }
+}
+
+/**
+ * The signatureTimeStampToken of a SignerInfo, checked offline: the imprint must be the
+ * hash of this SignerInfo's signature value, and then the TSA signature must verify with
+ * the certificate in the token. That certificate is path-validated against `store` at
+ * genTime for id-kp-timeStamping; without a valid path the timestamp is only unvalidated.
+ */
+export async function checkSignatureTimestamp(
+    signerInfo: pkijs.SignerInfo,
+    store: CertificateStore,
+): Promise<SignatureTimestamp | null> {
+    const timestampToken = readTimestampToken(signerInfo);
+    if (!timestampToken) {
+        return null;
+    }
+    const { token, der } = timestampToken;
+    const tstInfo = readTstInfo(token);
+    const hashAlgorithm = digestAlgorithmFromOid(tstInfo.messageImprint.hashAlgorithm.algorithmId);
+    const errors: string[] = [];
+
+    const signatureValue = signerInfo.signature.valueBlock.valueHexView;
+    const expected = Buffer.from(digest(hashAlgorithm, signatureValue));
+    if (!expected.equals(Buffer.from(tstInfo.messageImprint.hashedMessage.valueBlock.valueHexView))) {
+        errors.push('message imprint does not cover the signature value');
+    } else {
+        const signatureError = await verifyTokenSignature(token, signatureValue);
+        if (signatureError) {
+            errors.push(signatureError);
+        }
+    }
+
+    let tsaCertificate: pkijs.Certificate | null = null;
+    try {
+        tsaCertificate = selectCmsSigner(token).certificate;
+    } catch {
+        // certReq was false: the token names the TSA but does not carry its certificate
+    }
+    const tsaCertificateDer = tsaCertificate ? Buffer.from(tsaCertificate.toSchema().toBER()) : null;
+    const tsaChain = tsaCertificateDer
+        ? await validateSignerChain({ contents: der, pdfSigningTime: null }, tsaCertificateDer, store, 0, {
+              extendedKeyUsage: OID_KP_TIME_STAMPING,
+              timestampTime: tstInfo.genTime,
+          })
+        : null;
+
+    return {
+        gen_time: tstInfo.genTime.toISOString(),
+        tsa: tsaCertificate ? formatName(tsaCertificate.subject) : null,
+        tsa_certificate: tsaCertificateDer,
+        hash_algorithm: hashAlgorithm,
+        serial: Buffer.from(tstInfo.serialNumber.valueBlock.valueHexView).toString('hex'),
+        tsa_chain: tsaChain,
+        validated: errors.length === 0 && tsaChain?.valid === true,
+        errors,
+    };
+}
+
+export function logSignatureTimestamp(timestamp: SignatureTimestamp | null): void {
+    if (!timestamp) {
+        console.log('  No signature timestamp (PAdES B-B); the signing time is only claimed by the signer');
+        return;
+    }
+    const tsa = timestamp.tsa ?? 'TSA certificate not included';
+    console.log(`  Signature timestamp: ${timestamp.gen_time} by ${tsa} (serial ${timestamp.serial})`);
+    if (timestamp.errors.length > 0) {
+        for (const error of timestamp.errors) {
+            console.log(`  ✗ ${error}`);
+        }
+        return;
+    }
+    console.log(`  ✓ Imprint covers the signature value (${timestamp.hash_algorithm}), TSA signature verifies`);
+    if (timestamp.validated) {
+        console.log('  ✓ TSA certificate chain valid up to a trust anchor (id-kp-timeStamping)');
+        return;
+    }
+    const reasons = timestamp.tsa_chain?.errors ?? ['the token does not include the TSA certificate'];
+    console.log(`  ! Timestamp unvalidated: ${reasons.join('; ')}`);
+}
+
+// A timestamp that does not check out is refused rather than ignored, as it would misstate the signing time
+export function assertSignatureTimestamp(timestamp: SignatureTimestamp | null): void {
+    if (timestamp && timestamp.errors.length > 0) {
+        throw new Error(`Signature timestamp check failed: ${timestamp.errors.join('; ')}`);
+    }
+}
@@ -1,74 +1,108 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { Barretenberg } from '@aztec/bb.js';
+import type { Barretenberg } from '@aztec/bb.js';
+import { pedersenHashPair, poseidon2HashPair } from './native-hash.ts';
 import { bigintToUint8Array, uint8ArrayToBigint, hexToField, fieldToHex, fieldToDecimal } from './utils.ts';
 
+// Keep in sync with Noir circuits: each depth has its own circuit variants (merkle_path length)
+export const DEFAULT_TREE_DEPTH = 8;
+export const SUPPORTED_TREE_DEPTHS = [8, 16, 20];
+
 interface Allowlist {
     cert_fingerprints: string[];
+    depth?: number;
+}
+
+// Smallest supported depth that fits all leaves
+export function treeDepthFor(leafCount: number): number {
+    const depth = SUPPORTED_TREE_DEPTHS.find((d) => leafCount <= 2 ** d);
+    if (depth === undefined) {
+        throw new Error(`Allowlist too large: ${leafCount} leaves exceed a depth ${SUPPORTED_TREE_DEPTHS.at(-1)} tree`);
+    }
+    return depth;
 }
 
-async function pedersenMerkleHash(bbApi: Barretenberg, left: bigint, right: bigint): Promise<bigint> {
-    const leftFr = bigintToUint8Array(left);
-    const rightFr = bigintToUint8Array(right);
+// Circuit name suffix: depth 8 circuits keep their original names
+export function treeDepthCircuitSuffix(depth: number): string {
+    return depth === DEFAULT_TREE_DEPTH ? '' : `_d${depth}`;
+}
 
-    const result = await bbApi.pedersenHash({ inputs: [leftFr, rightFr], hashIndex: 0 });
-    const hashFr = result.hash;
+// Hash modes with both a TypeScript hasher and circuit variants; the mode is part of each circuit name
+export const MERKLE_MODES = ['pedersen', 'poseidon'];
 
-    return uint8ArrayToBigint(hashFr);
+export function assertMerkleMode(mode: string): void {
+    if (!MERKLE_MODES.includes(mode)) {
+        throw new Error(`Unknown Merkle hash mode "${mode}" (expected ${MERKLE_MODES.join(' or ')})`);
+    }
 }
 
-async function poseidonMerkleHash(bbApi: Barretenberg, left: bigint, right: bigint): Promise<bigint> {
-    const leftFr = bigintToUint8Array(left);
-    const rightFr = bigintToUint8Array(right);
+export type MerkleHasher = (left: bigint, right: bigint) => Promise<bigint>;
 
-    const result = await bbApi.poseidon2Hash({ inputs: [leftFr, rightFr] });
-    const hashFr = result.hash;
+function bbMerkleHasher(bbApi: Barretenberg, mode: string): MerkleHasher {
+    if (mode === 'pedersen') {
+        return async (left, right) => {
+            const inputs = [bigintToUint8Array(left), bigintToUint8Array(right)];
+            return uint8ArrayToBigint((await bbApi.pedersenHash({ inputs, hashIndex: 0 })).hash);
+        };
+    }
+    return async (left, right) => {
+        const inputs = [bigintToUint8Array(left), bigintToUint8Array(right)];
+        return uint8ArrayToBigint((await bbApi.poseidon2Hash({ inputs })).hash);
+    };
+}
 
-    return uint8ArrayToBigint(hashFr);
+/**
+ * Two-to-one hash of the given mode, as used by the circuits' Merkle gadgets.
+ * Hashes natively unless a Barretenberg instance is passed to hash through bb.js.
+ */
+export function merkleHasher(mode: string, bbApi?: Barretenberg): MerkleHasher {
+    assertMerkleMode(mode);
+    if (bbApi) {
+        return bbMerkleHasher(bbApi, mode);
+    }
+    const hashPair = mode === 'pedersen' ? pedersenHashPair : poseidon2HashPair;
+    return async (left, right) => hashPair(left, right);
 }
 
-// Build Merkle tree from leaves
-async function buildMerkleTree(
-    bbApi: Barretenberg,
+// Root of an all-zero subtree of each height: zeros[0] is the empty leaf
+async function zeroSubtreeHashes(hash: MerkleHasher, depth: number): Promise<bigint[]> {
+    const zeros = [0n];
+    for (let level = 0; level < depth; level++) {
+        zeros.push(await hash(zeros[level], zeros[level]));
+    }
+    return zeros;
+}
+
+// Build Merkle tree from leaves. Layers only hold the non-empty prefix; the
+// padding to 2^depth leaves is covered by the precomputed zero subtrees.
+export async function buildMerkleTree(
+    hash: MerkleHasher,
     leaves: bigint[],
-    mode: string,
-    depth = 8,
+    depth = DEFAULT_TREE_DEPTH,
 ): Promise<{
     root: bigint;
     layers: bigint[][];
+    zeros: bigint[];
 }> {
     if (leaves.length === 0) {
         throw new Error('Cannot build tree from empty leaves');
     }
-
-    // Select hash function based on mode
-    let hashFn: (bbApi: Barretenberg, left: bigint, right: bigint) => Promise<bigint>;
-
-    if (mode === 'pedersen') {
-        hashFn = pedersenMerkleHash;
-    } else if (mode === 'poseidon') {
-        hashFn = poseidonMerkleHash;
-    } else {
-        throw new Error(`Invalid mode: ${mode}`);
+    if (leaves.length > 2 ** depth) {
+        throw new Error(`Too many leaves for a depth ${depth} tree: ${leaves.length} > ${2 ** depth}`);
     }
 
-    const paddedSize = 2 ** depth;
-    const paddedLeaves = [...leaves];
-    while (paddedLeaves.length < paddedSize) {
-        paddedLeaves.push(0n);
-    }
-
-    const layers: bigint[][] = [paddedLeaves];
+    const zeros = await zeroSubtreeHashes(hash, depth);
+    const layers: bigint[][] = [leaves];
 
     // Build tree bottom-up
-    let currentLayer = paddedLeaves;
-    while (currentLayer.length > 1) {
+    let currentLayer = leaves;
+    for (let level = 0; level < depth; level++) {
         const nextLayer: bigint[] = [];
 
         for (let i = 0; i < currentLayer.length; i += 2) {
             const left = currentLayer[i];
-            const right = currentLayer[i + 1];
-            const parent = await hashFn(bbApi, left, right);
+            const right = i + 1 < currentLayer.length ? currentLayer[i + 1] : zeros[level];
+            const parent = await hash(left, right);
             nextLayer.push(parent);
         }
 
@@ -79,11 +113,12 @@ async function buildMerkleTree(
     return {
         root: currentLayer[0],
         layers,
+        zeros,
     };
 }
 
 // Get Merkle proof for a specific leaf index
-function getMerkleProof(layers: bigint[][], index: number): bigint[] {
+export function getMerkleProof(layers: bigint[][], zeros: bigint[], index: number): bigint[] {
     const proof: bigint[] = [];
     let currentIndex = index;
 
@@ -92,7 +127,7 @@ function getMerkleProof(layers: bigint[][], index: number): bigint[] {
         const isRightChild = currentIndex % 2 === 1;
         const siblingIndex = isRightChild ? currentIndex - 1 : currentIndex + 1;
 
-        const sibling = siblingIndex < layer.length ? layer[siblingIndex] : 0n;
+        const sibling = siblingIndex < layer.length ? layer[siblingIndex] : zeros[level];
         proof.push(sibling);
 
         currentIndex = Math.floor(currentIndex / 2);
@@ -106,9 +141,10 @@ export async function createMerkleTreeFromAllowlist(
     outDir: string,
     mode: string = 'pedersen',
     isDump: boolean = false,
-    bbApi?: Barretenberg,
+    bbApi?: Barretenberg, // hash through bb.js instead of natively
 ): Promise<{
     root: string;
+    depth: number;
     proofs: Array<{
         fingerprint: string;
         index: number;
@@ -118,13 +154,6 @@ export async function createMerkleTreeFromAllowlist(
         root_decimal: string;
     }>;
 }> {
-    const ownsBbApi = !bbApi;
-    const bb =
-        bbApi ??
-        (await Barretenberg.initSingleton({
-            threads: 4,
-        }));
-
     const modeLabel = mode.charAt(0).toUpperCase() + mode.slice(1);
     console.log(`Building ${modeLabel} Merkle tree from allowlist...`);
 
@@ -135,9 +164,14 @@ export async function createMerkleTreeFromAllowlist(
     console.log(`\nFound ${allowlist.cert_fingerprints.length} fingerprints`);
 
     const leaves = allowlist.cert_fingerprints.map(hexToField);
+    const treeDepth = allowlist.depth ?? treeDepthFor(leaves.length);
+    if (!SUPPORTED_TREE_DEPTHS.includes(treeDepth)) {
+        throw new Error(`Unsupported tree depth ${treeDepth} (supported: ${SUPPORTED_TREE_DEPTHS.join(', ')})`);
+    }
 
-    console.log(`\nBuilding Merkle tree with ${modeLabel} hash (Barretenberg native/async)...`);
-    const { root, layers } = await buildMerkleTree(bb, leaves, mode);
+    const backend = bbApi ? 'Barretenberg' : 'native';
+    console.log(`\nBuilding Merkle tree with ${modeLabel} hash (${backend})...`);
+    const { root, layers, zeros } = await buildMerkleTree(merkleHasher(mode, bbApi), leaves, treeDepth);
 
     const depth = layers.length - 1;
     console.log(`\nTree built:`);
@@ -153,7 +187,7 @@ export async function createMerkleTreeFromAllowlist(
     const proofs = [];
     for (let i = 0; i < allowlist.cert_fingerprints.length; i++) {
         const fingerprint = allowlist.cert_fingerprints[i];
-        const proof = getMerkleProof(layers, i);
+        const proof = getMerkleProof(layers, zeros, i);
 
         const proofData = {
             fingerprint,
@@ -188,14 +222,10 @@ export async function createMerkleTreeFromAllowlist(
     }
 
     console.log('\n✓ Done.');
-    if (ownsBbApi) {
-        console.log('Destroying Barretenberg singleton...');
-        await Barretenberg.destroySingleton();
-        console.log('✓ Barretenberg singleton destroyed.');
-    }
 
     return {
         root: rootDecimal,
+        depth,
         proofs,
     };
 }
@@ -0,0 +1,218 @@
+// ETSI TS 119 612 Trusted Lists (national TLs and the EU List of Trusted Lists) as allowlist sources
+import { ALLOWLIST_VERSION, type Allowlist, type AllowlistEntry, describeCertificate } from './allowlist.ts';
+import { childElements, descendants, elementAt, parseXml, textAt, type XmlElement } from './xml.ts';
+
+const SERVICE_TYPE_PREFIX = 'http://uri.etsi.org/TrstSvc/Svctype/';
+const SERVICE_STATUS_PREFIX = 'http://uri.etsi.org/TrstSvc/TrustedList/Svcstatus/';
+const LOTL_TYPE = 'http://uri.etsi.org/TrstSvc/TrustedList/TSLType/EUlistofthelists';
+
+export const DEFAULT_SERVICE_TYPES = ['CA/QC'];
+export const DEFAULT_SERVICE_STATUSES = ['granted'];
+
+export interface TrustedListSource {
+    type: 'lotl' | 'tl';
+    territory: string;
+    sequence_number: number;
+    issue_date: string;
+    next_update: string | null;
+    location?: string; // TSLLocation of the LOTL pointer to this list
+}
+
+export interface TrustedListPointer {
+    territory: string | null;
+    location: string;
+}
+
+export interface TrustService {
+    provider: string;
+    name: string;
+    type: string; // without the ETSI URI prefix, e.g. CA/QC
+    status: string; // without the ETSI URI prefix, e.g. granted
+    certificates: Buffer[];
+    territory: string; // SchemeTerritory of the list the service was published in
+}
+
+export interface TrustedList {
+    source: TrustedListSource;
+    services: TrustService[];
+    pointers: TrustedListPointer[]; // only filled for the LOTL
+}
+
+export interface ServiceFilter {
+    serviceTypes: string[];
+    statuses: string[];
+}
+
+function shortUri(value: string, prefix: string): string {
+    return value.startsWith(prefix) ? value.slice(prefix.length) : value;
+}
+
+// Multilingual <Name xml:lang="..."> lists: English if present, otherwise the first entry
+function preferredName(element: XmlElement | undefined): string {
+    if (!element) {
+        return '';
+    }
+    const names = childElements(element, 'Name');
+    const english = names.find((name) => name.attributes['xml:lang'] === 'en');
+    return (english ?? names[0])?.text.trim() ?? '';
+}
+
+function requiredText(element: XmlElement, path: string[]): string {
+    const value = textAt(element, path);
+    if (!value) {
+        throw new Error(`Trusted List has no ${path.join('/')}`);
+    }
+    return value;
+}
+
+function parseService(territory: string, provider: string, service: XmlElement): TrustService | null {
+    const info = elementAt(service, ['ServiceInformation']);
+    if (!info) {
+        return null;
+    }
+    const certificates = descendants(elementAt(info, ['ServiceDigitalIdentity']) ?? info, 'X509Certificate').map(
+        (cert) => Buffer.from(cert.text.replace(/\s+/g, ''), 'base64'),
+    );
+    return {
+        provider,
+        name: preferredName(elementAt(info, ['ServiceName'])),
+        type: shortUri(textAt(info, ['ServiceTypeIdentifier']) ?? '', SERVICE_TYPE_PREFIX),
+        status: shortUri(textAt(info, ['ServiceStatus']) ?? '', SERVICE_STATUS_PREFIX),
+        certificates,
+        territory,
+    };
+}
+
+function parsePointer(pointer: XmlElement): TrustedListPointer | null {
+    const location = textAt(pointer, ['TSLLocation']);
+    if (!location) {
+        return null;
+    }
+    const territory = descendants(pointer, 'SchemeTerritory')[0]?.text.trim() ?? null;
+    return { territory, location };
+}
+
+/**
+ * Parse a TrustServiceStatusList document: scheme information, the services of
+ * every provider, and (for the LOTL) the pointers to national lists.
+ */
+export function parseTrustedList(xml: string): TrustedList {
+    const root = parseXml(xml);
+    if (root.name !== 'TrustServiceStatusList') {
+        throw new Error(`Not a Trusted List: root element is <${root.name}>`);
+    }
+
+    const scheme = elementAt(root, ['SchemeInformation']);
+    if (!scheme) {
+        throw new Error('Trusted List has no SchemeInformation');
+    }
+
+    const sequenceNumber = Number(requiredText(scheme, ['TSLSequenceNumber']));
+    if (!Number.isInteger(sequenceNumber)) {
+        throw new Error('Trusted List TSLSequenceNumber is not an integer');
+    }
+
+    const source: TrustedListSource = {
+        type: textAt(scheme, ['TSLType']) === LOTL_TYPE ? 'lotl' : 'tl',
+        territory: requiredText(scheme, ['SchemeTerritory']),
+        sequence_number: sequenceNumber,
+        issue_date: requiredText(scheme, ['ListIssueDateTime']),
+        next_update: textAt(scheme, ['NextUpdate', 'dateTime']) ?? null,
+    };
+
+    const services: TrustService[] = [];
+    for (const provider of descendants(root, 'TrustServiceProvider')) {
+        const providerName = preferredName(elementAt(provider, ['TSPInformation', 'TSPName']));
+        for (const service of childElements(elementAt(provider, ['TSPServices']) ?? provider, 'TSPService')) {
+            const parsed = parseService(source.territory, providerName, service);
+            if (parsed) {
+                services.push(parsed);
+            }
+        }
+    }
+
+    const pointers = descendants(scheme, 'OtherTSLPointer')
+        .map(parsePointer)
+        .filter((pointer): pointer is TrustedListPointer => pointer !== null);
+
+    return { source, services, pointers };
+}
+
+/**
+ * Check national lists against the LOTL: each list gets the TSLLocation of its
+ * pointer, and pointers without a loaded list are reported.
+ */
+export function matchLotlPointers(
+    lotl: TrustedList,
+    lists: TrustedList[],
+): { missing: TrustedListPointer[]; unlisted: TrustedList[] } {
+    // The LOTL also points to itself and to its own XML/PDF variants
+    const pointers = lotl.pointers.filter((p) => p.territory !== lotl.source.territory);
+    const unlisted: TrustedList[] = [];
+
+    for (const list of lists) {
+        const pointer = pointers.find((p) => p.territory === list.source.territory);
+        if (pointer) {
+            list.source.location = pointer.location;
+        } else {
+            unlisted.push(list);
+        }
+    }
+
+    const loaded = new Set(lists.map((list) => list.source.territory));
+    const missing = pointers.filter(
+        (p, i) => !loaded.has(p.territory ?? '') && pointers.findIndex((q) => q.territory === p.territory) === i,
+    );
+    return { missing, unlisted };
+}
+
+/**
+ * Fingerprint the certificates of matching services into a CA allowlist.
+ * Certificates with unsupported keys are reported and skipped; the same key
+ * listed under several certificates produces a single leaf.
+ */
+export function buildAllowlistFromTrustedLists(
+    lists: TrustedList[],
+    filter: ServiceFilter,
+    lotl?: TrustedList,
+): { allowlist: Allowlist; services: TrustService[]; skipped: string[] } {
+    const types = new Set(filter.serviceTypes.map((t) => shortUri(t, SERVICE_TYPE_PREFIX)));
+    const statuses = new Set(filter.statuses.map((s) => shortUri(s, SERVICE_STATUS_PREFIX)));
+
+    const services = lists
+        .flatMap((list) => list.services)
+        .filter((service) => types.has(service.type) && statuses.has(service.status));
+
+    const byFingerprint = new Map<string, AllowlistEntry>();
+    const skipped: string[] = [];
+    for (const service of services) {
+        const label = `${service.territory} ${service.provider} / ${service.name}`;
+        for (const certificate of service.certificates) {
+            try {
+                const entry = describeCertificate(certificate, label);
+                if (!byFingerprint.has(entry.fingerprint)) {
+                    byFingerprint.set(entry.fingerprint, entry);
+                }
+            } catch (err) {
+                skipped.push(`${service.provider} / ${service.name}: ${(err as Error).message}`);
+            }
+        }
+    }
+
+    if (byFingerprint.size === 0) {
+        throw new Error('No certificates matched the service type and status filters');
+    }
+
+    const entries = [...byFingerprint.values()].sort((a, b) => (a.fingerprint < b.fingerprint ? -1 : 1));
+    return {
+        allowlist: {
+            version: ALLOWLIST_VERSION,
+            kind: 'ca',
+            cert_fingerprints: entries.map((entry) => entry.fingerprint),
+            entries,
+            trusted_lists: [...(lotl ? [lotl.source] : []), ...lists.map((list) => list.source)],
+        },
+        services,
+        skipped,
+    };
+}
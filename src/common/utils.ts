@@ -43,3 +43,13 @@ export function uint8ArrayToBigint(bytes: Uint8Array): bigint {
     }
     return result;
 }
+
+// Zero-pad to a circuit's fixed array length
+export function padBytes(bytes: Uint8Array, length: number): Uint8Array {
+    if (bytes.length > length) {
+        throw new Error(`Byte array too long: ${bytes.length} > ${length}`);
+    }
+    const padded = new Uint8Array(length);
+    padded.set(bytes, 0);
+    return padded;
+}
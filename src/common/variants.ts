@@ -0,0 +1,84 @@
+// Prover options that select a circuit variant. They are known before the PDF is read,
+// so a combination without a circuit is refused before any preparation.
+import fs from 'node:fs';
+import { type AllowlistKind, parseAllowlistKind, readAllowlistFile } from './allowlist.ts';
+import type { CommonPreparationResult } from './pades.ts';
+import type { RevocationOptions } from './revocation.ts';
+import { circuitExists } from './runner.ts';
+import { type SigningTimeOptions, wantsSigningTime } from './signing-time.ts';
+import { treeDepthFor } from './tree.ts';
+
+export interface CircuitOptions {
+    mode: string; // Merkle hash mode
+    allowlistKind: AllowlistKind;
+    treeDepth: number;
+    revocation: boolean; // --revocation-list: prove non-revocation with a _rev circuit
+    signingTime: boolean; // signing-time bounds: prove them with a _time circuit
+}
+
+type CircuitSelectingOptions = { allowlistCertPaths?: string[] } & RevocationOptions & SigningTimeOptions;
+
+/**
+ * Allowlist kind and tree depth as prepareCommon will build them: certificates
+ * given on the command line make a signer allowlist of the smallest fitting depth.
+ */
+export function readCircuitOptions(
+    mode: string,
+    allowlistPath: string,
+    options: CircuitSelectingOptions,
+): CircuitOptions {
+    const { allowlistCertPaths } = options;
+    const revocation = options.revocationListPath !== undefined;
+    const signingTime = wantsSigningTime(options);
+    if (allowlistCertPaths && allowlistCertPaths.length > 0) {
+        return {
+            mode,
+            allowlistKind: 'signer',
+            treeDepth: treeDepthFor(allowlistCertPaths.length),
+            revocation,
+            signingTime,
+        };
+    }
+    if (!fs.existsSync(allowlistPath)) {
+        throw new Error(`File not found: ${allowlistPath}`);
+    }
+    const allowlist = readAllowlistFile(allowlistPath);
+    return {
+        mode,
+        allowlistKind: parseAllowlistKind(allowlist.kind),
+        treeDepth: allowlist.depth ?? treeDepthFor(allowlist.cert_fingerprints.length),
+        revocation,
+        signingTime,
+    };
+}
+
+// The same options, read back from a prepared run
+export function circuitOptionsOf(prep: CommonPreparationResult, mode: string): CircuitOptions {
+    return {
+        mode,
+        allowlistKind: prep.allowlist_kind,
+        treeDepth: prep.tree_depth,
+        revocation: prep.revocation !== undefined,
+        signingTime: prep.signing_time !== undefined,
+    };
+}
+
+export function describeCircuitOptions(options: CircuitOptions): string {
+    const kind = options.allowlistKind === 'ca' ? 'CA' : 'signer';
+    const parts = [`${kind} allowlist of depth ${options.treeDepth}`, `${options.mode} mode`];
+    if (options.revocation) {
+        parts.push('--revocation-list');
+    }
+    if (options.signingTime) {
+        parts.push('signing-time bounds');
+    }
+    return parts.join(', ');
+}
+
+export function assertCircuitOptions(circuitName: string, options: CircuitOptions): void {
+    if (!circuitExists(circuitName)) {
+        throw new Error(
+            `Unsupported option combination (${describeCircuitOptions(options)}): circuits/${circuitName} does not exist`,
+        );
+    }
+}
@@ -0,0 +1,231 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { UltraHonkBackend as BarretenbergBackend, UltraHonkVerifierBackend } from '@aztec/bb.js';
+import { oracleHashOptions, type OracleHash } from './pades.ts';
+import { comparePublicInputs, decodePublicInputs, formatPublicInput, getPublicInputLayout } from './public-inputs.ts';
+import { loadCircuit, repositoryCircuitPath } from './runner.ts';
+import { formatUnixTime, parseTimeBound, type SigningTimeOptions } from './signing-time.ts';
+import { sha256 } from './utils.ts';
+
+export interface ArtifactManifest {
+    version: number;
+    circuit?: string;
+    oracle_hash?: OracleHash;
+    doc_hash: string;
+    signed_attrs_hash: string;
+    tl_root: string;
+    revocation_root?: string;
+    signed_after?: string;
+    signed_before?: string;
+    timestamp?: string;
+    [key: string]: unknown;
+}
+
+export interface ProofArtifacts {
+    proof: Uint8Array;
+    publicInputs: string[];
+    vkey: Uint8Array;
+    manifest: ArtifactManifest;
+}
+
+function readArtifact(artifactsDir: string, name: string): Buffer {
+    const filePath = path.join(artifactsDir, name);
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`File not found: ${filePath}`);
+    }
+    return fs.readFileSync(filePath);
+}
+
+/**
+ * Load proof.json, vkey.bin and manifest.json as written by writeProofArtifacts.
+ */
+export function loadProofArtifacts(artifactsDir: string): ProofArtifacts {
+    const proofJson = JSON.parse(readArtifact(artifactsDir, 'proof.json').toString('utf-8'));
+    const vkey = readArtifact(artifactsDir, 'vkey.bin');
+    const manifest = JSON.parse(readArtifact(artifactsDir, 'manifest.json').toString('utf-8'));
+
+    if (typeof proofJson.proof !== 'string' || !Array.isArray(proofJson.publicInputs)) {
+        throw new Error('proof.json must contain a hex "proof" and a "publicInputs" array');
+    }
+
+    return {
+        proof: new Uint8Array(Buffer.from(proofJson.proof, 'hex')),
+        publicInputs: proofJson.publicInputs,
+        vkey: new Uint8Array(vkey),
+        manifest,
+    };
+}
+
+async function compiledVerificationKey(circuitPath: string, oracleHash?: OracleHash): Promise<Uint8Array> {
+    const circuit = await loadCircuit(circuitPath);
+    const backend = new BarretenbergBackend(circuit.bytecode, { threads: 4 });
+    try {
+        return await backend.getVerificationKey(oracleHashOptions(oracleHash));
+    } finally {
+        await backend.destroy();
+    }
+}
+
+/**
+ * Verification key the proof is checked against. vkey.bin and the manifest come from
+ * the prover, so the circuit must be one of this repository's, and the key either the
+ * one compiled from circuits/<circuit> or match a SHA-256 the verifier pinned.
+ */
+export async function trustedVerificationKey(artifacts: ProofArtifacts, vkeyHash?: string): Promise<Uint8Array> {
+    const { manifest } = artifacts;
+    if (!manifest.circuit) {
+        throw new Error('manifest.json does not name the circuit the proof was made with');
+    }
+    const circuitPath = repositoryCircuitPath(manifest.circuit);
+
+    if (vkeyHash) {
+        const actual = Buffer.from(sha256(artifacts.vkey)).toString('hex');
+        if (actual !== vkeyHash.replace(/^0x/i, '').toLowerCase()) {
+            throw new Error(`vkey.bin does not match the pinned --vkey-hash (SHA-256 ${actual})`);
+        }
+        return artifacts.vkey;
+    }
+
+    const vkey = await compiledVerificationKey(circuitPath, manifest.oracle_hash);
+    if (!Buffer.from(vkey).equals(Buffer.from(artifacts.vkey))) {
+        throw new Error(`vkey.bin is not the verification key of circuits/${manifest.circuit}`);
+    }
+    return vkey;
+}
+
+function matchesRoot(expected: string, root: bigint): boolean {
+    try {
+        return BigInt(expected) === root;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Verify saved proof artifacts without the PDF: the proof is checked against the
+ * verification key of the circuit the manifest names (see trustedVerificationKey).
+ * A pinned revocation root also
+ * requires the proof to come from a revocation (_rev) circuit, and signing-time
+ * limits one from a _time circuit whose proven range lies within them.
+ */
+export async function verifyArtifacts(
+    artifactsDir: string,
+    expectedTlRoot: string,
+    expectedRevocationRoot?: string,
+    signingTimeLimits: Pick<SigningTimeOptions, 'signedAfter' | 'signedBefore'> = {},
+    vkeyHash?: string,
+): Promise<boolean> {
+    console.log('=== Artifact Verification ===\n');
+    console.log(`  Artifacts: ${artifactsDir}`);
+
+    console.log('\n[1/4] Loading artifacts...');
+    const artifacts = loadProofArtifacts(artifactsDir);
+    const { manifest } = artifacts;
+    console.log(`  Version: ${manifest.version}`);
+    if (manifest.circuit) {
+        console.log(`  Circuit: ${manifest.circuit} (${manifest.oracle_hash ?? 'poseidon'} oracle)`);
+    }
+    if (manifest.timestamp) {
+        console.log(`  Timestamp: ${manifest.timestamp}`);
+    }
+    console.log(`  Doc hash: ${manifest.doc_hash}`);
+    console.log(`  Signed attrs hash: ${manifest.signed_attrs_hash}`);
+    console.log(`  Proof: ${artifacts.proof.length} bytes, ${artifacts.publicInputs.length} public inputs`);
+
+    console.log(`\n[2/4] Pinning verification key${vkeyHash ? ' (--vkey-hash)' : ''}...`);
+    let verificationKey: Uint8Array;
+    try {
+        verificationKey = await trustedVerificationKey(artifacts, vkeyHash);
+    } catch (error) {
+        console.error(`  ✗ ${(error as Error).message}`);
+        return false;
+    }
+    console.log(`  ✓ Verification key of circuits/${manifest.circuit}`);
+
+    console.log('\n[3/4] Checking manifest against public inputs...');
+    const decoded = decodePublicInputs(artifacts.publicInputs, getPublicInputLayout(manifest.circuit));
+    const mismatches = comparePublicInputs(manifest, decoded);
+    if (mismatches.length > 0) {
+        for (const mismatch of mismatches) {
+            console.error(`  ✗ ${mismatch}`);
+        }
+        return false;
+    }
+    console.log('  ✓ Manifest matches public inputs');
+
+    const root = decoded.tl_root as bigint;
+    if (!matchesRoot(expectedTlRoot, root)) {
+        console.error('  ✗ Trust list root mismatch!');
+        console.error(`    Expected: ${expectedTlRoot}`);
+        console.error(`    Got: ${formatPublicInput(root)}`);
+        return false;
+    }
+    console.log('  ✓ Trust list root matches');
+
+    if (expectedRevocationRoot) {
+        const revocationRoot = decoded.revocation_root as bigint | undefined;
+        if (revocationRoot === undefined) {
+            console.error('  ✗ Proof does not commit to a revocation root');
+            return false;
+        }
+        if (!matchesRoot(expectedRevocationRoot, revocationRoot)) {
+            console.error('  ✗ Revocation root mismatch!');
+            console.error(`    Expected: ${expectedRevocationRoot}`);
+            console.error(`    Got: ${formatPublicInput(revocationRoot)}`);
+            return false;
+        }
+        console.log('  ✓ Revocation root matches');
+    } else if (decoded.revocation_root !== undefined) {
+        console.log('  ! Revocation root not pinned (--revocation-root); any revocation list is accepted');
+    }
+
+    const signedAfter = decoded.signed_after as bigint | undefined;
+    const signedBefore = decoded.signed_before as bigint | undefined;
+    const provenRange = `${formatUnixTime(signedAfter ?? 0n)} .. ${formatUnixTime(signedBefore ?? 0n)}`;
+    if (signingTimeLimits.signedAfter || signingTimeLimits.signedBefore) {
+        if (signedAfter === undefined || signedBefore === undefined) {
+            console.error('  ✗ Proof does not commit to a signing time');
+            return false;
+        }
+        const { signedAfter: after, signedBefore: before } = signingTimeLimits;
+        if ((after && signedAfter < parseTimeBound(after)) || (before && signedBefore > parseTimeBound(before))) {
+            console.error('  ✗ Proven signing time range exceeds the required one!');
+            console.error(`    Required: ${after ?? 'unbounded'} .. ${before ?? 'unbounded'}`);
+            console.error(`    Proven: ${provenRange}`);
+            return false;
+        }
+        console.log(`  ✓ Signed within ${provenRange}`);
+    } else if (signedAfter !== undefined && signedBefore !== undefined) {
+        console.log(`  ! Signed within ${provenRange}; no limit pinned (--signed-after/--signed-before)`);
+    }
+
+    console.log('\n[4/4] Verifying zero-knowledge proof...');
+    const verifier = new UltraHonkVerifierBackend({ threads: 4 });
+    try {
+        const isValid = await verifier.verifyProof(
+            {
+                proof: artifacts.proof,
+                publicInputs: artifacts.publicInputs,
+                verificationKey,
+            },
+            oracleHashOptions(manifest.oracle_hash),
+        );
+
+        if (isValid) {
+            console.log('  ✓ ZK proof verified.');
+            console.log('═══════════════════════════════════════════════════');
+            console.log('✓ All verifications passed.');
+            console.log('═══════════════════════════════════════════════════\n');
+            return true;
+        }
+
+        console.log('\n✗ Proof verification failed.');
+        console.log('The proof is invalid or does not match the verification key.');
+        return false;
+    } catch (error) {
+        console.error('\nERROR: Verification failed.', error);
+        return false;
+    } finally {
+        await verifier.destroy();
+    }
+}
@@ -0,0 +1,157 @@
+// Minimal XML reader for Trusted Lists: elements, attributes, text and CDATA; no DTDs or entities beyond the predefined ones
+export interface XmlElement {
+    name: string; // local name, namespace prefix stripped
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string; // concatenated character data directly inside this element
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: "'",
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(entity.slice(2), 16));
+        }
+        if (entity.startsWith('#')) {
+            return String.fromCodePoint(parseInt(entity.slice(1), 10));
+        }
+        const value = PREDEFINED_ENTITIES[entity];
+        if (value === undefined) {
+            throw new Error(`Unsupported XML entity ${match}`);
+        }
+        return value;
+    });
+}
+
+function localName(qualified: string): string {
+    const colon = qualified.indexOf(':');
+    return colon === -1 ? qualified : qualified.slice(colon + 1);
+}
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(ATTRIBUTE)) {
+        attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+    }
+    return attributes;
+}
+
+function skipPast(xml: string, from: number, terminator: string): number {
+    const end = xml.indexOf(terminator, from);
+    if (end === -1) {
+        throw new Error(`Unterminated XML construct at offset ${from}`);
+    }
+    return end + terminator.length;
+}
+
+/**
+ * Parse a document into its root element.
+ */
+export function parseXml(xml: string): XmlElement {
+    const stack: XmlElement[] = [];
+    let root: XmlElement | null = null;
+    let pos = 0;
+
+    while (pos < xml.length) {
+        const lt = xml.indexOf('<', pos);
+        const textEnd = lt === -1 ? xml.length : lt;
+        if (textEnd > pos && stack.length > 0) {
+            stack[stack.length - 1].text += decodeEntities(xml.slice(pos, textEnd));
+        }
+        if (lt === -1) {
+            break;
+        }
+
+        if (xml.startsWith('<?', lt)) {
+            pos = skipPast(xml, lt, '?>');
+        } else if (xml.startsWith('<!--', lt)) {
+            pos = skipPast(xml, lt, '-->');
+        } else if (xml.startsWith('<![CDATA[', lt)) {
+            const end = skipPast(xml, lt, ']]>');
+            if (stack.length > 0) {
+                stack[stack.length - 1].text += xml.slice(lt + 9, end - 3);
+            }
+            pos = end;
+        } else if (xml.startsWith('<!', lt)) {
+            pos = skipPast(xml, lt, '>');
+        } else if (xml.startsWith('</', lt)) {
+            const end = skipPast(xml, lt, '>');
+            const name = localName(xml.slice(lt + 2, end - 1).trim());
+            const open = stack.pop();
+            if (!open || open.name !== name) {
+                throw new Error(`Unexpected closing tag </${name}> at offset ${lt}`);
+            }
+            pos = end;
+        } else {
+            const end = skipPast(xml, lt, '>');
+            const selfClosing = xml[end - 2] === '/';
+            const body = xml.slice(lt + 1, selfClosing ? end - 2 : end - 1);
+            const nameEnd = body.search(/\s|$/);
+            const element: XmlElement = {
+                name: localName(body.slice(0, nameEnd)),
+                attributes: parseAttributes(body.slice(nameEnd)),
+                children: [],
+                text: '',
+            };
+
+            if (stack.length > 0) {
+                stack[stack.length - 1].children.push(element);
+            } else if (root) {
+                throw new Error('XML document has more than one root element');
+            } else {
+                root = element;
+            }
+            if (!selfClosing) {
+                stack.push(element);
+            }
+            pos = end;
+        }
+    }
+
+    if (!root || stack.length > 0) {
+        throw new Error('Malformed XML document');
+    }
+    return root;
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter((child) => child.name === name);
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find((child) => child.name === name);
+}
+
+// Follow a path of local names, e.g. ['SchemeInformation', 'TSLSequenceNumber']
+export function elementAt(element: XmlElement, path: string[]): XmlElement | undefined {
+    let current: XmlElement | undefined = element;
+    for (const name of path) {
+        current = current ? childElement(current, name) : undefined;
+    }
+    return current;
+}
+
+export function textAt(element: XmlElement, path: string[]): string | undefined {
+    return elementAt(element, path)?.text.trim();
+}
+
+// All descendants with the given local name, in document order
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+    const found: XmlElement[] = [];
+    for (const child of element.children) {
+        if (child.name === name) {
+            found.push(child);
+        }
+        found.push(...descendants(child, name));
+    }
+    return found;
+}
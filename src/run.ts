@@ -1,28 +1,81 @@
+import fs from 'node:fs';
 import path from 'node:path';
-import { runWithSpec } from './common/runner.ts';
+import { resolveCircuitPath, runWithSpec } from './common/runner.ts';
+import {
+    findSignatures,
+    logSignatureSummaries,
+    type PdfSignature,
+    selectSignature,
+    summarizeSignature,
+} from './common/signatures.ts';
+import { checkDocumentIntegrity, logIntegrityReport } from './common/integrity.ts';
+import { validateByteRange } from './common/byte-range.ts';
+import { logDocumentSecurityStore, padesLevel, readDss } from './common/dss.ts';
+import { verifyArtifacts } from './common/verify.ts';
+import { parseManifestPrivacy } from './common/pades.ts';
+import { exportSolidityVerifier } from './common/evm.ts';
 import { createEcdsaRunSpec } from './ECDSA-Pades/spec.ts';
 import { createRsaRunSpec } from './RSA-Pades/spec.ts';
 
-type RunKind = 'ecdsa' | 'rsa';
+const RUN_KINDS = ['ecdsa', 'rsa', 'list', 'verify', 'export-verifier'] as const;
+
+type RunKind = (typeof RUN_KINDS)[number];
 
 type CliOptions = {
     kind?: RunKind;
     pdfPath?: string;
     allowlistPath?: string;
     outDir?: string;
+    artifactsDir?: string;
+    tlRoot?: string;
+    revocationRoot?: string;
+    vkeyHash?: string;
+    circuit?: string;
+    proofPath?: string;
+    evm?: boolean;
     mode?: string;
+    signature?: string;
+    signerInfo?: number;
+    allowUpdates?: boolean;
+    caStorePaths?: string[];
+    allowInvalidChain?: boolean;
+    revocationListPath?: string;
+    revealSigningTime?: boolean;
+    signedAfter?: string;
+    signedBefore?: string;
+    privacy?: string;
     isDump?: boolean;
     showHelp?: boolean;
 };
 
 const usage = `=== Usage ===
-Run: bun src/run.ts <ecdsa|rsa> --pdf <path> --allowlist <path> [options]
+Run:  bun src/run.ts <ecdsa|rsa> --pdf <path> --allowlist <path> [options]
+List: bun src/run.ts list --pdf <path> [--signature <n|name> --signer-info <n>]
+Verify: bun src/run.ts verify --artifacts <dir> --tl-root <root> [--revocation-root <root>] [--signed-before <time>]
+Export: bun src/run.ts export-verifier --circuit <name|path> --out <dir> [--proof <proof.json>]
 
 Options:
   --pdf, -p         Path to the signed PDF
   --allowlist, -a   Path to the allowlist JSON
   --out, -o         Output directory (optional)
-  --mode, -m        Merkle hash mode (default: pedersen)
+  --artifacts       Directory with proof.json, vkey.bin and manifest.json (verify)
+  --tl-root         Expected trust list root, decimal or 0x-hex (verify)
+  --revocation-root Expected revocation list root; requires a proof of non-revocation (verify)
+  --vkey-hash       Trusted SHA-256 of the verification key, instead of compiling the circuit (verify)
+  --circuit         Circuit name under circuits/ or path to a Nargo project (export-verifier)
+  --proof           proof.json to encode as verify() calldata; needs its manifest.json alongside (export-verifier)
+  --evm             Prove with the keccak oracle hash so the Solidity verifier accepts the proof
+  --mode, -m        Merkle hash mode: pedersen or poseidon (default: pedersen)
+  --signature, -s   Signature to prove, by index or field name (default: first one that is not a document timestamp)
+  --signer-info     SignerInfo to prove when the signature's CMS has several (default: 0)
+  --allow-updates   Accept permitted incremental updates (DSS, timestamps, annotations) after signing
+  --ca-store        Intermediate/root certificate file or directory for chain validation (repeatable)
+  --allow-invalid-chain  Prove even if the signer's certificate chain does not validate
+  --revocation-list Revocation list JSON; also prove the signer key is not revoked
+  --signed-after    Prove signingTime is at or after this ISO 8601 date or unix time; verify: require it
+  --signed-before   Prove signingTime is at or before this ISO 8601 date or unix time; verify: require it
+  --reveal-signing-time  Prove the exact signingTime as a public input
+  --privacy         Signer data in manifest.json: full, fingerprint or none (default: none)
   --dump            Write intermediate artifacts
   --help, -h        Show this help
 `;
@@ -33,8 +86,8 @@ function parseArgs(argv: string[]): CliOptions {
 
     if (args.length > 0 && !args[0].startsWith('-')) {
         const kind = args.shift();
-        if (kind === 'ecdsa' || kind === 'rsa') {
-            opts.kind = kind;
+        if (RUN_KINDS.includes(kind as RunKind)) {
+            opts.kind = kind as RunKind;
         }
     }
 
@@ -57,10 +110,66 @@ function parseArgs(argv: string[]): CliOptions {
             case '-o':
                 opts.outDir = args.shift();
                 break;
+            case '--artifacts':
+                opts.artifactsDir = args.shift();
+                break;
+            case '--tl-root':
+                opts.tlRoot = args.shift();
+                break;
+            case '--revocation-root':
+                opts.revocationRoot = args.shift();
+                break;
+            case '--vkey-hash':
+                opts.vkeyHash = args.shift();
+                break;
+            case '--circuit':
+                opts.circuit = args.shift();
+                break;
+            case '--proof':
+                opts.proofPath = args.shift();
+                break;
+            case '--evm':
+                opts.evm = true;
+                break;
             case '--mode':
             case '-m':
                 opts.mode = args.shift();
                 break;
+            case '--signature':
+            case '-s':
+                opts.signature = args.shift();
+                break;
+            case '--signer-info':
+                opts.signerInfo = Number(args.shift());
+                break;
+            case '--allow-updates':
+                opts.allowUpdates = true;
+                break;
+            case '--ca-store': {
+                const storePath = args.shift();
+                if (storePath) {
+                    opts.caStorePaths = [...(opts.caStorePaths ?? []), storePath];
+                }
+                break;
+            }
+            case '--allow-invalid-chain':
+                opts.allowInvalidChain = true;
+                break;
+            case '--revocation-list':
+                opts.revocationListPath = args.shift();
+                break;
+            case '--signed-after':
+                opts.signedAfter = args.shift();
+                break;
+            case '--signed-before':
+                opts.signedBefore = args.shift();
+                break;
+            case '--reveal-signing-time':
+                opts.revealSigningTime = true;
+                break;
+            case '--privacy':
+                opts.privacy = args.shift();
+                break;
             case '--dump':
                 opts.isDump = true;
                 break;
@@ -86,27 +195,110 @@ if (opts.showHelp || !opts.kind) {
     process.exit(opts.showHelp ? 0 : 1);
 }
 
-if (!opts.pdfPath || !opts.allowlistPath) {
-    console.error('\nERROR: --pdf and --allowlist are required.');
-    console.log(usage);
-    process.exit(1);
+if (opts.kind === 'list') {
+    if (!opts.pdfPath) {
+        console.error('\nERROR: --pdf is required.');
+        console.log(usage);
+        process.exit(1);
+    }
+    const pdfBuffer = fs.readFileSync(resolvePath(opts.pdfPath));
+    const signatures = findSignatures(pdfBuffer);
+    // --signer-info describes the SignerInfo that would be proved for the selected signature
+    const proved = opts.signerInfo === undefined ? null : selectSignature(signatures, opts.signature);
+    const signerIndexOf = (signature: PdfSignature) => (signature === proved ? (opts.signerInfo ?? 0) : 0);
+    logSignatureSummaries(pdfBuffer, signatures, signerIndexOf);
+    console.log('');
+    logDocumentSecurityStore(readDss(pdfBuffer));
+    for (const signature of signatures) {
+        console.log('');
+        try {
+            validateByteRange(pdfBuffer, signature);
+        } catch (err) {
+            console.log(`Signature #${signature.index}: ✗ ${(err as Error).message}`);
+            continue;
+        }
+        logIntegrityReport(checkDocumentIntegrity(pdfBuffer, signature));
+        if (signature.kind === 'signature') {
+            const { timestamped } = summarizeSignature(pdfBuffer, signature, signerIndexOf(signature));
+            console.log(`  PAdES level: ${padesLevel(pdfBuffer, signature, signatures, timestamped)}`);
+        }
+    }
+    process.exit(0);
 }
 
-const pdfPath = resolvePath(opts.pdfPath);
-const allowlistPath = resolvePath(opts.allowlistPath);
-const outDir = opts.outDir ? resolvePath(opts.outDir) : undefined;
+async function runVerify(options: CliOptions): Promise<number> {
+    if (!options.artifactsDir || !options.tlRoot) {
+        console.error('\nERROR: --artifacts and --tl-root are required.');
+        console.log(usage);
+        process.exit(1);
+    }
 
-const commonOptions = {
-    pdfPath,
-    allowlistPath,
-    outDir,
-    mode: opts.mode,
-    isDump: opts.isDump
-};
+    const isValid = await verifyArtifacts(
+        resolvePath(options.artifactsDir),
+        options.tlRoot,
+        options.revocationRoot,
+        { signedAfter: options.signedAfter, signedBefore: options.signedBefore },
+        options.vkeyHash,
+    );
+    return isValid ? 0 : 1;
+}
 
-const spec = opts.kind === 'ecdsa' ? createEcdsaRunSpec(commonOptions) : createRsaRunSpec(commonOptions);
+async function runExportVerifier(options: CliOptions): Promise<number> {
+    if (!options.circuit || !options.outDir) {
+        console.error('\nERROR: --circuit and --out are required.');
+        console.log(usage);
+        process.exit(1);
+    }
+
+    await exportSolidityVerifier({
+        circuitPath: resolveCircuitPath(options.circuit),
+        outDir: resolvePath(options.outDir),
+        proofPath: options.proofPath ? resolvePath(options.proofPath) : undefined,
+    });
+    return 0;
+}
+
+async function runProof(options: CliOptions): Promise<number> {
+    if (!options.pdfPath || !options.allowlistPath) {
+        console.error('\nERROR: --pdf and --allowlist are required.');
+        console.log(usage);
+        process.exit(1);
+    }
+
+    const pdfPath = resolvePath(options.pdfPath);
+    const allowlistPath = resolvePath(options.allowlistPath);
+    const outDir = options.outDir ? resolvePath(options.outDir) : undefined;
+
+    const commonOptions = {
+        pdfPath,
+        allowlistPath,
+        outDir,
+        mode: options.mode,
+        isDump: options.isDump,
+        signature: options.signature,
+        signerInfo: options.signerInfo,
+        allowUpdates: options.allowUpdates,
+        caStorePaths: options.caStorePaths?.map(resolvePath),
+        allowInvalidChain: options.allowInvalidChain,
+        revocationListPath: options.revocationListPath ? resolvePath(options.revocationListPath) : undefined,
+        revealSigningTime: options.revealSigningTime,
+        signedAfter: options.signedAfter,
+        signedBefore: options.signedBefore,
+        privacy: parseManifestPrivacy(options.privacy),
+        oracleHash: options.evm ? ('keccak' as const) : ('poseidon' as const),
+    };
+
+    const spec = options.kind === 'ecdsa' ? createEcdsaRunSpec(commonOptions) : createRsaRunSpec(commonOptions);
+
+    return runWithSpec(spec);
+}
+
+const commands: Partial<Record<RunKind, (options: CliOptions) => Promise<number>>> = {
+    verify: runVerify,
+    'export-verifier': runExportVerifier,
+};
 
-runWithSpec(spec)
+(commands[opts.kind] ?? runProof)(opts)
     .then((code) => {
         process.exit(code);
     })
@@ -0,0 +1,67 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+    assertAllowlistMatches,
+    buildAllowlistFromCertificates,
+    parseAllowlist,
+    readAllowlistFile,
+    writeAllowlistFile,
+} from '../src/common/allowlist.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const chainDir = path.join(__dirname, 'fixtures', 'chain');
+
+test('legacy cert_fingerprints allowlists still load', () => {
+    const raw = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'examples', 'allowlist.ecdsa.json'), 'utf-8'));
+    const allowlist = parseAllowlist(raw);
+
+    expect(allowlist.version).toBeUndefined();
+    expect(allowlist.kind).toBe('signer');
+    expect(allowlist.cert_fingerprints).toEqual(raw.cert_fingerprints);
+    expect(() => assertAllowlistMatches(allowlist, 'poseidon', { root: '123', depth: 8 })).not.toThrow();
+});
+
+test('certificate entries carry metadata and round-trip through version 2 files', () => {
+    const allowlist = buildAllowlistFromCertificates([path.join(chainDir, 'intermediate.cer')], { kind: 'ca' });
+    const [entry] = allowlist.entries ?? [];
+
+    expect(entry.fingerprint).toBe(allowlist.cert_fingerprints[0]);
+    expect(entry.subject).toBe('CN=Chain Test Intermediate');
+    expect(entry.issuer).toBe('CN=Chain Test Root');
+    expect(entry.serial).toMatch(/^[0-9a-f]+$/);
+    expect(new Date(entry.not_after).getTime()).toBeGreaterThan(new Date(entry.not_before).getTime());
+    expect(entry.source).toBe('intermediate.cer');
+
+    const outPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'allowlist-')), 'allowlist.json');
+    writeAllowlistFile({ ...allowlist, mode: 'poseidon', depth: 8, root: '42' }, outPath);
+    const written = JSON.parse(fs.readFileSync(outPath, 'utf-8'));
+    expect(written.version).toBe(2);
+    expect(written.cert_fingerprints).toBeUndefined();
+
+    const loaded = readAllowlistFile(outPath);
+    expect(loaded.kind).toBe('ca');
+    expect(loaded.cert_fingerprints).toEqual(allowlist.cert_fingerprints);
+    fs.rmSync(path.dirname(outPath), { recursive: true });
+});
+
+test('declared mode, depth and root must match the computed tree', () => {
+    const allowlist = parseAllowlist({
+        version: 2,
+        mode: 'pedersen',
+        depth: 8,
+        root: '42',
+        entries: [{ fingerprint: 'ab' }],
+    });
+
+    const tree = { root: '42', depth: 8 };
+    expect(() => assertAllowlistMatches(allowlist, 'pedersen', tree)).not.toThrow();
+    expect(() => assertAllowlistMatches(allowlist, 'poseidon', tree)).toThrow('built for pedersen hashing');
+    expect(() => assertAllowlistMatches(allowlist, 'pedersen', { ...tree, root: '43' })).toThrow('root mismatch');
+    expect(() => assertAllowlistMatches({ ...allowlist, depth: 16 }, 'pedersen', tree)).toThrow('tree depth 16');
+    expect(() => parseAllowlist({ version: 3, entries: [] })).toThrow('Unsupported allowlist version 3');
+    expect(() => parseAllowlist({ fingerprints: [] })).toThrow('cert_fingerprints');
+});
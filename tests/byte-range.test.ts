@@ -0,0 +1,43 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ByteRangeError, type ByteRangeViolation, validateByteRange } from '../src/common/byte-range.ts';
+import { findSignatures, type ByteRange } from '../src/common/signatures.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+const ecdsaPdf = fs.readFileSync(path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'));
+const [signature] = findSignatures(ecdsaPdf);
+
+function violationOf(pdf: Buffer, byteRange: ByteRange): ByteRangeViolation | null {
+    try {
+        validateByteRange(pdf, { ...signature, byteRange });
+        return null;
+    } catch (err) {
+        expect(err).toBeInstanceOf(ByteRangeError);
+        return (err as ByteRangeError).violation;
+    }
+}
+
+test('accepts the example ByteRange', () => {
+    expect(violationOf(ecdsaPdf, [0, 29494, 49976, 399])).toBeNull();
+});
+
+test('rejects ByteRange geometry violations', () => {
+    expect(violationOf(ecdsaPdf, [0, 29494, 49976, -1])).toBe('malformed');
+    expect(violationOf(ecdsaPdf, [10, 29484, 49976, 399])).toBe('nonzero-start');
+    expect(violationOf(ecdsaPdf, [0, 49980, 49976, 399])).toBe('overlap');
+    expect(violationOf(ecdsaPdf, [0, 29494, 49976, 400])).toBe('out-of-bounds');
+    // Shifted segments that skip document bytes instead of /Contents
+    expect(violationOf(ecdsaPdf, [0, 29400, 49976, 399])).toBe('gap-mismatch');
+    expect(violationOf(ecdsaPdf, [0, 29494, 49980, 395])).toBe('gap-mismatch');
+});
+
+test('rejects a gap that is not a hex string', () => {
+    const tampered = Buffer.from(ecdsaPdf);
+    tampered.write('ZZ', signature.contentsOffset[0] + 10, 'latin1');
+    expect(violationOf(tampered, signature.byteRange)).toBe('gap-mismatch');
+});
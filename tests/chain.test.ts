@@ -0,0 +1,99 @@
+import { expect, test } from 'bun:test';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { readCertificateBytes } from '../src/common/allowlist.ts';
+import { parsePdfDate } from '../src/common/pdf.ts';
+import {
+    loadCertificateStore,
+    OID_KP_TIME_STAMPING,
+    redactChainValidation,
+    validateCertificateChain,
+} from '../src/common/chain.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const chainDir = path.join(__dirname, 'fixtures', 'chain');
+
+function loadCert(name: string): pkijs.Certificate {
+    const asn1 = asn1js.fromBER(readCertificateBytes(path.join(chainDir, `${name}.cer`)));
+    return new pkijs.Certificate({ schema: asn1.result });
+}
+
+const now = new Date();
+
+test('builds signer -> intermediate -> root from CMS certificates and the store', async () => {
+    const store = loadCertificateStore([path.join(chainDir, 'root.cer')]);
+    const result = await validateCertificateChain({
+        signer: loadCert('signer'),
+        certificates: [loadCert('intermediate')],
+        store,
+        checkDate: now,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.chain).toHaveLength(3);
+});
+
+test('fails without a trust anchor or outside the validity period', async () => {
+    const untrusted = await validateCertificateChain({
+        signer: loadCert('signer'),
+        certificates: [],
+        store: loadCertificateStore([path.join(chainDir, 'intermediate.cer')]),
+        checkDate: now,
+    });
+    expect(untrusted.valid).toBe(false);
+    expect(untrusted.errors).toContain('No issuer certificate found for CA certificate #1');
+
+    const expired = await validateCertificateChain({
+        signer: loadCert('signer'),
+        certificates: [],
+        store: loadCertificateStore([chainDir]),
+        checkDate: new Date('2100-01-01T00:00:00Z'),
+    });
+    expect(expired.valid).toBe(false);
+    expect(expired.errors[0]).toStartWith('Signer certificate expired at');
+});
+
+test('requires nonRepudiation on the signer certificate', async () => {
+    const result = await validateCertificateChain({
+        signer: loadCert('no-nr'),
+        certificates: [],
+        store: loadCertificateStore([chainDir]),
+        checkDate: now,
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Signer certificate keyUsage does not include nonRepudiation']);
+});
+
+test('checks the requested extendedKeyUsage instead of nonRepudiation', async () => {
+    const result = await validateCertificateChain({
+        signer: loadCert('signer'),
+        certificates: [],
+        store: loadCertificateStore([chainDir]),
+        checkDate: now,
+        extendedKeyUsage: OID_KP_TIME_STAMPING,
+    });
+    expect(result.errors).toEqual([`Signer certificate extendedKeyUsage does not include ${OID_KP_TIME_STAMPING}`]);
+});
+
+test('keeps chain details only for full privacy', () => {
+    const result = {
+        valid: true,
+        checked_at: now.toISOString(),
+        time_source: 'signing-time' as const,
+        subjects: ['CN=Chain Test signer'],
+        errors: [],
+    };
+    expect(redactChainValidation(result, 'full')).toEqual(result);
+    expect(redactChainValidation(result, 'fingerprint')).toEqual({ valid: true });
+    expect(redactChainValidation(result, 'none')).toEqual({ valid: true });
+});
+
+test('parses PDF dates with timezone offsets', () => {
+    expect(parsePdfDate("D:20240304124813+02'00'")?.toISOString()).toBe('2024-03-04T10:48:13.000Z');
+    expect(parsePdfDate('D:20240304')?.toISOString()).toBe('2024-03-04T00:00:00.000Z');
+    expect(parsePdfDate('yesterday')).toBeNull();
+});
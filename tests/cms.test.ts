@@ -0,0 +1,123 @@
+import { expect, test } from 'bun:test';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { readCertificateBytes } from '../src/common/allowlist.ts';
+import { parseCertificate } from '../src/common/chain.ts';
+import { describeSignerIdentifier, parseSignedData, selectCmsSigner } from '../src/common/cms.ts';
+import { findSignatures, formatName, type PdfSignature, summarizeSignature } from '../src/common/signatures.ts';
+import { extractSignatureFromPDF } from '../src/ECDSA-Pades/signature.ts';
+import { extractRsaSignatureFromPDF } from '../src/RSA-Pades/signature.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+const ecdsaPdf = fs.readFileSync(path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'));
+const [ecdsaSignature] = findSignatures(ecdsaPdf);
+const [rsaSignature] = findSignatures(fs.readFileSync(path.join(repoRoot, 'examples', 'RSA', 'RSA.pdf')));
+const intermediate = parseCertificate(
+    readCertificateBytes(path.join(__dirname, 'fixtures', 'chain', 'intermediate.cer')),
+);
+
+// The example CMS with a CA certificate placed first and a second SignerInfo naming that CA by key identifier
+function reorderedSignature(): PdfSignature {
+    const signedData = parseSignedData(ecdsaSignature.contents);
+    const [original] = signedData.signerInfos;
+    const ski = intermediate.extensions?.find((ext) => ext.extnID === '2.5.29.14')?.parsedValue as asn1js.OctetString;
+
+    signedData.certificates = [intermediate, ...(signedData.certificates ?? [])];
+    signedData.signerInfos.push(
+        new pkijs.SignerInfo({
+            version: 3,
+            sid: new asn1js.Primitive({
+                idBlock: { tagClass: 3, tagNumber: 0 },
+                valueHex: ski.valueBlock.valueHexView,
+            }),
+            digestAlgorithm: original.digestAlgorithm,
+            signedAttrs: original.signedAttrs,
+            signatureAlgorithm: original.signatureAlgorithm,
+            signature: original.signature,
+        }),
+    );
+
+    const contentInfo = new pkijs.ContentInfo({
+        contentType: pkijs.ContentInfo.SIGNED_DATA,
+        content: signedData.toSchema(true),
+    });
+    return { ...ecdsaSignature, contents: Buffer.from(contentInfo.toSchema().toBER()) };
+}
+
+test('the signing certificate is found by sid, not by position', () => {
+    const signedData = parseSignedData(reorderedSignature().contents);
+    expect(signedData.certificates?.[0]).toBeInstanceOf(pkijs.Certificate);
+
+    const first = selectCmsSigner(signedData);
+    expect(first.count).toBe(2);
+    expect(formatName(first.certificate.subject)).toContain('CN=TEST Testovyi Test');
+    expect(describeSignerIdentifier(first.signerInfo)).toStartWith('serial ');
+
+    const second = selectCmsSigner(signedData, 1);
+    expect(formatName(second.certificate.subject)).toBe('CN=Chain Test Intermediate');
+    expect(describeSignerIdentifier(second.signerInfo)).toStartWith('subjectKeyIdentifier ');
+
+    expect(() => selectCmsSigner(signedData, 2)).toThrow('SignerInfo #2 not found; the CMS has 2 SignerInfo(s)');
+});
+
+test('the summary describes the selected SignerInfo', () => {
+    const signature = reorderedSignature();
+    const first = summarizeSignature(ecdsaPdf, signature);
+    expect(first.signerInfoCount).toBe(2);
+    expect(first.subject).toContain('CN=TEST Testovyi Test');
+
+    const second = summarizeSignature(ecdsaPdf, signature, 1);
+    expect(second.signerInfo).toBe(1);
+    expect(second.subject).toBe('CN=Chain Test Intermediate');
+});
+
+test('the extractor fingerprints the signer even when the chain comes first', async () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cms-'));
+    const expected = await extractSignatureFromPDF(ecdsaSignature, outDir);
+    const reordered = await extractSignatureFromPDF(reorderedSignature(), outDir);
+
+    expect(reordered.certificate.equals(expected.certificate)).toBe(true);
+    expect(reordered.publicKeyFingerprintBytes.equals(expected.publicKeyFingerprintBytes)).toBe(true);
+    fs.rmSync(outDir, { recursive: true });
+});
+
+// The example CMS with the signer certificate's key replaced; only extraction looks at it
+function withSignerKey(signature: PdfSignature, publicKey: crypto.KeyObject): PdfSignature {
+    const signedData = parseSignedData(signature.contents);
+    const { certificate } = selectCmsSigner(signedData);
+    const spki = asn1js.fromBER(publicKey.export({ type: 'spki', format: 'der' }));
+    certificate.subjectPublicKeyInfo = new pkijs.PublicKeyInfo({ schema: spki.result });
+    certificate.tbsView = new Uint8Array(certificate.encodeTBS().toBER());
+
+    const contentInfo = new pkijs.ContentInfo({
+        contentType: pkijs.ContentInfo.SIGNED_DATA,
+        content: signedData.toSchema(true),
+    });
+    return { ...signature, contents: Buffer.from(contentInfo.toSchema().toBER()) };
+}
+
+test('the ECDSA extractor sizes keys and signatures from the namedCurve', async () => {
+    const p384 = crypto.generateKeyPairSync('ec', { namedCurve: 'secp384r1' }).publicKey;
+    const extracted = await extractSignatureFromPDF(withSignerKey(ecdsaSignature, p384), os.tmpdir());
+
+    expect(extracted.publicKey.curve.name).toBe('P-384');
+    expect(extracted.publicKey.x.length).toBe(48);
+    expect(extracted.signature.r.length).toBe(48);
+    expect(extracted.publicKeyFingerprintBytes.length).toBe(7 + 96);
+});
+
+test('the RSA extractor fingerprints 3072-bit keys with 26 limbs', async () => {
+    const rsa3072 = crypto.generateKeyPairSync('rsa', { modulusLength: 3072 }).publicKey;
+    const extracted = await extractRsaSignatureFromPDF(withSignerKey(rsaSignature, rsa3072), os.tmpdir());
+
+    expect(extracted.publicKey.n.length).toBe(384);
+    expect(extracted.publicKeyFingerprintBytes.length).toBe(26 * 16 + 4);
+});
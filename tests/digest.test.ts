@@ -0,0 +1,47 @@
+import { expect, test } from 'bun:test';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getByteRangeHash } from '../src/common/byte-range.ts';
+import { parseSignedData, selectCmsSigner } from '../src/common/cms.ts';
+import {
+    digest,
+    digestAlgorithmBits,
+    digestAlgorithmFromBits,
+    digestAlgorithmFromOid,
+    digestCircuitSuffix,
+    signerDigestAlgorithm,
+} from '../src/common/digest.ts';
+import { findSignatures } from '../src/common/signatures.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+test('maps digest OIDs and rejects unsupported ones', () => {
+    expect(digestAlgorithmFromOid('2.16.840.1.101.3.4.2.2')).toBe('SHA-384');
+    expect(digest('SHA-512', Buffer.from('abc'))).toHaveLength(64);
+    expect(() => digestAlgorithmFromOid('1.3.14.3.2.26')).toThrow('Unsupported digest algorithm 1.3.14.3.2.26');
+});
+
+test('names digest circuits and round-trips the public algorithm id', () => {
+    expect(digestCircuitSuffix('SHA-256')).toBe('');
+    expect(digestCircuitSuffix('SHA-512')).toBe('_sha512');
+    expect(digestAlgorithmBits('SHA-384')).toBe(384);
+    expect(digestAlgorithmFromBits(512)).toBe('SHA-512');
+    expect(() => digestAlgorithmFromBits(160)).toThrow('Unknown digest algorithm id 160');
+});
+
+test('hashes the ByteRange with the CMS digest algorithm', async () => {
+    const pdf = fs.readFileSync(path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'));
+    const [signature] = findSignatures(pdf);
+    const [o1, l1, o2, l2] = signature.byteRange;
+    const signed = Buffer.concat([pdf.subarray(o1, o1 + l1), pdf.subarray(o2, o2 + l2)]);
+
+    const { signerInfo } = selectCmsSigner(parseSignedData(signature.contents));
+    expect(signerDigestAlgorithm(signerInfo)).toBe('SHA-256');
+    expect(await getByteRangeHash(pdf, signature, false, 'out', 'SHA-384')).toBe(
+        crypto.createHash('sha384').update(signed).digest('hex'),
+    );
+});
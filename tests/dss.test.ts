@@ -0,0 +1,74 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { readCertificateBytes } from '../src/common/allowlist.ts';
+import { loadCertificateStore, parseCertificate, validateCertificateChain } from '../src/common/chain.ts';
+import { type DocumentSecurityStore, padesLevel, readDss, withDssValidationData } from '../src/common/dss.ts';
+import { findSignatures } from '../src/common/signatures.ts';
+import { addDocumentTimestamp, addDss } from './helpers/pdf.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const dssDir = path.join(__dirname, 'fixtures', 'dss');
+const chainDir = path.join(__dirname, 'fixtures', 'chain');
+
+const ecdsaPdf = fs.readFileSync(path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'));
+const token = fs.readFileSync(path.join(__dirname, 'fixtures', 'timestamp', 'token.der'));
+const caDer = fs.readFileSync(path.join(dssDir, 'ca.cer'));
+const crlDer = fs.readFileSync(path.join(dssDir, 'ca.crl'));
+const ocspDer = fs.readFileSync(path.join(dssDir, 'signer.ocsp'));
+
+function levelOf(pdf: Buffer, signatureTimestamp = false) {
+    const signatures = findSignatures(pdf);
+    return padesLevel(pdf, signatures[0], signatures, signatureTimestamp);
+}
+
+function dssWith(data: Partial<DocumentSecurityStore>): DocumentSecurityStore {
+    return { certificates: [], crls: [], ocspResponses: [], vriCount: 0, ...data };
+}
+
+test('reads the DSS and reports the baseline level of the signature', () => {
+    expect(readDss(ecdsaPdf)).toBeNull();
+    expect(levelOf(ecdsaPdf)).toBe('B-B');
+    expect(levelOf(ecdsaPdf, true)).toBe('B-T');
+
+    const withDss = addDss(ecdsaPdf, { certs: [caDer], crls: [crlDer], ocsps: [ocspDer] });
+    const dss = readDss(withDss);
+    expect(dss?.vriCount).toBe(1);
+    expect(dss?.certificates).toEqual([caDer]);
+    expect(dss?.crls).toEqual([crlDer]);
+    expect(dss?.ocspResponses).toEqual([ocspDer]);
+
+    // Validation data alone does not make up for a missing timestamp
+    expect(levelOf(withDss)).toBe('B-B');
+    expect(levelOf(withDss, true)).toBe('B-LT');
+    expect(levelOf(addDocumentTimestamp(withDss, token))).toBe('B-LTA');
+    expect(levelOf(addDss(addDocumentTimestamp(ecdsaPdf, token), { certs: [caDer] }))).toBe('B-LT');
+});
+
+test('DSS certificates bridge the chain, DSS CRLs and OCSP responses revoke it', async () => {
+    const validate = (dir: string, anchors: string[], dss: DocumentSecurityStore) =>
+        validateCertificateChain({
+            signer: parseCertificate(readCertificateBytes(path.join(dir, 'signer.cer'))),
+            certificates: [],
+            store: withDssValidationData(loadCertificateStore(anchors.map((name) => path.join(dir, name))), dss),
+            checkDate: new Date(),
+        });
+
+    const intermediate = readCertificateBytes(path.join(chainDir, 'intermediate.cer'));
+    expect((await validate(chainDir, ['root.cer'], dssWith({ certificates: [intermediate] }))).valid).toBe(true);
+
+    // A self-signed certificate in the PDF is not a trust anchor
+    const untrusted = await validate(dssDir, [], dssWith({ certificates: [caDer] }));
+    expect(untrusted.errors).toEqual(['No issuer certificate found for Signer certificate']);
+
+    expect((await validate(dssDir, ['ca.cer'], dssWith({}))).valid).toBe(true);
+    const byCrl = await validate(dssDir, ['ca.cer'], dssWith({ crls: [crlDer] }));
+    expect(byCrl.errors).toHaveLength(1);
+    expect(byCrl.errors[0]).toMatch(/^Signer certificate was revoked at .+ \(CRL\)$/);
+    const byOcsp = await validate(dssDir, ['ca.cer'], dssWith({ ocspResponses: [ocspDer] }));
+    expect(byOcsp.errors).toHaveLength(1);
+    expect(byOcsp.errors[0]).toMatch(/^Signer certificate was revoked at .+ \(OCSP\)$/);
+});
@@ -0,0 +1,74 @@
+import { expect, test } from 'bun:test';
+import crypto from 'node:crypto';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { ecFingerprintBytes, parseEcdsaSignature, parseEcPublicKey } from '../src/common/ec.ts';
+
+// Bun's BoringSSL lacks brainpool and secp256k1, so build the SPKI directly
+function buildSpki(curveOid: string, size: number): pkijs.PublicKeyInfo {
+    const point = new Uint8Array(1 + 2 * size);
+    point[0] = 0x04;
+    point.set(crypto.randomBytes(2 * size), 1);
+
+    return new pkijs.PublicKeyInfo({
+        algorithm: new pkijs.AlgorithmIdentifier({
+            algorithmId: '1.2.840.10045.2.1',
+            algorithmParams: new asn1js.ObjectIdentifier({ value: curveOid }),
+        }),
+        subjectPublicKey: new asn1js.BitString({ valueHex: point }),
+    });
+}
+
+function encodeSignature(r: Uint8Array, s: Uint8Array): Uint8Array {
+    const seq = new asn1js.Sequence({
+        value: [new asn1js.Integer({ valueHex: r }), new asn1js.Integer({ valueHex: s })],
+    });
+    return new Uint8Array(seq.toBER());
+}
+
+test('reads the namedCurve and coordinate size of EC keys', () => {
+    for (const [oid, name, size] of [
+        ['1.2.840.10045.3.1.7', 'P-256', 32],
+        ['1.3.132.0.34', 'P-384', 48],
+        ['1.3.36.3.3.2.8.1.1.7', 'brainpoolP256r1', 32],
+        ['1.3.36.3.3.2.8.1.1.11', 'brainpoolP384r1', 48],
+    ] as const) {
+        const key = parseEcPublicKey(buildSpki(oid, size));
+        expect(key.curve.name).toBe(name);
+        expect(key.x.length).toBe(size);
+        expect(key.y.length).toBe(size);
+    }
+});
+
+test('keeps the P-256 fingerprint encoding and separates other curves', () => {
+    const p256 = parseEcPublicKey(buildSpki('1.2.840.10045.3.1.7', 32));
+    expect(ecFingerprintBytes(p256)).toEqual(Buffer.concat([p256.x, p256.y]));
+
+    const brainpool = parseEcPublicKey(buildSpki('1.3.36.3.3.2.8.1.1.7', 32));
+    const fingerprint = ecFingerprintBytes(brainpool);
+    expect(fingerprint.length).toBeGreaterThan(64);
+    expect(fingerprint.subarray(-64)).toEqual(Buffer.concat([brainpool.x, brainpool.y]));
+});
+
+test('rejects curves without a circuit', () => {
+    expect(() => parseEcPublicKey(buildSpki('1.3.132.0.10', 32))).toThrow('Unsupported EC curve 1.3.132.0.10');
+});
+
+test('decodes P-384 signatures without truncation', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'secp384r1' });
+    const der = crypto.sign('sha384', Buffer.from('pades'), privateKey);
+    const spki = new pkijs.PublicKeyInfo({
+        schema: asn1js.fromBER(new Uint8Array(publicKey.export({ type: 'spki', format: 'der' }))).result,
+    });
+    const { curve } = parseEcPublicKey(spki);
+
+    const { r, s } = parseEcdsaSignature(der, curve);
+    expect(r.length).toBe(48);
+    expect(s.length).toBe(48);
+    const p1363 = { key: publicKey, dsaEncoding: 'ieee-p1363' as const };
+    expect(crypto.verify('sha384', Buffer.from('pades'), p1363, Buffer.concat([r, s]))).toBe(true);
+
+    // A 49-byte scalar must be rejected, not cut down to 48 bytes
+    const oversized = encodeSignature(new Uint8Array(49).fill(0x7f), new Uint8Array(48).fill(0x01));
+    expect(() => parseEcdsaSignature(oversized, curve)).toThrow('longer than the 48-byte curve order');
+});
@@ -3,8 +3,9 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { EC_CURVES, type EcCurve } from '../src/common/ec.ts';
 import { runWithSpec } from '../src/common/runner.ts';
-import { createEcdsaRunSpec } from '../src/ECDSA-Pades/spec.ts';
+import { createEcdsaRunSpec, type EcdsaSpecOptions } from '../src/ECDSA-Pades/spec.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -46,7 +47,84 @@ test('ECDSA PAdES (pedersen) end-to-end', { timeout: 0 }, async () => {
         pdfPath: path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'),
         allowlistCertPaths,
         outDir,
+        // The issuing CA of the example certificate is not shipped with the repo
+        allowInvalidChain: true,
     });
     const code = await runWithSpec(spec);
     expect(code).toBe(0);
 });
+
+test('ECDSA run spec rejects revocation proofs without a circuit before preparing the PDF', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zk-qes-ecdsa-rev-'));
+    const pdfPath = path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf');
+    const revocationListPath = path.join(tmpDir, 'revocation.json');
+    const reject = async (allowlist: object, message: string) => {
+        const allowlistPath = path.join(tmpDir, 'allowlist.json');
+        fs.writeFileSync(allowlistPath, JSON.stringify(allowlist));
+        const spec = createEcdsaRunSpec({ pdfPath, allowlistPath, revocationListPath });
+        await expect(spec.prepare(pdfPath, allowlistPath, spec.mode, false, tmpDir)).rejects.toThrow(message);
+    };
+
+    await reject(
+        { cert_fingerprints: ['00'], depth: 16 },
+        'Unsupported option combination (signer allowlist of depth 16, pedersen mode, --revocation-list): ' +
+            'circuits/pades_ecdsa_pedersen_d16_rev does not exist',
+    );
+    await reject(
+        { kind: 'ca', cert_fingerprints: ['00'] },
+        'Unsupported option combination (CA allowlist of depth 8, pedersen mode, --revocation-list)',
+    );
+});
+
+test('ECDSA run spec rejects signing-time proofs without a circuit before preparing the PDF', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zk-qes-ecdsa-time-'));
+    const pdfPath = path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf');
+    const reject = async (allowlist: object, options: EcdsaSpecOptions, message: string) => {
+        const allowlistPath = path.join(tmpDir, 'allowlist.json');
+        fs.writeFileSync(allowlistPath, JSON.stringify(allowlist));
+        const spec = createEcdsaRunSpec({ ...options, pdfPath, allowlistPath, signedAfter: '2020-01-01' });
+        await expect(spec.prepare(pdfPath, allowlistPath, spec.mode, false, tmpDir)).rejects.toThrow(message);
+    };
+
+    await reject(
+        { cert_fingerprints: ['00'] },
+        { revocationListPath: path.join(tmpDir, 'revocation.json') },
+        'Unsupported option combination (signer allowlist of depth 8, pedersen mode, --revocation-list, ' +
+            'signing-time bounds): circuits/pades_ecdsa_pedersen_rev_time does not exist',
+    );
+    await reject(
+        { kind: 'ca', cert_fingerprints: ['00'] },
+        {},
+        'Unsupported option combination (CA allowlist of depth 8, pedersen mode, signing-time bounds): ' +
+            'circuits/pades_ecdsa_ca_pedersen_time does not exist',
+    );
+});
+
+test('ECDSA run spec routes each curve and digest to its circuit', () => {
+    const spec = createEcdsaRunSpec({ pdfPath: path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf') });
+    const selectCircuit = spec.selectCircuit as NonNullable<typeof spec.selectCircuit>;
+    type Prep = Parameters<typeof selectCircuit>[0];
+    const prepFor = (curve: EcCurve, allowlistKind: 'signer' | 'ca' = 'signer', digestAlgorithm = 'SHA-256') =>
+        ({ curve, allowlist_kind: allowlistKind, tree_depth: 8, digest_algorithm: digestAlgorithm }) as unknown as Prep;
+
+    const names = EC_CURVES.map((curve) => path.basename(selectCircuit(prepFor(curve))));
+    expect(names).toEqual([
+        'pades_ecdsa_pedersen',
+        'pades_ecdsa_p384_pedersen',
+        'pades_ecdsa_brainpoolp256r1_pedersen',
+        'pades_ecdsa_brainpoolp384r1_pedersen',
+    ]);
+    expect(path.basename(selectCircuit(prepFor(EC_CURVES[1], 'signer', 'SHA-384')))).toBe(
+        'pades_ecdsa_p384_sha384_pedersen',
+    );
+    expect(path.basename(selectCircuit(prepFor(EC_CURVES[0], 'signer', 'SHA-512')))).toBe(
+        'pades_ecdsa_sha512_pedersen',
+    );
+    // Issuer checks in the CA circuits read a P-256 signer key from the TBSCertificate
+    expect(() => selectCircuit(prepFor(EC_CURVES[1], 'ca'))).toThrow(
+        'No circuit for P-384/SHA-256 keys: circuits/pades_ecdsa_ca_p384_pedersen does not exist',
+    );
+    expect(() => selectCircuit(prepFor(EC_CURVES[0], 'ca', 'SHA-384'))).toThrow(
+        'No circuit for P-256/SHA-384 keys: circuits/pades_ecdsa_ca_sha384_pedersen does not exist',
+    );
+});
@@ -0,0 +1,58 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as pkijs from 'pkijs';
+import { readCertificateBytes } from '../src/common/allowlist.ts';
+import { parseSignedData, selectCmsSigner } from '../src/common/cms.ts';
+import { assertSigningCertificate, checkSigningCertificate } from '../src/common/ess.ts';
+import { findSignatures } from '../src/common/signatures.ts';
+import { sha256 } from '../src/common/utils.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+function exampleSigner(name: 'ECDSA' | 'RSA') {
+    const [signature] = findSignatures(fs.readFileSync(path.join(repoRoot, 'examples', name, `${name}.pdf`)));
+    const signer = selectCmsSigner(parseSignedData(signature.contents));
+    return { ...signer, certificateDer: new Uint8Array(signer.certificate.toSchema().toBER()) };
+}
+
+test('signingCertificateV2 binds the example signing certificates', () => {
+    for (const name of ['ECDSA', 'RSA'] as const) {
+        const { signerInfo, certificateDer } = exampleSigner(name);
+        const binding = checkSigningCertificate(signerInfo, certificateDer);
+
+        expect(binding.status).toBe('bound');
+        expect(binding.attribute).toBe('signingCertificateV2');
+        expect(binding.hash_algorithm).toBe('SHA-256');
+        expect(binding.cert_hash).toBe(Buffer.from(sha256(certificateDer)).toString('hex'));
+        expect(binding.errors).toEqual([]);
+        expect(() => assertSigningCertificate(binding)).not.toThrow();
+    }
+});
+
+test('a substituted certificate is refused, a missing attribute only reported', () => {
+    const { signerInfo } = exampleSigner('ECDSA');
+    const other = readCertificateBytes(path.join(__dirname, 'fixtures', 'chain', 'intermediate.cer'));
+    const binding = checkSigningCertificate(signerInfo, other);
+
+    expect(binding.status).toBe('mismatch');
+    expect(binding.errors).toHaveLength(2);
+    expect(() => assertSigningCertificate(binding)).toThrow('certHash does not match the signing certificate');
+
+    const withoutEss = new pkijs.SignerInfo({
+        ...signerInfo,
+        signedAttrs: new pkijs.SignedAndUnsignedAttributes({
+            type: 0,
+            attributes: signerInfo.signedAttrs?.attributes.filter(
+                (attr) => !attr.type.startsWith('1.2.840.113549.1.9.16'),
+            ),
+        }),
+    });
+    const missing = checkSigningCertificate(withoutEss, other);
+    expect(missing.status).toBe('missing');
+    expect(missing.attribute).toBeNull();
+    expect(() => assertSigningCertificate(missing)).not.toThrow();
+});
@@ -0,0 +1,152 @@
+import { expect, test } from 'bun:test';
+import { type ChildProcess, execFileSync, spawn, spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { encodeVerifyCalldata, exportSolidityVerifier, readProofForEvm, VERIFY_SELECTOR } from '../src/common/evm.ts';
+import { runWithSpec } from '../src/common/runner.ts';
+import { createEcdsaRunSpec } from '../src/ECDSA-Pades/spec.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+interface SolcContract {
+    abi: { type: string; name?: string; inputs: { type: string }[]; outputs?: { type: string }[] }[];
+    bin: string;
+    hashes: Record<string, string>;
+}
+
+function hasTool(tool: string): boolean {
+    return !spawnSync(tool, ['--version'], { stdio: 'ignore' }).error;
+}
+
+async function rpc<T>(url: string, method: string, params: unknown[] = []): Promise<T> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    const body = await response.json();
+    if (body.error) {
+        throw new Error(`${method}: ${body.error.message}`);
+    }
+    return body.result;
+}
+
+async function startAnvil(port: number): Promise<{ url: string; node: ChildProcess }> {
+    const node = spawn('anvil', ['--port', String(port), '--silent', '--disable-code-size-limit'], { stdio: 'ignore' });
+    const url = `http://127.0.0.1:${port}`;
+    for (let attempt = 0; attempt < 50; attempt++) {
+        try {
+            await rpc<string>(url, 'eth_chainId');
+            return { url, node };
+        } catch {
+            await new Promise((resolve) => setTimeout(resolve, 200));
+        }
+    }
+    node.kill();
+    throw new Error(`anvil did not start on port ${port}`);
+}
+
+function writeProofDir(manifest?: object): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zk-qes-evm-'));
+    fs.writeFileSync(path.join(dir, 'proof.json'), JSON.stringify({ proof: '00ff', publicInputs: ['0x01'] }));
+    if (manifest) {
+        fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify(manifest));
+    }
+    return path.join(dir, 'proof.json');
+}
+
+function words(calldata: string): string[] {
+    return calldata.slice(2 + 8).match(/.{64}/g) ?? [];
+}
+
+test('ABI-encodes verify(bytes, bytes32[])', () => {
+    const proof = new Uint8Array(40).fill(0xab);
+    const publicInputs = ['0x01', `0x${'ff'.repeat(32)}`];
+    const calldata = encodeVerifyCalldata(proof, publicInputs);
+
+    expect(calldata.slice(2, 10)).toBe(VERIFY_SELECTOR);
+    expect((calldata.length - 10) % 64).toBe(0);
+
+    const [proofOffset, inputsOffset, proofLength, proof1, proof2, inputCount, input0, input1] = words(calldata);
+    expect(BigInt(`0x${proofOffset}`)).toBe(0x40n);
+    // head (2 words) + proof length word + 40 bytes padded to 64
+    expect(BigInt(`0x${inputsOffset}`)).toBe(BigInt(0x40 + 32 + 64));
+    expect(BigInt(`0x${proofLength}`)).toBe(40n);
+    expect(proof1).toBe('ab'.repeat(32));
+    expect(proof2).toBe('ab'.repeat(8) + '00'.repeat(24));
+    expect(BigInt(`0x${inputCount}`)).toBe(2n);
+    expect(input0).toBe(`${'00'.repeat(31)}01`);
+    expect(input1).toBe('ff'.repeat(32));
+});
+
+test('rejects public inputs wider than bytes32', () => {
+    expect(() => encodeVerifyCalldata(new Uint8Array(32), [`0x1${'00'.repeat(32)}`])).toThrow('bytes32');
+});
+
+test('reads only proofs whose manifest names the keccak oracle', () => {
+    const vkey = new Uint8Array([1, 2, 3]);
+    expect(() => readProofForEvm(writeProofDir(), vkey)).toThrow('No manifest.json next to');
+    expect(() => readProofForEvm(writeProofDir({ oracle_hash: 'poseidon' }), vkey)).toThrow(
+        'Proof was generated with the poseidon oracle hash',
+    );
+    expect(readProofForEvm(writeProofDir({ oracle_hash: 'keccak' }), vkey).proof).toEqual(new Uint8Array([0, 0xff]));
+});
+
+// Needs nargo to compile the circuit, solc for the verifier and anvil as the EVM
+test.skipIf(!['nargo', 'solc', 'anvil'].every(hasTool))(
+    'the exported Solidity verifier accepts the proof calldata',
+    { timeout: 0 },
+    async () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zk-qes-evm-'));
+        const proofDir = path.join(tmpDir, 'proof');
+        const spec = createEcdsaRunSpec({
+            pdfPath: path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'),
+            allowlistCertPaths: [path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.cer')],
+            outDir: proofDir,
+            allowInvalidChain: true,
+            oracleHash: 'keccak',
+        });
+        expect(await runWithSpec(spec)).toBe(0);
+
+        const circuitPath = path.join(repoRoot, 'circuits', 'pades_ecdsa_pedersen');
+        const evmDir = path.join(tmpDir, 'evm');
+        await exportSolidityVerifier({ circuitPath, outDir: evmDir, proofPath: path.join(proofDir, 'proof.json') });
+
+        const contractPath = path.join(evmDir, 'pades_ecdsa_pedersen_verifier.sol');
+        const output = JSON.parse(
+            execFileSync('solc', ['--optimize', '--combined-json', 'abi,bin,hashes', contractPath], {
+                maxBuffer: 64 * 1024 * 1024,
+            }).toString(),
+        );
+        const contracts = Object.values(output.contracts) as SolcContract[];
+        const verifier = contracts.find((contract) => contract.hashes['verify(bytes,bytes32[])'] && contract.bin);
+        if (!verifier) {
+            throw new Error('No deployable contract exposes verify(bytes,bytes32[])');
+        }
+        expect(verifier.hashes['verify(bytes,bytes32[])']).toBe(VERIFY_SELECTOR);
+        const verify = verifier.abi.find((entry) => entry.type === 'function' && entry.name === 'verify');
+        expect(verify?.inputs.map((input) => input.type)).toEqual(['bytes', 'bytes32[]']);
+        expect(verify?.outputs?.map((output) => output.type)).toEqual(['bool']);
+
+        const { url, node } = await startAnvil(18545);
+        try {
+            const [from] = await rpc<string[]>(url, 'eth_accounts');
+            const gas = '0x1c9c380';
+            const txHash = await rpc<string>(url, 'eth_sendTransaction', [{ from, data: `0x${verifier.bin}`, gas }]);
+            const receipt = await rpc<{ contractAddress: string }>(url, 'eth_getTransactionReceipt', [txHash]);
+
+            const calldata = fs.readFileSync(path.join(evmDir, 'calldata.hex'), 'utf-8');
+            const result = await rpc<string>(url, 'eth_call', [
+                { to: receipt.contractAddress, data: calldata, gas },
+                'latest',
+            ]);
+            expect(BigInt(result)).toBe(1n);
+        } finally {
+            node.kill();
+        }
+    },
+);
@@ -0,0 +1,224 @@
+import zlib from 'node:zlib';
+// Helpers for building incremental-update fixtures on top of the example PDFs
+
+const BYTE_RANGE_PLACEHOLDER = `[0 0 0 0${' '.repeat(32)}]`;
+
+// Page object 3 of the example PDFs, as signed
+const EXAMPLE_PAGE =
+    '<</Type/Page/Parent 2 0 R/Resources<</Font<</F1 5 0 R>>/ExtGState<</GS7 7 0 R/GS8 8 0 R>>/ProcSet[/PDF/Text/ImageB/ImageC/ImageI] >>/MediaBox[ 0 0 595.32 841.92] /Contents 4 0 R/Group<</Type/Group/S/Transparency/CS/DeviceRGB>>/Tabs/S/StructParents 0>>';
+
+function lastStartXref(pdf: Buffer): number {
+    const matches = [...pdf.toString('latin1').matchAll(/startxref\s+(\d+)/g)];
+    if (matches.length === 0) {
+        throw new Error('startxref not found');
+    }
+    return parseInt(matches[matches.length - 1][1], 10);
+}
+
+function lastTrailerSize(pdf: Buffer): number {
+    const matches = [...pdf.toString('latin1').matchAll(/\/Size\s+(\d+)/g)];
+    return matches.length > 0 ? parseInt(matches[matches.length - 1][1], 10) : 0;
+}
+
+/**
+ * Append an incremental update with the given objects (number -> dictionary source).
+ * An object whose body contains `/ByteRange BYTE_RANGE` gets a ByteRange that
+ * covers everything except its own `/Contents <...>` hex string.
+ */
+export function appendRevision(pdf: Buffer, objects: Record<number, string>): Buffer {
+    const prev = lastStartXref(pdf);
+    const numbers = Object.keys(objects)
+        .map(Number)
+        .sort((a, b) => a - b);
+
+    let body = '\n';
+    const offsets = new Map<number, number>();
+    for (const num of numbers) {
+        offsets.set(num, pdf.length + body.length);
+        const source = objects[num].replace('BYTE_RANGE', BYTE_RANGE_PLACEHOLDER);
+        body += `${num} 0 obj\n${source}\nendobj\n`;
+    }
+
+    const xrefOffset = pdf.length + body.length;
+    let xref = 'xref\n0 1\n0000000000 65535 f \n';
+    for (const num of numbers) {
+        xref += `${num} 1\n${String(offsets.get(num)).padStart(10, '0')} 00000 n \n`;
+    }
+
+    const size = Math.max(lastTrailerSize(pdf), numbers[numbers.length - 1] + 1);
+    const trailer = `trailer\n<< /Size ${size} /Root 1 0 R /Prev ${prev} >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    let out = Buffer.concat([pdf, Buffer.from(body + xref + trailer, 'latin1')]);
+
+    const placeholderAt = out.indexOf(BYTE_RANGE_PLACEHOLDER, pdf.length, 'latin1');
+    if (placeholderAt !== -1) {
+        const contentsAt = out.indexOf('/Contents', placeholderAt, 'latin1');
+        const start = out.indexOf('<', contentsAt, 'latin1');
+        const end = out.indexOf('>', start, 'latin1') + 1;
+        const range = `[0 ${start} ${end} ${out.length - end}]`.padEnd(BYTE_RANGE_PLACEHOLDER.length, ' ');
+        out = Buffer.from(out);
+        out.write(range, placeholderAt, 'latin1');
+    }
+
+    return out;
+}
+
+/**
+ * Add a second signature field to an example PDF, reusing the existing CMS so
+ * that both signatures parse (the countersignature does not verify, which is
+ * irrelevant for selection tests). Like a real signer, it lists the widget in
+ * the page's /Annots and draws it with a new appearance stream (29) and font (30).
+ */
+export function addCountersignature(pdf: Buffer, fieldName: string): Buffer {
+    const cmsHex = pdf.toString('latin1').match(/\/Contents\s*<([0-9a-fA-F]+)>/)?.[1];
+    if (!cmsHex) {
+        throw new Error('No /Contents in source PDF');
+    }
+
+    const appearance = `BT /F1 8 Tf 2 10 Td (Signed: ${fieldName}) Tj ET`;
+    return appendRevision(pdf, {
+        3: `${EXAMPLE_PAGE.slice(0, -2)}/Annots [ 27 0 R ] >>`,
+        23: '<< /Fields [ 25 0 R 27 0 R ] /SigFlags 3 >>',
+        27: `<< /Type /Annot /Subtype /Widget /FT /Sig /T (${fieldName}) /V 28 0 R /P 3 0 R /Rect [ 50 50 250 80 ] /F 4 /AP << /N 29 0 R >> >>`,
+        28: `<< /Type /Sig /Filter /Adobe.PPKLite /SubFilter /ETSI.CAdES.detached /ByteRange BYTE_RANGE /Contents <${cmsHex}> /M (D:20240305101500+02'00') >>`,
+        29: `<< /Type /XObject /Subtype /Form /BBox [ 0 0 200 30 ] /Resources << /Font << /F1 30 0 R >> >> /Length ${appearance.length} >>\nstream\n${appearance}\nendstream`,
+        30: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    });
+}
+
+function flateStream(data: Buffer): string {
+    const compressed = zlib.deflateSync(data);
+    return `<< /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n${compressed.toString('latin1')}\nendstream`;
+}
+
+/**
+ * Append a Document Security Store (objects 29+) to the ECDSA example: Certs, CRLs and
+ * OCSPs streams, all also referenced from a single /VRI entry.
+ */
+export function addDss(pdf: Buffer, data: { certs?: Buffer[]; crls?: Buffer[]; ocsps?: Buffer[] }): Buffer {
+    const objects: Record<number, string> = {
+        1: '<< /Type /Catalog /AcroForm 23 0 R /Lang (uk-UA) /MarkInfo << /Marked true >> /Metadata 20 0 R /Pages 2 0 R /StructTreeRoot 10 0 R /ViewerPreferences 21 0 R /DSS 29 0 R >>',
+    };
+    let next = 31;
+    const refs = (items: Buffer[] = []) =>
+        items
+            .map((item) => {
+                objects[next] = flateStream(item);
+                return `${next++} 0 R`;
+            })
+            .join(' ');
+    const certs = refs(data.certs);
+    const crls = refs(data.crls);
+    const ocsps = refs(data.ocsps);
+
+    objects[29] = `<< /Type /DSS /Certs [ ${certs} ] /CRLs [ ${crls} ] /OCSPs [ ${ocsps} ] /VRI << /ABCDEF 30 0 R >> >>`;
+    objects[30] = `<< /Type /VRI /Cert [ ${certs} ] /CRL [ ${crls} ] /OCSP [ ${ocsps} ] >>`;
+    return appendRevision(pdf, objects);
+}
+
+/**
+ * Add a /DocTimeStamp signature field (objects 27, 28) whose /Contents is the given
+ * RFC 3161 token. The token need not cover the document; only its placement matters.
+ */
+export function addDocumentTimestamp(pdf: Buffer, token: Buffer): Buffer {
+    return appendRevision(pdf, {
+        23: '<< /Fields [ 25 0 R 27 0 R ] /SigFlags 3 >>',
+        27: '<< /Type /Annot /Subtype /Widget /FT /Sig /T (Archive timestamp) /V 28 0 R /P 3 0 R /Rect [ 0 0 0 0 ] >>',
+        28: `<< /Type /DocTimeStamp /Filter /Adobe.PPKLite /SubFilter /ETSI.RFC3161 /ByteRange BYTE_RANGE /Contents <${token.toString('hex')}> >>`,
+    });
+}
+
+function pngUpEncode(rows: Buffer[]): Buffer {
+    const out: Buffer[] = [];
+    let previous = Buffer.alloc(rows[0].length);
+    for (const row of rows) {
+        const encoded = Buffer.alloc(row.length + 1);
+        encoded[0] = 2;
+        for (let i = 0; i < row.length; i++) {
+            encoded[i + 1] = (row[i] - previous[i]) & 0xff;
+        }
+        out.push(encoded);
+        previous = row;
+    }
+    return Buffer.concat(out);
+}
+
+/**
+ * Build a PDF 1.5 file whose catalog and form fields live in a compressed object
+ * stream, indexed by a PNG-predicted xref stream. The signature dictionary is a
+ * regular object whose /ByteRange and /Contents use irregular whitespace.
+ */
+export function buildCompressedSignedPdf(cms: Buffer): Buffer {
+    const compressed: Record<number, string> = {
+        1: '<< /Type /Catalog /Pages 2 0 R /AcroForm 3 0 R >>',
+        2: '<< /Type /Pages /Kids [ ] /Count 0 >>',
+        3: '<< /Fields [ 4 0 R ] /SigFlags 3 >>',
+        4: '<< /FT /Sig /T (Parties) /Kids [ 8 0 R ] >>',
+        8: '<< /Parent 4 0 R /T <FEFF00420075007900650072> /V 5 0 R /Type /Annot /Subtype /Widget >>',
+    };
+
+    const numbers = Object.keys(compressed).map(Number);
+    let header = '';
+    let data = '';
+    for (const num of numbers) {
+        header += `${num} ${data.length} `;
+        data += `${compressed[num]}\n`;
+    }
+    const objStm = zlib.deflateSync(Buffer.from(header + data, 'latin1'));
+
+    const cmsHex = cms.toString('hex').replace(/(.{64})/g, '$1\n  ');
+    const parts: Buffer[] = [Buffer.from('%PDF-1.5\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    const offsets = new Map<number, number>();
+    const length = () => parts.reduce((sum, part) => sum + part.length, 0);
+
+    offsets.set(5, length());
+    const sigPrefix = `5 0 obj\n<< /Type /Sig /Filter /Adobe.PPKLite /SubFilter /ETSI.CAdES.detached\n/ByteRange\n[\n`;
+    const sigBody = `${BYTE_RANGE_PLACEHOLDER}\n/Contents\n  <${cmsHex}>\n/M (D:20240304124813+02'00') >>\nendobj\n`;
+    parts.push(Buffer.from(sigPrefix + sigBody, 'latin1'));
+
+    offsets.set(6, length());
+    parts.push(
+        Buffer.from(
+            `6 0 obj\n<< /Type /ObjStm /N ${numbers.length} /First ${header.length} /Filter /FlateDecode /Length ${objStm.length} >>\nstream\n`,
+            'latin1',
+        ),
+        objStm,
+        Buffer.from('\nendstream\nendobj\n', 'latin1'),
+    );
+
+    const xrefOffset = length();
+    const rows: Buffer[] = [];
+    for (let num = 0; num <= 8; num++) {
+        const row = Buffer.alloc(7);
+        if (num === 0) {
+            row.writeUInt8(0, 0);
+            row.writeUInt16BE(0xffff, 5);
+        } else if (compressed[num]) {
+            row.writeUInt8(2, 0);
+            row.writeUInt32BE(6, 1);
+            row.writeUInt16BE(numbers.indexOf(num), 5);
+        } else {
+            row.writeUInt8(1, 0);
+            row.writeUInt32BE(num === 7 ? xrefOffset : (offsets.get(num) ?? 0), 1);
+        }
+        rows.push(row);
+    }
+    const xrefData = zlib.deflateSync(pngUpEncode(rows));
+    parts.push(
+        Buffer.from(
+            `7 0 obj\n<< /Type /XRef /Size 9 /W [ 1 4 2 ] /Root 1 0 R /Filter /FlateDecode /DecodeParms << /Predictor 12 /Columns 7 >> /Length ${xrefData.length} >>\nstream\n`,
+            'latin1',
+        ),
+        xrefData,
+        Buffer.from(`\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`, 'latin1'),
+    );
+
+    const out = Buffer.concat(parts);
+    const placeholderAt = out.indexOf(BYTE_RANGE_PLACEHOLDER, 0, 'latin1');
+    const start = out.indexOf('<', out.indexOf('/Contents', placeholderAt, 'latin1'), 'latin1');
+    const end = out.indexOf('>', start, 'latin1') + 1;
+    // keep the surrounding "[\n" prefix; the placeholder only holds the numbers
+    const range = `0  ${start}\n${end}   ${out.length - end} ]`.padEnd(BYTE_RANGE_PLACEHOLDER.length, ' ');
+    out.write(range, placeholderAt, 'latin1');
+
+    return out;
+}
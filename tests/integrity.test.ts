@@ -0,0 +1,64 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { assertDocumentIntegrity, checkDocumentIntegrity } from '../src/common/integrity.ts';
+import { findSignatures } from '../src/common/signatures.ts';
+import { addCountersignature, appendRevision } from './helpers/pdf.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+const ecdsaPdf = fs.readFileSync(path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'));
+
+test('signature over the final revision passes', () => {
+    const report = checkDocumentIntegrity(ecdsaPdf, findSignatures(ecdsaPdf)[0]);
+    expect(report.coversWholeFile).toBe(true);
+    expect(report.endsAtRevisionBoundary).toBe(true);
+    expect(report.revisionsAfter).toBe(0);
+    expect(report.isFinalRevision).toBe(true);
+    expect(() => assertDocumentIntegrity(report)).not.toThrow();
+});
+
+test('countersignature is an allowed change but still refused by default', () => {
+    const pdf = addCountersignature(ecdsaPdf, 'Countersignature');
+    const [first, second] = findSignatures(pdf);
+
+    const report = checkDocumentIntegrity(pdf, first);
+    expect(report.coversWholeFile).toBe(false);
+    expect(report.revisionsAfter).toBe(1);
+    expect(report.changes.every((change) => change.allowed)).toBe(true);
+    expect(report.changes.find((change) => change.objectNumber === 3)?.reason).toBe('page update (/Annots only)');
+    expect(report.changes.filter((change) => change.reason === 'signature appearance').map((c) => c.type)).toEqual([
+        'XObject',
+        'Font',
+    ]);
+    expect(() => assertDocumentIntegrity(report)).toThrow('does not cover the final revision');
+    expect(() => assertDocumentIntegrity(report, true)).not.toThrow();
+
+    expect(checkDocumentIntegrity(pdf, second).isFinalRevision).toBe(true);
+});
+
+test('content appended after signing is disallowed', () => {
+    const pdf = appendRevision(ecdsaPdf, {
+        3: '<< /Type /Page /Parent 2 0 R /MediaBox [ 0 0 595 842 ] /Contents 27 0 R >>',
+        27: '<< /Length 21 >>\nstream\nBT (Paid in full) ET\nendstream',
+    });
+
+    const report = checkDocumentIntegrity(pdf, findSignatures(pdf)[0]);
+    expect(report.revisionsAfter).toBe(1);
+    expect(report.changes.filter((change) => !change.allowed).map((change) => change.objectNumber)).toEqual([3, 27]);
+    expect(() => assertDocumentIntegrity(report, true)).toThrow('Disallowed modifications');
+});
+
+test('a signature appearance may not reach into signed content', () => {
+    const pdf = appendRevision(addCountersignature(ecdsaPdf, 'Countersignature'), {
+        4: '<< /Length 21 >>\nstream\nBT (Paid in full) ET\nendstream',
+        29: '<< /Type /XObject /Subtype /Form /BBox [ 0 0 200 30 ] /Resources << /Font << /F1 30 0 R >> /XObject << /P 4 0 R >> >> /Length 8 >>\nstream\n/P Do\nendstream',
+    });
+
+    const report = checkDocumentIntegrity(pdf, findSignatures(pdf)[0]);
+    expect(report.changes.filter((change) => !change.allowed).map((change) => change.objectNumber)).toEqual([4]);
+    expect(() => assertDocumentIntegrity(report, true)).toThrow('object 4 (modified object)');
+});
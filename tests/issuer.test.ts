@@ -0,0 +1,40 @@
+import { expect, test } from 'bun:test';
+import crypto from 'node:crypto';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { buildAllowlistFromCertificates, readCertificateBytes } from '../src/common/allowlist.ts';
+import { parseCertificate } from '../src/common/chain.ts';
+import { buildIssuerWitness } from '../src/common/issuer.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const chainDir = path.join(__dirname, 'fixtures', 'chain');
+
+const certPath = (name: string) => path.join(chainDir, `${name}.cer`);
+
+// SubjectPublicKeyInfo header the CA circuits expect in front of the signer key
+const P256_SPKI_PREFIX = Buffer.from('3059301306072a8648ce3d020106082a8648ce3d030107034200', 'hex');
+
+test('locates the signer key in the TBSCertificate and extracts the issuer signature', () => {
+    const signerDer = readCertificateBytes(certPath('signer'));
+    const issuerDer = readCertificateBytes(certPath('intermediate'));
+    const witness = buildIssuerWitness(parseCertificate(signerDer), parseCertificate(issuerDer));
+
+    const tbs = Buffer.from(witness.tbs);
+    expect(tbs.indexOf(P256_SPKI_PREFIX)).toBeGreaterThan(0);
+    const offset = tbs.indexOf(P256_SPKI_PREFIX) + P256_SPKI_PREFIX.length;
+
+    const jwk = new crypto.X509Certificate(signerDer).publicKey.export({ format: 'jwk' });
+    expect(tbs[offset]).toBe(0x04);
+    expect(tbs.subarray(offset + 1, offset + 33).toString('base64url')).toBe(jwk.x);
+
+    const issuerKey = new crypto.X509Certificate(issuerDer).publicKey;
+    const valid = crypto.verify('sha256', tbs, { key: issuerKey, dsaEncoding: 'ieee-p1363' }, witness.cert_signature);
+    expect(valid).toBe(true);
+});
+
+test('CA allowlists only accept CA certificates', () => {
+    expect(buildAllowlistFromCertificates([certPath('intermediate')], { kind: 'ca' }).kind).toBe('ca');
+    expect(buildAllowlistFromCertificates([certPath('signer')]).kind).toBeUndefined();
+    expect(() => buildAllowlistFromCertificates([certPath('signer')], { kind: 'ca' })).toThrow('Not a CA certificate');
+});
@@ -0,0 +1,50 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { Barretenberg } from '@aztec/bb.js';
+import { FIELD_MODULUS } from '../src/common/constants.ts';
+import { pedersenHashPair, poseidon2HashPair } from '../src/common/native-hash.ts';
+import { createMerkleTreeFromAllowlist } from '../src/common/tree.ts';
+import { bigintToUint8Array, uint8ArrayToBigint } from '../src/common/utils.ts';
+
+const pairs: Array<[bigint, bigint]> = [
+    [0n, 0n],
+    [1n, 2n],
+    [FIELD_MODULUS - 1n, FIELD_MODULUS - 1n],
+    [0x2a8f3b1c9d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7en, 7n],
+];
+
+let bbApi: Barretenberg;
+
+beforeAll(async () => {
+    bbApi = await Barretenberg.initSingleton({ threads: 1 });
+});
+
+afterAll(async () => {
+    await Barretenberg.destroySingleton();
+});
+
+test('native pedersen matches bb.js pedersenHash', async () => {
+    for (const [left, right] of pairs) {
+        const result = await bbApi.pedersenHash({
+            inputs: [bigintToUint8Array(left), bigintToUint8Array(right)],
+            hashIndex: 0,
+        });
+        expect(pedersenHashPair(left, right)).toBe(uint8ArrayToBigint(result.hash));
+    }
+});
+
+test('native poseidon2 matches bb.js poseidon2Hash', async () => {
+    for (const [left, right] of pairs) {
+        const result = await bbApi.poseidon2Hash({ inputs: [bigintToUint8Array(left), bigintToUint8Array(right)] });
+        expect(poseidon2HashPair(left, right)).toBe(uint8ArrayToBigint(result.hash));
+    }
+});
+
+test('native and bb.js tree building agree for both modes', async () => {
+    const allowlist = { cert_fingerprints: ['0a', 'ff'.repeat(32), '1234'] };
+    for (const mode of ['pedersen', 'poseidon']) {
+        const native = await createMerkleTreeFromAllowlist(allowlist, '', mode);
+        const viaBb = await createMerkleTreeFromAllowlist(allowlist, '', mode, false, bbApi);
+        expect(native.root).toBe(viaBb.root);
+        expect(native.proofs).toEqual(viaBb.proofs);
+    }
+});
@@ -0,0 +1,43 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { decodeTextString, getEntry, isDict, isString, openPdf } from '../src/common/pdf.ts';
+import { findSignatures } from '../src/common/signatures.ts';
+import { buildCompressedSignedPdf } from './helpers/pdf.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+const ecdsaPdf = fs.readFileSync(path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'));
+
+test('reads hybrid xref revisions of the example PDF', () => {
+    const reader = openPdf(ecdsaPdf);
+    expect(reader.revisions.map((r) => r.xrefOffset)).toEqual([28085, 28701, 50082]);
+    expect(reader.revisions[2].end).toBe(ecdsaPdf.length);
+
+    const field = reader.getObject(25);
+    expect(isDict(field)).toBe(true);
+    if (!isDict(field)) return;
+
+    const name = getEntry(reader, field, 'T');
+    expect(isString(name) && decodeTextString(name)).toBe('SignatureFieldName 25');
+
+    // Revision 1 predates the signature field
+    expect(reader.getObject(25, 1)).toBeNull();
+});
+
+test('finds signatures through object streams and xref streams', () => {
+    const cms = findSignatures(ecdsaPdf)[0].contents;
+    const pdf = buildCompressedSignedPdf(cms);
+
+    const signatures = findSignatures(pdf);
+    expect(signatures.length).toBe(1);
+
+    const [sig] = signatures;
+    expect(sig.fieldName).toBe('Parties.Buyer');
+    expect(sig.contents.equals(cms)).toBe(true);
+    expect(sig.contentsOffset).toEqual([sig.byteRange[1], sig.byteRange[2]]);
+    expect(sig.byteRange[2] + sig.byteRange[3]).toBe(pdf.length);
+});
@@ -0,0 +1,48 @@
+import { expect, test } from 'bun:test';
+import {
+    type CommonPreparationResult,
+    parseManifestPrivacy,
+    redactSigner,
+    redactValidation,
+} from '../src/common/pades.ts';
+
+const signer = { pub_x: 'aa', pub_y: 'bb', fingerprint: 'cc' };
+
+test('defaults to publishing no signer data', () => {
+    expect(parseManifestPrivacy(undefined)).toBe('none');
+    expect(redactSigner(signer, parseManifestPrivacy(undefined))).toBeUndefined();
+    expect(JSON.parse(JSON.stringify({ tl_root: '1', signer: redactSigner(signer, 'none') }))).toEqual({
+        tl_root: '1',
+    });
+});
+
+test('keeps only what the privacy level allows', () => {
+    expect(redactSigner(signer, 'fingerprint')).toEqual({ fingerprint: 'cc' });
+    expect(redactSigner(signer, 'full')).toEqual(signer);
+    expect(() => parseManifestPrivacy('partial')).toThrow('Unknown privacy level');
+});
+
+test('keeps validation details out of the manifest below full privacy', () => {
+    const prep = {
+        digest_algorithm: 'SHA-256',
+        allowlist_kind: 'ca',
+        trusted_lists: [],
+        signing_certificate: { status: 'missing', attribute: null, errors: [] },
+        certificate_chain: {
+            valid: false,
+            checked_at: '2024-03-04T10:48:13.000Z',
+            time_source: 'signing-time',
+            subjects: ['CN=Signer'],
+            errors: ['Signer certificate expired 2024-01-01T00:00:00.000Z'],
+        },
+    } as unknown as CommonPreparationResult;
+
+    expect(redactValidation(prep, 'none')).toEqual({ certificate_chain: { valid: false } });
+    expect(redactValidation(prep, 'fingerprint')).toEqual({ certificate_chain: { valid: false } });
+    expect(redactValidation(prep, 'full')).toEqual({
+        certificate_chain: prep.certificate_chain,
+        signing_certificate: prep.signing_certificate,
+        allowlist_kind: 'ca',
+        trusted_lists: [],
+    });
+});
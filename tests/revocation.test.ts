@@ -0,0 +1,79 @@
+import { expect, test } from 'bun:test';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getPublicInputLayout } from '../src/common/public-inputs.ts';
+import {
+    certificateCandidates,
+    collectRevokedKeys,
+    proveNonRevocation,
+    REVOCATION_TREE_DEPTH,
+    sealRevocationList,
+} from '../src/common/revocation.ts';
+import { merkleHasher } from '../src/common/tree.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const revocationDir = path.join(__dirname, 'fixtures', 'revocation');
+const crlPath = path.join(revocationDir, 'ca.crl');
+const caPath = path.join(revocationDir, 'ca.cer');
+const revokedPath = path.join(revocationDir, 'revoked.cer');
+const validPath = path.join(revocationDir, 'valid.cer');
+
+async function revocationList() {
+    const candidates = certificateCandidates([revokedPath, validPath]);
+    const { revoked, crls } = await collectRevokedKeys([crlPath], candidates, [caPath]);
+    return { candidates, list: await sealRevocationList(revoked, crls, 'pedersen') };
+}
+
+test('CRL entries resolve to the revoked certificate key', async () => {
+    const [revokedCert] = certificateCandidates([revokedPath]);
+    const { revoked, crls, unmatched } = await collectRevokedKeys(
+        [crlPath],
+        certificateCandidates([revokedPath, validPath]),
+        [caPath],
+    );
+
+    expect(crls).toHaveLength(1);
+    expect(crls[0].issuer).toBe('CN=Revocation Test CA');
+    expect(crls[0].signature_verified).toBe(true);
+    expect(revoked.map((entry) => entry.fingerprint)).toEqual([revokedCert.fingerprint]);
+    expect(unmatched).toEqual([]);
+
+    const unverified = await collectRevokedKeys([crlPath], [], []);
+    expect(unverified.crls[0].signature_verified).toBe(false);
+    expect(unverified.unmatched).toHaveLength(1);
+});
+
+test('non-revoked keys get a low leaf whose path folds to the root', async () => {
+    const { candidates, list } = await revocationList();
+    const valid = candidates[1];
+    const witness = await proveNonRevocation(list, valid.fingerprint, 'pedersen');
+
+    expect(witness.root).toBe(list.root);
+    expect(witness.low_path).toHaveLength(REVOCATION_TREE_DEPTH);
+
+    const hash = merkleHasher('pedersen');
+    let current = await hash(BigInt(witness.low_value), BigInt(witness.low_next));
+    const index = Number(witness.low_index);
+    for (const [level, sibling] of witness.low_path.entries()) {
+        current = (index >> level) & 1 ? await hash(BigInt(sibling), current) : await hash(current, BigInt(sibling));
+    }
+    expect(current.toString()).toBe(list.root);
+});
+
+test('revoked keys and mismatched lists are refused', async () => {
+    const { candidates, list } = await revocationList();
+
+    await expect(proveNonRevocation(list, candidates[0].fingerprint, 'pedersen')).rejects.toThrow(
+        'Signer key is revoked',
+    );
+    await expect(proveNonRevocation(list, candidates[1].fingerprint, 'poseidon')).rejects.toThrow(
+        'built for pedersen hashing',
+    );
+    await expect(proveNonRevocation({ ...list, root: '1' }, candidates[1].fingerprint, 'pedersen')).rejects.toThrow(
+        'root mismatch',
+    );
+
+    expect(getPublicInputLayout('pades_ecdsa_pedersen_rev').map((field) => field.name)).toContain('revocation_root');
+    expect(getPublicInputLayout('pades_ecdsa_pedersen').map((field) => field.name)).not.toContain('revocation_root');
+});
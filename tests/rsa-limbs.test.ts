@@ -0,0 +1,43 @@
+import { expect, test } from 'bun:test';
+import crypto from 'node:crypto';
+import {
+    barrettRedcLimbsBigint,
+    modulusToLimbsBigint,
+    rsaModulusBits,
+    serializeRsaFingerprintBytes,
+} from '../src/common/rsa.ts';
+
+function generateModulus(bits: number): Buffer {
+    const { publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: bits });
+    const jwk = publicKey.export({ format: 'jwk' });
+    return Buffer.from(jwk.n as string, 'base64url');
+}
+
+function fromLimbs(limbs: bigint[]): bigint {
+    return limbs.reduceRight((acc, limb) => (acc << 120n) | limb, 0n);
+}
+
+test('sizes limbs and Barrett parameter from the modulus', () => {
+    for (const [bits, limbCount] of [
+        [2048, 18],
+        [3072, 26],
+        [4096, 35],
+    ]) {
+        const n = generateModulus(bits);
+        const modulus = BigInt(`0x${n.toString('hex')}`);
+        const limbs = modulusToLimbsBigint(n);
+        const redc = barrettRedcLimbsBigint(n);
+
+        expect(rsaModulusBits(n)).toBe(bits);
+        expect(limbs).toHaveLength(limbCount);
+        expect(redc).toHaveLength(limbCount);
+        expect(fromLimbs(limbs)).toBe(modulus);
+        expect(fromLimbs(redc)).toBe((1n << BigInt(2 * bits + 4)) / modulus);
+        expect(serializeRsaFingerprintBytes(limbs, 65537)).toHaveLength(limbCount * 16 + 4);
+    }
+});
+
+test('rejects moduli without a circuit variant', () => {
+    expect(() => modulusToLimbsBigint(generateModulus(1024))).toThrow('Unsupported RSA modulus size: 1024 bits');
+    expect(() => serializeRsaFingerprintBytes([1n, 2n], 3)).toThrow('Unexpected RSA limb count');
+});
@@ -0,0 +1,68 @@
+import { expect, test } from 'bun:test';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { parseRsaSignatureScheme } from '../src/RSA-Pades/signature.ts';
+
+const SHA256 = '2.16.840.1.101.3.4.2.1';
+const SHA384 = '2.16.840.1.101.3.4.2.2';
+
+function signerInfoWith(
+    algorithmId: string,
+    algorithmParams?: asn1js.BaseBlock,
+    digestAlgorithm: string = SHA256,
+): pkijs.SignerInfo {
+    return new pkijs.SignerInfo({
+        digestAlgorithm: new pkijs.AlgorithmIdentifier({ algorithmId: digestAlgorithm }),
+        signatureAlgorithm: new pkijs.AlgorithmIdentifier({ algorithmId, algorithmParams }),
+    });
+}
+
+function pssParams(hash: string, saltLength: number): asn1js.BaseBlock {
+    const hashAlgorithm = new pkijs.AlgorithmIdentifier({ algorithmId: hash, algorithmParams: new asn1js.Null() });
+    return new pkijs.RSASSAPSSParams({
+        hashAlgorithm,
+        maskGenAlgorithm: new pkijs.AlgorithmIdentifier({
+            algorithmId: '1.2.840.113549.1.1.8',
+            algorithmParams: hashAlgorithm.toSchema(),
+        }),
+        saltLength,
+    }).toSchema();
+}
+
+test('recognises PKCS#1 v1.5 signatures', () => {
+    expect(parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.1'))).toEqual({
+        padding: 'pkcs1v15',
+        hash: 'SHA-256',
+    });
+    expect(parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.12', undefined, SHA384))).toEqual({
+        padding: 'pkcs1v15',
+        hash: 'SHA-384',
+    });
+    expect(() => parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.12'))).toThrow(
+        'Signature algorithm uses SHA-384 but the CMS digest algorithm is SHA-256',
+    );
+});
+
+test('parses RSASSA-PSS parameters', () => {
+    const scheme = parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.10', pssParams(SHA256, 32)));
+    expect(scheme).toEqual({ padding: 'pss', hash: 'SHA-256', saltLength: 32 });
+
+    const sha384 = parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.10', pssParams(SHA384, 48), SHA384));
+    expect(sha384).toEqual({ padding: 'pss', hash: 'SHA-384', saltLength: 48 });
+});
+
+test('rejects signature algorithms the circuits cannot prove', () => {
+    expect(() => parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.10', pssParams(SHA384, 48)))).toThrow(
+        'Unsupported RSASSA-PSS parameters: hash SHA-384',
+    );
+    // RFC 4055 defaults (SHA-1) apply when the parameters are empty
+    expect(() => parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.10', new asn1js.Sequence()))).toThrow(
+        'hash SHA-1',
+    );
+    expect(() => parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.10', pssParams(SHA256, 20)))).toThrow(
+        'Unsupported RSASSA-PSS salt length: 20 bytes (the circuits expect 32 for SHA-256)',
+    );
+    expect(() => parseRsaSignatureScheme(signerInfoWith('1.2.840.113549.1.1.5'))).toThrow(
+        'Unsupported RSA signature algorithm: 1.2.840.113549.1.1.5',
+    );
+});
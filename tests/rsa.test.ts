@@ -46,7 +46,50 @@ test('RSA PAdES (pedersen) end-to-end', { timeout: 0 }, async () => {
         pdfPath: path.join(repoRoot, 'examples', 'RSA', 'RSA.pdf'),
         allowlistCertPaths,
         outDir,
+        // The issuing CA of the example certificate is not shipped with the repo
+        allowInvalidChain: true,
     });
     const code = await runWithSpec(spec);
     expect(code).toBe(0);
 });
+
+test('RSA run spec uses the circuit family of the Merkle hash mode', () => {
+    const pdfPath = path.join(repoRoot, 'examples', 'RSA', 'RSA.pdf');
+    expect(path.basename(createRsaRunSpec({ pdfPath }).paths.circuitPath)).toBe('pades_rsa');
+    expect(path.basename(createRsaRunSpec({ pdfPath, mode: 'poseidon' }).paths.circuitPath)).toBe('pades_rsa_poseidon');
+    expect(() => createRsaRunSpec({ pdfPath, mode: 'keccak' })).toThrow('Unknown Merkle hash mode "keccak"');
+});
+
+test('RSA run spec rejects CA allowlists before preparing the PDF', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zk-qes-rsa-ca-'));
+    const allowlistPath = path.join(tmpDir, 'allowlist.json');
+    fs.writeFileSync(allowlistPath, JSON.stringify({ kind: 'ca', cert_fingerprints: ['00'] }));
+    const spec = createRsaRunSpec({ pdfPath: path.join(repoRoot, 'examples', 'RSA', 'RSA.pdf'), allowlistPath });
+    const { pdfPath, outDir } = spec.paths;
+    await expect(spec.prepare(pdfPath, allowlistPath, spec.mode, false, outDir)).rejects.toThrow(
+        'Unsupported option combination (CA allowlist of depth 8, pedersen mode): circuits/pades_rsa_ca does not exist',
+    );
+});
+
+test('RSA run spec routes each key size, padding and digest to its circuit', () => {
+    const spec = createRsaRunSpec({ pdfPath: path.join(repoRoot, 'examples', 'RSA', 'RSA.pdf'), mode: 'poseidon' });
+    const selectCircuit = spec.selectCircuit as NonNullable<typeof spec.selectCircuit>;
+    type Prep = Parameters<typeof selectCircuit>[0];
+    const prepFor = (modulusBits: number, treeDepth = 8, padding = 'pkcs1v15', hash = 'SHA-256') =>
+        ({
+            modulus_bits: modulusBits,
+            scheme: { padding, hash, saltLength: 32 },
+            allowlist_kind: 'signer',
+            tree_depth: treeDepth,
+        }) as unknown as Prep;
+
+    const names = [2048, 3072, 4096].map((bits) => path.basename(selectCircuit(prepFor(bits))));
+    expect(names).toEqual(['pades_rsa_poseidon', 'pades_rsa_3072_poseidon', 'pades_rsa_4096_poseidon']);
+    const pss = [2048, 3072, 4096].map((bits) => path.basename(selectCircuit(prepFor(bits, 8, 'pss'))));
+    expect(pss).toEqual(['pades_rsa_pss_poseidon', 'pades_rsa_pss_3072_poseidon', 'pades_rsa_pss_4096_poseidon']);
+    expect(path.basename(selectCircuit(prepFor(3072, 8, 'pss', 'SHA-512')))).toBe('pades_rsa_pss_3072_sha512_poseidon');
+    expect(path.basename(selectCircuit(prepFor(2048, 8, 'pkcs1v15', 'SHA-384')))).toBe('pades_rsa_sha384_poseidon');
+    expect(() => selectCircuit(prepFor(4096, 16))).toThrow(
+        'No circuit for RSA-4096 PKCS#1 v1.5 (SHA-256) keys: circuits/pades_rsa_4096_poseidon_d16 does not exist',
+    );
+});
@@ -0,0 +1,55 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { findSignatures, selectSignature, summarizeSignature } from '../src/common/signatures.ts';
+import { addCountersignature, addDocumentTimestamp } from './helpers/pdf.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+const ecdsaPdf = fs.readFileSync(path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf'));
+
+test('single signature PDF lists one signature covering the whole file', () => {
+    const signatures = findSignatures(ecdsaPdf);
+    expect(signatures.length).toBe(1);
+
+    const summary = summarizeSignature(ecdsaPdf, signatures[0]);
+    expect(summary.fieldName).toBe('SignatureFieldName 25');
+    expect(summary.byteRange).toEqual([0, 29494, 49976, 399]);
+    expect(summary.coversWholeFile).toBe(true);
+    expect(summary.subject).toContain('CN=TEST Testovyi Test');
+});
+
+test('countersigned PDF exposes both signatures and selects by index or name', () => {
+    const pdf = addCountersignature(ecdsaPdf, 'Countersignature');
+    const signatures = findSignatures(pdf);
+    expect(signatures.map((sig) => sig.fieldName)).toEqual(['SignatureFieldName 25', 'Countersignature']);
+
+    const second = selectSignature(signatures, 'Countersignature');
+    expect(second.index).toBe(1);
+    expect(selectSignature(signatures, '1')).toBe(second);
+    expect(selectSignature(signatures)).toBe(signatures[0]);
+
+    // ByteRange gap is exactly this dictionary's /Contents
+    const [, length1, offset2] = second.byteRange;
+    expect(second.contentsOffset).toEqual([length1, offset2]);
+    expect(summarizeSignature(pdf, second).coversWholeFile).toBe(true);
+    expect(summarizeSignature(pdf, signatures[0]).coversWholeFile).toBe(false);
+
+    expect(() => selectSignature(signatures, '2')).toThrow('out of range');
+    expect(() => selectSignature(signatures, 'Missing')).toThrow('not found');
+});
+
+test('document timestamps are listed but never selected as the signature to prove', () => {
+    const token = fs.readFileSync(path.join(__dirname, 'fixtures', 'timestamp', 'token.der'));
+    const signatures = findSignatures(addDocumentTimestamp(ecdsaPdf, token));
+    expect(signatures.map((sig) => sig.kind)).toEqual(['signature', 'doc-timestamp']);
+    expect(signatures[1].subFilter).toBe('ETSI.RFC3161');
+
+    expect(selectSignature(signatures)).toBe(signatures[0]);
+    expect(() => selectSignature(signatures, '1')).toThrow('is a document timestamp');
+    expect(() => selectSignature(signatures, 'Archive timestamp')).toThrow('is a document timestamp');
+    expect(() => selectSignature([signatures[1]])).toThrow('only has document timestamps');
+});
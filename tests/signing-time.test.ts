@@ -0,0 +1,61 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { parseSignedData, selectCmsSigner } from '../src/common/cms.ts';
+import { findSignatures } from '../src/common/signatures.ts';
+import { parseTimeBound, proveSigningTime, UNBOUNDED_SIGNING_TIME } from '../src/common/signing-time.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+
+const [signature] = findSignatures(fs.readFileSync(path.join(repoRoot, 'examples', 'ECDSA', 'ECDSA.pdf')));
+const { signerInfo } = selectCmsSigner(parseSignedData(signature.contents));
+
+// 2024-03-01T12:30:45Z
+const SIGNING_TIME = 1709296245n;
+
+function withSigningTime(time: asn1js.UTCTime | asn1js.GeneralizedTime): pkijs.SignerInfo {
+    const attributes = [
+        ...(signerInfo.signedAttrs?.attributes ?? []),
+        new pkijs.Attribute({ type: '1.2.840.113549.1.9.5', values: [time] }),
+    ];
+    return new pkijs.SignerInfo({
+        ...signerInfo,
+        signedAttrs: new pkijs.SignedAndUnsignedAttributes({ type: 0, attributes }),
+    });
+}
+
+test('time bounds accept ISO 8601 dates and unix seconds', () => {
+    expect(parseTimeBound('1709296245')).toBe(SIGNING_TIME);
+    expect(parseTimeBound('2024-03-01T12:30:45Z')).toBe(SIGNING_TIME);
+    expect(() => parseTimeBound('next tuesday')).toThrow('Invalid time "next tuesday"');
+});
+
+test('the signingTime attribute is proven against public bounds', () => {
+    const date = new Date(Number(SIGNING_TIME) * 1000);
+    for (const time of [new asn1js.UTCTime({ valueDate: date }), new asn1js.GeneralizedTime({ valueDate: date })]) {
+        const timed = withSigningTime(time);
+
+        expect(proveSigningTime(timed, { signedBefore: '2024-03-02' })).toEqual({
+            signing_time: SIGNING_TIME.toString(),
+            signed_after: '0',
+            signed_before: '1709337600',
+        });
+        expect(proveSigningTime(timed, { revealSigningTime: true, signedBefore: '2024-03-02' })).toEqual({
+            signing_time: SIGNING_TIME.toString(),
+            signed_after: SIGNING_TIME.toString(),
+            signed_before: SIGNING_TIME.toString(),
+        });
+        expect(proveSigningTime(timed, { signedAfter: '2024-01-01' })?.signed_before).toBe(
+            UNBOUNDED_SIGNING_TIME.toString(),
+        );
+        expect(() => proveSigningTime(timed, { signedBefore: '2024-03-01' })).toThrow('outside the requested range');
+    }
+
+    expect(proveSigningTime(signerInfo, {})).toBeUndefined();
+    expect(() => proveSigningTime(signerInfo, { signedBefore: '2024-03-02' })).toThrow('no signingTime attribute');
+});
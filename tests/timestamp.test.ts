@@ -0,0 +1,76 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { type CertificateStore, loadCertificateStore } from '../src/common/chain.ts';
+import { parseSignedData, selectCmsSigner } from '../src/common/cms.ts';
+import { findSignatures } from '../src/common/signatures.ts';
+import { assertSignatureTimestamp, checkSignatureTimestamp } from '../src/common/timestamp.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const timestampDir = path.join(__dirname, 'fixtures', 'timestamp');
+
+// Token over the ECDSA example's signature value, see scripts/generate-test-certs.sh
+const token = fs.readFileSync(path.join(timestampDir, 'token.der'));
+// The test TSA certificate is self-signed, so trusting it anchors the TSA chain
+const tsaStore = loadCertificateStore([path.join(timestampDir, 'tsa.cer')]);
+const emptyStore: CertificateStore = { anchors: [], intermediates: [] };
+
+function exampleSignerInfo(name: 'ECDSA' | 'RSA'): pkijs.SignerInfo {
+    const [signature] = findSignatures(fs.readFileSync(path.join(repoRoot, 'examples', name, `${name}.pdf`)));
+    return selectCmsSigner(parseSignedData(signature.contents)).signerInfo;
+}
+
+function withTimestamp(signerInfo: pkijs.SignerInfo, tokenDer: Uint8Array): pkijs.SignerInfo {
+    const attribute = new pkijs.Attribute({
+        type: '1.2.840.113549.1.9.16.2.14',
+        values: [asn1js.fromBER(tokenDer).result],
+    });
+    return new pkijs.SignerInfo({
+        ...signerInfo,
+        unsignedAttrs: new pkijs.SignedAndUnsignedAttributes({ type: 1, attributes: [attribute] }),
+    });
+}
+
+test('a B-T timestamp over the signature value is verified and reports the TSA time', async () => {
+    const timestamp = await checkSignatureTimestamp(withTimestamp(exampleSignerInfo('ECDSA'), token), tsaStore);
+
+    expect(timestamp?.errors).toEqual([]);
+    expect(timestamp?.validated).toBe(true);
+    expect(timestamp?.tsa_chain?.time_source).toBe('timestamp-time');
+    expect(timestamp?.tsa_chain?.checked_at).toBe(timestamp?.gen_time as string);
+    expect(timestamp?.tsa).toBe('CN=Timestamp Test TSA');
+    expect(timestamp?.tsa_certificate?.equals(fs.readFileSync(path.join(timestampDir, 'tsa.cer')))).toBe(true);
+    expect(timestamp?.hash_algorithm).toBe('SHA-256');
+    expect(Number.isNaN(Date.parse(timestamp?.gen_time ?? ''))).toBe(false);
+    expect(() => assertSignatureTimestamp(timestamp)).not.toThrow();
+
+    expect(await checkSignatureTimestamp(exampleSignerInfo('ECDSA'), tsaStore)).toBeNull();
+    expect(() => assertSignatureTimestamp(null)).not.toThrow();
+});
+
+test('a timestamp whose TSA certificate does not path-validate is unvalidated, not refused', async () => {
+    const timestamp = await checkSignatureTimestamp(withTimestamp(exampleSignerInfo('ECDSA'), token), emptyStore);
+
+    expect(timestamp?.errors).toEqual([]);
+    expect(timestamp?.validated).toBe(false);
+    expect(timestamp?.tsa_chain?.errors).toEqual(['Signer certificate is self-signed but not a trust anchor']);
+    expect(() => assertSignatureTimestamp(timestamp)).not.toThrow();
+});
+
+test('timestamps of another signature or with a broken TSA signature are refused', async () => {
+    const misplaced = await checkSignatureTimestamp(withTimestamp(exampleSignerInfo('RSA'), token), tsaStore);
+    expect(misplaced?.errors).toEqual(['message imprint does not cover the signature value']);
+    expect(() => assertSignatureTimestamp(misplaced)).toThrow('Signature timestamp check failed');
+
+    // Flip a byte of the TSA signature, the last field of the token
+    const tampered = Buffer.from(token);
+    tampered[tampered.length - 1] ^= 0x01;
+    const forged = await checkSignatureTimestamp(withTimestamp(exampleSignerInfo('ECDSA'), tampered), tsaStore);
+    expect(forged?.errors).toHaveLength(1);
+    expect(forged?.errors[0]).toStartWith('TSA signature');
+});
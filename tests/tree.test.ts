@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { Barretenberg } from '@aztec/bb.js';
+import { createMerkleTreeFromAllowlist, treeDepthCircuitSuffix, treeDepthFor } from '../src/common/tree.ts';
+import { bigintToUint8Array, hexToField, uint8ArrayToBigint } from '../src/common/utils.ts';
+
+const fingerprints = ['01', '02', '03'];
+
+let bbApi: Barretenberg;
+
+beforeAll(async () => {
+    bbApi = await Barretenberg.initSingleton({ threads: 1 });
+});
+
+afterAll(async () => {
+    await Barretenberg.destroySingleton();
+});
+
+async function pedersen(left: bigint, right: bigint): Promise<bigint> {
+    const result = await bbApi.pedersenHash({
+        inputs: [bigintToUint8Array(left), bigintToUint8Array(right)],
+        hashIndex: 0,
+    });
+    return uint8ArrayToBigint(result.hash);
+}
+
+async function foldPath(leaf: bigint, index: number, path: string[]): Promise<bigint> {
+    let current = leaf;
+    for (const [level, sibling] of path.entries()) {
+        const right = BigInt(sibling);
+        current = (index >> level) & 1 ? await pedersen(right, current) : await pedersen(current, right);
+    }
+    return current;
+}
+
+test('picks the smallest supported depth for the leaf count', () => {
+    expect(treeDepthFor(1)).toBe(8);
+    expect(treeDepthFor(256)).toBe(8);
+    expect(treeDepthFor(257)).toBe(16);
+    expect(treeDepthFor(2 ** 16 + 1)).toBe(20);
+    expect(() => treeDepthFor(2 ** 20 + 1)).toThrow('Allowlist too large');
+    expect(treeDepthCircuitSuffix(8)).toBe('');
+    expect(treeDepthCircuitSuffix(20)).toBe('_d20');
+});
+
+test('zero-subtree padding gives the same root as a fully padded tree', async () => {
+    const { root, depth } = await createMerkleTreeFromAllowlist(
+        { cert_fingerprints: fingerprints },
+        '',
+        'pedersen',
+        false,
+        bbApi,
+    );
+    expect(depth).toBe(8);
+
+    let layer = [...fingerprints.map(hexToField), ...new Array(256 - fingerprints.length).fill(0n)];
+    while (layer.length > 1) {
+        const next: bigint[] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            next.push(await pedersen(layer[i], layer[i + 1]));
+        }
+        layer = next;
+    }
+    expect(root).toBe(layer[0].toString());
+});
+
+test('deep trees produce full-length paths that fold to the root', async () => {
+    const { root, depth, proofs } = await createMerkleTreeFromAllowlist(
+        { cert_fingerprints: fingerprints, depth: 20 },
+        '',
+        'pedersen',
+        false,
+        bbApi,
+    );
+    expect(depth).toBe(20);
+
+    const proof = proofs[2];
+    expect(proof.merkle_path_decimal).toHaveLength(20);
+    expect((await foldPath(hexToField('03'), proof.index, proof.merkle_path_decimal)).toString()).toBe(root);
+
+    await expect(
+        createMerkleTreeFromAllowlist({ cert_fingerprints: fingerprints, depth: 12 }, '', 'pedersen', false, bbApi),
+    ).rejects.toThrow('Unsupported tree depth 12');
+});
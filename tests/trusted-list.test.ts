@@ -0,0 +1,122 @@
+import { expect, test } from 'bun:test';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { fingerprintCertificate, readCertificateBytes } from '../src/common/allowlist.ts';
+import {
+    buildAllowlistFromTrustedLists,
+    DEFAULT_SERVICE_STATUSES,
+    DEFAULT_SERVICE_TYPES,
+    matchLotlPointers,
+    parseTrustedList,
+} from '../src/common/trusted-list.ts';
+import { parseXml, textAt } from '../src/common/xml.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const chainDir = path.join(__dirname, 'fixtures', 'chain');
+
+const certBase64 = (name: string) => readCertificateBytes(path.join(chainDir, `${name}.cer`)).toString('base64');
+
+function service(type: string, status: string, cert: string): string {
+    return `
+        <tsl:TSPService>
+            <tsl:ServiceInformation>
+                <tsl:ServiceTypeIdentifier>http://uri.etsi.org/TrstSvc/Svctype/${type}</tsl:ServiceTypeIdentifier>
+                <tsl:ServiceName><tsl:Name xml:lang="uk">Сервіс</tsl:Name><tsl:Name xml:lang="en">${type} service</tsl:Name></tsl:ServiceName>
+                <tsl:ServiceDigitalIdentity><tsl:DigitalId>
+                    <tsl:X509Certificate>${cert}</tsl:X509Certificate>
+                </tsl:DigitalId></tsl:ServiceDigitalIdentity>
+                <tsl:ServiceStatus>http://uri.etsi.org/TrstSvc/TrustedList/Svcstatus/${status}</tsl:ServiceStatus>
+            </tsl:ServiceInformation>
+        </tsl:TSPService>`;
+}
+
+const nationalTl = `<?xml version="1.0" encoding="UTF-8"?>
+<tsl:TrustServiceStatusList xmlns:tsl="http://uri.etsi.org/02231/v2#" Id="TL">
+    <tsl:SchemeInformation>
+        <tsl:TSLSequenceNumber>42</tsl:TSLSequenceNumber>
+        <tsl:TSLType>http://uri.etsi.org/TrstSvc/TrustedList/TSLType/EUgeneric</tsl:TSLType>
+        <tsl:SchemeTerritory>UA</tsl:SchemeTerritory>
+        <tsl:ListIssueDateTime>2024-02-01T00:00:00Z</tsl:ListIssueDateTime>
+        <tsl:NextUpdate><tsl:dateTime>2024-08-01T00:00:00Z</tsl:dateTime></tsl:NextUpdate>
+    </tsl:SchemeInformation>
+    <tsl:TrustServiceProviderList><tsl:TrustServiceProvider>
+        <tsl:TSPInformation><tsl:TSPName><tsl:Name xml:lang="en">Test &amp; Co</tsl:Name></tsl:TSPName></tsl:TSPInformation>
+        <tsl:TSPServices>
+            ${service('CA/QC', 'granted', certBase64('intermediate'))}
+            ${service('CA/QC', 'withdrawn', certBase64('root'))}
+            ${service('TSA/QTST', 'granted', certBase64('signer'))}
+        </tsl:TSPServices>
+    </tsl:TrustServiceProvider></tsl:TrustServiceProviderList>
+</tsl:TrustServiceStatusList>`;
+
+const lotl = `<TrustServiceStatusList xmlns="http://uri.etsi.org/02231/v2#">
+    <SchemeInformation>
+        <TSLSequenceNumber>300</TSLSequenceNumber>
+        <TSLType>http://uri.etsi.org/TrstSvc/TrustedList/TSLType/EUlistofthelists</TSLType>
+        <SchemeTerritory>EU</SchemeTerritory>
+        <ListIssueDateTime>2024-01-15T00:00:00Z</ListIssueDateTime>
+        <PointersToOtherTSL>
+            <OtherTSLPointer><TSLLocation>https://example.eu/lotl.xml</TSLLocation>
+                <AdditionalInformation><OtherInformation><SchemeTerritory>EU</SchemeTerritory></OtherInformation></AdditionalInformation>
+            </OtherTSLPointer>
+            <OtherTSLPointer><TSLLocation>https://example.ua/tl.xml</TSLLocation>
+                <AdditionalInformation><OtherInformation><SchemeTerritory>UA</SchemeTerritory></OtherInformation></AdditionalInformation>
+            </OtherTSLPointer>
+            <OtherTSLPointer><TSLLocation>https://example.de/tl.xml</TSLLocation>
+                <AdditionalInformation><OtherInformation><SchemeTerritory>DE</SchemeTerritory></OtherInformation></AdditionalInformation>
+            </OtherTSLPointer>
+        </PointersToOtherTSL>
+    </SchemeInformation>
+</TrustServiceStatusList>`;
+
+test('parses namespaced XML, entities and CDATA', () => {
+    const root = parseXml(
+        '<?xml version="1.0"?><a:root><!-- c --><a:b x="1">x &lt; y<![CDATA[ & z]]></a:b><c/></a:root>',
+    );
+    expect(root.name).toBe('root');
+    expect(textAt(root, ['b'])).toBe('x < y & z');
+    expect(root.children.map((c) => c.name)).toEqual(['b', 'c']);
+    expect(() => parseXml('<a><b></a>')).toThrow('Unexpected closing tag');
+});
+
+test('reads scheme information and services from a national Trusted List', () => {
+    const list = parseTrustedList(nationalTl);
+    expect(list.source).toEqual({
+        type: 'tl',
+        territory: 'UA',
+        sequence_number: 42,
+        issue_date: '2024-02-01T00:00:00Z',
+        next_update: '2024-08-01T00:00:00Z',
+    });
+    expect(list.services.map((s) => `${s.type} ${s.status}`)).toEqual([
+        'CA/QC granted',
+        'CA/QC withdrawn',
+        'TSA/QTST granted',
+    ]);
+    expect(list.services[0].provider).toBe('Test & Co');
+    expect(list.services[0].name).toBe('CA/QC service');
+});
+
+test('keeps only granted CA/QC services and records the list versions', () => {
+    const parsedLotl = parseTrustedList(lotl);
+    const list = parseTrustedList(nationalTl);
+    const { missing, unlisted } = matchLotlPointers(parsedLotl, [list]);
+    expect(missing.map((p) => p.territory)).toEqual(['DE']);
+    expect(unlisted).toEqual([]);
+    expect(list.source.location).toBe('https://example.ua/tl.xml');
+
+    const { allowlist } = buildAllowlistFromTrustedLists(
+        [list],
+        { serviceTypes: DEFAULT_SERVICE_TYPES, statuses: DEFAULT_SERVICE_STATUSES },
+        parsedLotl,
+    );
+    expect(allowlist.kind).toBe('ca');
+    expect(allowlist.cert_fingerprints).toEqual([
+        fingerprintCertificate(readCertificateBytes(path.join(chainDir, 'intermediate.cer'))),
+    ]);
+    expect(allowlist.trusted_lists?.map((s) => `${s.type} ${s.territory} #${s.sequence_number}`)).toEqual([
+        'lotl EU #300',
+        'tl UA #42',
+    ]);
+});
@@ -0,0 +1,125 @@
+import { expect, test } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { comparePublicInputs, decodePublicInputs, getPublicInputLayout } from '../src/common/public-inputs.ts';
+import { sha256 } from '../src/common/utils.ts';
+import { loadProofArtifacts, trustedVerificationKey } from '../src/common/verify.ts';
+
+const docHash = 'a1'.repeat(32);
+const signedAttrsHash = '5c'.repeat(32);
+const tlRoot = '123456789';
+
+function toField(value: bigint): string {
+    return `0x${value.toString(16).padStart(64, '0')}`;
+}
+
+function bytesToFields(hex: string): string[] {
+    return [...Buffer.from(hex, 'hex')].map((b) => toField(BigInt(b)));
+}
+
+const publicInputs = [
+    ...bytesToFields(docHash),
+    ...bytesToFields(signedAttrsHash),
+    toField(256n),
+    toField(BigInt(tlRoot)),
+];
+
+function writeArtifacts(manifest: object): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zk-qes-verify-'));
+    fs.writeFileSync(path.join(dir, 'proof.json'), JSON.stringify({ proof: '00ff', publicInputs }));
+    fs.writeFileSync(path.join(dir, 'vkey.bin'), Buffer.from([1, 2, 3]));
+    fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify(manifest));
+    return dir;
+}
+
+test('decodes public inputs and accepts a matching manifest', () => {
+    const dir = writeArtifacts({
+        version: 1,
+        doc_hash: docHash,
+        signed_attrs_hash: signedAttrsHash,
+        digest_algorithm: 'SHA-256',
+        tl_root: tlRoot,
+    });
+    const artifacts = loadProofArtifacts(dir);
+
+    expect(artifacts.proof).toEqual(new Uint8Array([0x00, 0xff]));
+    expect(decodePublicInputs(artifacts.publicInputs)).toEqual({
+        doc_hash: Buffer.from(docHash, 'hex'),
+        signed_attrs_hash: Buffer.from(signedAttrsHash, 'hex'),
+        digest_algorithm: 'SHA-256',
+        tl_root: BigInt(tlRoot),
+    });
+    expect(comparePublicInputs(artifacts.manifest, decodePublicInputs(artifacts.publicInputs))).toEqual([]);
+});
+
+test('flags manifest fields that disagree with the proof', () => {
+    const dir = writeArtifacts({
+        version: 1,
+        doc_hash: 'b2'.repeat(32),
+        signed_attrs_hash: signedAttrsHash,
+        digest_algorithm: 'SHA-256',
+        tl_root: '42',
+    });
+    const artifacts = loadProofArtifacts(dir);
+    const mismatches = comparePublicInputs(artifacts.manifest, decodePublicInputs(artifacts.publicInputs));
+
+    expect(mismatches).toHaveLength(2);
+    expect(mismatches[0]).toStartWith('doc_hash');
+    expect(mismatches[1]).toStartWith('tl_root');
+});
+
+test('rejects missing artifacts and malformed public inputs', () => {
+    const dir = writeArtifacts({});
+    fs.rmSync(path.join(dir, 'vkey.bin'));
+
+    expect(() => loadProofArtifacts(dir)).toThrow('vkey.bin');
+    expect(() => getPublicInputLayout('pades_unknown')).toThrow('Unknown circuit');
+    expect(() => decodePublicInputs(publicInputs.slice(1))).toThrow('Expected 66 public inputs');
+    expect(() => decodePublicInputs([toField(256n), ...publicInputs.slice(1)])).toThrow('not a byte');
+});
+
+test('rejects a digest algorithm id that does not match the circuit', () => {
+    const sha384 = publicInputs.with(64, toField(384n));
+    expect(() => decodePublicInputs(sha384)).toThrow(
+        'Public input digest_algorithm is SHA-384, but the circuit hashes with SHA-256',
+    );
+    expect(() => decodePublicInputs(publicInputs.with(64, toField(1n)))).toThrow('Unknown digest algorithm id 1');
+});
+
+test('derives the public input layout from the circuit variant', () => {
+    const sizes = (circuit: string) =>
+        getPublicInputLayout(circuit).map((entry) => (entry.kind === 'bytes' ? entry.length : 1));
+
+    expect(sizes('pades_ecdsa_pedersen')).toEqual([32, 32, 1, 1]);
+    expect(sizes('pades_rsa_poseidon_d16')).toEqual([32, 32, 1, 1]);
+    expect(sizes('pades_ecdsa_ca_poseidon_d20')).toEqual([32, 32, 1, 1]);
+    expect(sizes('pades_rsa_rev')).toEqual([32, 32, 1, 1, 1]);
+    expect(sizes('pades_rsa_poseidon_time')).toEqual([32, 32, 1, 1, 1, 1]);
+    expect(sizes('pades_ecdsa_p384_sha384_poseidon')).toEqual([48, 48, 1, 1]);
+    expect(sizes('pades_rsa_pss_4096_sha512')).toEqual([64, 64, 1, 1]);
+});
+
+test('pins the verification key instead of trusting vkey.bin', async () => {
+    const manifest = {
+        version: 1,
+        doc_hash: docHash,
+        signed_attrs_hash: signedAttrsHash,
+        digest_algorithm: 'SHA-256',
+        tl_root: tlRoot,
+    };
+    const vkeyHash = Buffer.from(sha256(new Uint8Array([1, 2, 3]))).toString('hex');
+
+    const pinned = loadProofArtifacts(writeArtifacts({ ...manifest, circuit: 'pades_ecdsa_pedersen' }));
+    expect(await trustedVerificationKey(pinned, vkeyHash)).toEqual(new Uint8Array([1, 2, 3]));
+    await expect(trustedVerificationKey(pinned, 'ab'.repeat(32))).rejects.toThrow(
+        'does not match the pinned --vkey-hash',
+    );
+
+    const unnamed = loadProofArtifacts(writeArtifacts(manifest));
+    await expect(trustedVerificationKey(unnamed, vkeyHash)).rejects.toThrow('does not name the circuit');
+    for (const circuit of ['pades_forged', '../circuits/pades_ecdsa_pedersen']) {
+        const forged = loadProofArtifacts(writeArtifacts({ ...manifest, circuit }));
+        await expect(trustedVerificationKey(forged, vkeyHash)).rejects.toThrow('not a circuit under circuits/');
+    }
+});